@@ -1,24 +1,92 @@
-import React, { useState, useEffect } from 'react';
-import { AppConfig, GeneratedProject, LogEntry, Step, DeploymentResult, SavedProject } from './types';
-import { verifyGithubToken, createRepository, pushFilesToRepo, loadHistoryFromGist, saveHistoryToGist } from './services/githubService';
-import { generateProjectCode } from './services/geminiService';
-import { createVercelProject } from './services/vercelService';
-import { getSelfSourceCode, getTestTemplate } from './services/templateService';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { AppConfig, DeploymentLink, LogPhase, LogRun, HistorySyncState, TargetDeploymentResult, LLMSettings, FileNode, FixAttempt, VerificationResult, GeneratedProject, LogEntry, Step, DeploymentResult, SavedProject, ProjectPatch, ConversationTurn, StackProfile, EnvVar, RepoOptions, PullRequestLink } from './types';
+import { verifyGithubToken, missingScopes, GithubIdentity, GithubRepoSummary, createRepository, getRepository, renameBranch, setRepoTopics, createBranch, compareCommits, createPullRequest, commentOnPullRequest, pushFilesToRepo, commitFilesToRepo, commitChangesToRepo, commitSnapshotToRepo, loadHistoryFromGist, saveHistoryToGist, getGistRevision } from './services/githubService';
+import { generateProjectCode, refineProjectCode, repairProjectCode, fixBuildErrors } from './services/geminiService';
+import { validateProject } from './services/validationService';
+import { DEFAULT_LLM_SETTINGS, PROVIDERS } from './services/llm';
+import { DEFAULT_OAUTH_SETTINGS, OAuthToken, refreshAccessToken } from './services/githubAuthService';
+import { VaultSession, createVault, forgetVault, hasVault, mergeSecrets, saveVault, splitSecrets, unlockVault } from './services/vaultService';
+import { loadHistory, storeHistory, storeSyncState } from './services/historyStore';
+import { exportProjectZip, importProjectZip } from './services/archiveService';
+import { importProjectFromRepo } from './services/repoImportService';
+import { planPaste } from './services/pasteService';
+import { DEPLOY_TARGETS, DeployOutcome, DeployTarget, RepoRef, getDeployTarget, withTargetFiles } from './services/deployTargets';
+import { ProjectTemplate, TEMPLATE_CATALOG, isTemplateEntry, personalTemplates } from './services/templates';
+import { DEFAULT_STACK, detectStack, stackSummary } from './services/stacks';
 import { Terminal } from './components/Terminal';
-import { Code, Github, CloudLightning, ArrowRight, Play, Loader2, CheckCircle, ExternalLink, Settings, LayoutTemplate, HelpCircle, FileJson, Copy, Terminal as TerminalIcon, Check, CircleDashed, User, History, Save, ChevronLeft, Trash2, RefreshCw, Cloud, Info, Zap, TestTube, LogIn, Lock, Mail, Phone, Calendar } from 'lucide-react';
+import { PatchReview } from './components/PatchReview';
+import { ProjectFiles } from './components/ProjectFiles';
+import { ModelSettings } from './components/ModelSettings';
+import { StackSettings } from './components/StackSettings';
+import { EnvPanel } from './components/EnvPanel';
+import { RepoSettings } from './components/RepoSettings';
+import { RepoImport } from './components/RepoImport';
+import { PastePreview } from './components/PastePreview';
+import { ValidationPanel } from './components/ValidationPanel';
+import { SandboxPanel } from './components/SandboxPanel';
+import { TemplateGallery } from './components/TemplateGallery';
+import { HistoryPanel } from './components/HistoryPanel';
+import { VaultUnlock } from './components/VaultUnlock';
+import { DeviceLogin } from './components/DeviceLogin';
+import { applyChanges, replayTurns } from './utils/patch';
+import { diffLines, diffStats } from './utils/diff';
+import { PartialProject } from './utils/partialJson';
+import { fileByteSize, formatBytes, isBinaryFile } from './utils/assets';
+import { downloadBlob } from './utils/download';
+import { deployableEnvVars, missingEnvVars, scanEnvReferences } from './utils/envScan';
+import { ALLOW_MARKER, SecretFinding, scanForSecrets } from './utils/secretScan';
+import { toRepoName, validateBranchName, validateRepoName } from './utils/repoName';
+import { buildPullRequestBody, pullRequestBranch } from './utils/pullRequest';
+import { MAX_SAVED_RUNS, toSavedRun } from './utils/logFormat';
+import { isVisible, mergeHistory, rebaseLocalEdits, stampUpdated, uploadableHistory, versionOf } from './utils/historyMerge';
+import { Code, Github, CloudLightning, ArrowRight, Play, Loader2, CheckCircle, ExternalLink, Settings, LayoutTemplate, HelpCircle, FileJson, Copy, Terminal as TerminalIcon, Check, CircleDashed, User, History, Save, ChevronLeft, Trash2, RefreshCw, Cloud, Info, Zap, BookmarkPlus, LogIn, LogOut, Lock, Mail, Phone, Calendar, Sparkles, RotateCcw, Square, Wrench, AlertTriangle, Download, Upload, GitPullRequest } from 'lucide-react';
+
+const SYNC_LOG = { phase: 'sync', detached: true } as const;
 
 const App: React.FC = () => {
   const [step, setStep] = useState<Step>(Step.CONFIG);
-  const [config, setConfig] = useState<AppConfig>({ githubToken: '', githubUsername: '', vercelToken: '', useBetaDeploy: false });
+  const [config, setConfig] = useState<AppConfig>({ githubToken: '', githubUsername: '', vercelToken: '', useBetaDeploy: false, pushMode: 'atomic' });
   const [logs, setLogs] = useState<LogEntry[]>([]);
+  const logsRef = useRef<LogEntry[]>([]);
+  const [runs, setRuns] = useState<LogRun[]>([]);
+  const runsRef = useRef<LogRun[]>([]);
+  const currentRunRef = useRef<{ id: string; phase: LogPhase } | null>(null);
   const [prompt, setPrompt] = useState('');
   const [project, setProject] = useState<GeneratedProject | null>(null);
   const [deploymentResult, setDeploymentResult] = useState<DeploymentResult | null>(null);
   const [mode, setMode] = useState<'generate' | 'paste'>('generate');
+  const [showTemplates, setShowTemplates] = useState(false);
+  const [showRepoImport, setShowRepoImport] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [starterTemplate, setStarterTemplate] = useState<GeneratedProject | null>(null);
   const [savedProjects, setSavedProjects] = useState<SavedProject[]>([]);
+  const savedProjectsRef = useRef<SavedProject[]>([]);
+  const historyReadyRef = useRef<Promise<void>>(Promise.resolve());
+  const [syncState, setSyncState] = useState<HistorySyncState>({ base: {}, conflicts: [] });
+  const syncStateRef = useRef<HistorySyncState>({ base: {}, conflicts: [] });
+  const syncInFlightRef = useRef(false);
+  const syncQueuedRef = useRef(false);
+  const syncTimerRef = useRef<number | undefined>(undefined);
   const [showHistory, setShowHistory] = useState(false);
   const [showAbout, setShowAbout] = useState(false);
   const [isSyncing, setIsSyncing] = useState(false);
+  const [activeProjectId, setActiveProjectId] = useState<string | null>(null);
+  const [refineInput, setRefineInput] = useState('');
+  const [isRefining, setIsRefining] = useState(false);
+  const [pendingPatch, setPendingPatch] = useState<ProjectPatch | null>(null);
+  const [pendingRequest, setPendingRequest] = useState('');
+  const [isRepairing, setIsRepairing] = useState(false);
+  const [streamedFiles, setStreamedFiles] = useState<FileNode[]>([]);
+  const generationAbortRef = useRef<AbortController | null>(null);
+  const [verification, setVerification] = useState<{ project: GeneratedProject; result: VerificationResult } | null>(null);
+  const [commitMessage, setCommitMessage] = useState('');
+  const [vaultSession, setVaultSession] = useState<VaultSession | null>(null);
+  const [vaultLocked, setVaultLocked] = useState(false);
+  const [passphrase, setPassphrase] = useState('');
+
+  useEffect(() => { savedProjectsRef.current = savedProjects; }, [savedProjects]);
+
+  const currentVerification = verification && verification.project === project ? verification.result : null;
 
   useEffect(() => {
     const savedConfig = localStorage.getItem('autodeploy_config');
@@ -26,76 +94,308 @@ const App: React.FC = () => {
       try {
         const parsed = JSON.parse(savedConfig);
         setConfig(prev => ({...prev, ...parsed}));
-        if (parsed.githubToken) {
-           verifyGithubToken(parsed.githubToken).then(u => {
-               setConfig(prev => ({...prev, githubUsername: u}));
-               setStep(Step.PROMPT);
-               addLog(`Welcome back, ${u}. Session restored.`, 'success');
-               syncHistory(parsed.githubToken, true);
-           }).catch(() => {
-               addLog("Saved token expired or invalid. Please login again.", 'warning');
-               setStep(Step.CONFIG);
-           });
-        }
+        if (parsed.githubToken) addLog("Your saved tokens are stored unencrypted. Log in with a vault passphrase to encrypt them.", 'warning');
       } catch (e) { console.error("Config parse error", e); }
     }
-    const savedHistory = localStorage.getItem('autodeploy_history');
-    if (savedHistory) { try { setSavedProjects(JSON.parse(savedHistory)); } catch(e) {} }
+    if (hasVault()) setVaultLocked(true);
+    historyReadyRef.current = loadHistory().then(({ history, syncState }) => {
+      savedProjectsRef.current = history;
+      setSavedProjects(history);
+      if (syncState) { syncStateRef.current = syncState; setSyncState(syncState); }
+    }).catch(e => addLog(`Could not load saved projects (${e instanceof Error ? e.message : 'storage unavailable'}).`, 'error'));
   }, []);
 
-  const syncHistory = async (token: string, silent = false) => {
+  const isBusy = step === Step.GENERATING || step === Step.VERIFYING || step === Step.DEPLOYING;
+  const autoLockMinutes = config.autoLockMinutes ?? 15;
+
+  useEffect(() => {
+    if (!config.githubToken || !autoLockMinutes || isBusy) return;
+    let timer: number | undefined;
+    const reset = () => {
+      window.clearTimeout(timer);
+      timer = window.setTimeout(() => lockCredentials(`Locked after ${autoLockMinutes} minutes of inactivity.`), autoLockMinutes * 60 * 1000);
+    };
+    const events = ['pointerdown', 'keydown', 'mousemove', 'scroll'];
+    events.forEach(name => window.addEventListener(name, reset, { passive: true }));
+    reset();
+    return () => { window.clearTimeout(timer); events.forEach(name => window.removeEventListener(name, reset)); };
+  }, [config.githubToken, autoLockMinutes, isBusy]);
+
+  // Device-flow tokens from apps with expiring user tokens are refreshed shortly before they expire.
+  useEffect(() => {
+    if (!config.githubToken || !config.githubRefreshToken || !config.githubTokenExpiresAt) return;
+    const delay = Math.min(Math.max(config.githubTokenExpiresAt - Date.now() - 5 * 60 * 1000, 0), 2 ** 31 - 1);
+    const timer = window.setTimeout(() => {
+      refreshGithubToken(config).then(({ githubToken, githubRefreshToken, githubTokenExpiresAt, githubRefreshTokenExpiresAt }) => {
+        setConfig(prev => { const next = { ...prev, githubToken, githubRefreshToken, githubTokenExpiresAt, githubRefreshTokenExpiresAt }; saveConfig(next); return next; });
+        addLog('GitHub session refreshed.', 'info');
+      }).catch(e => {
+        addLog(`GitHub session expired (${e instanceof Error ? e.message : 'refresh failed'}). Please sign in again.`, 'warning');
+        signOut();
+      });
+    }, delay);
+    return () => window.clearTimeout(timer);
+  }, [config.githubToken, config.githubRefreshToken, config.githubTokenExpiresAt, vaultSession]);
+
+  const updateSyncState = (next: HistorySyncState) => {
+    syncStateRef.current = next;
+    setSyncState(next);
+    storeSyncState(next).catch(e => console.error("Sync state write failed", e));
+  };
+
+  const persistLocalHistory = (history: SavedProject[]) => {
+    const previous = savedProjectsRef.current;
+    savedProjectsRef.current = history;
+    setSavedProjects(history);
+    storeHistory(history, previous).catch(e => addLog(`Could not save history on this device (${e instanceof Error ? e.message : 'storage error'}).`, 'error'));
+  };
+
+  // Three-way merges local and cloud history, then writes the result back only if the gist has not
+  // moved on since it was read; otherwise the whole round is retried against the newer revision.
+  const syncHistory = async (token: string, account: string, silent = false) => {
       if (!token) return;
-      if (!silent) setIsSyncing(true);
+      if (syncInFlightRef.current) { syncQueuedRef.current = true; return; }
+      syncInFlightRef.current = true;
+      await historyReadyRef.current;
+      if (!silent) { setIsSyncing(true); addLog("Syncing projects with GitHub Cloud...", 'info', SYNC_LOG); }
       try {
-          if (!silent) addLog("Syncing projects with GitHub Cloud...", 'info');
-          const cloudHistory = await loadHistoryFromGist(token);
-          if (cloudHistory && Array.isArray(cloudHistory)) {
-              setSavedProjects(prev => {
-                  const combined = [...cloudHistory];
-                  prev.forEach(p => { if (!combined.find(c => c.id === p.id)) combined.push(p); });
-                  combined.sort((a, b) => b.timestamp - a.timestamp);
-                  localStorage.setItem('autodeploy_history', JSON.stringify(combined));
-                  return combined;
-              });
-              if (!silent) addLog("History synced successfully.", 'success');
-          } else {
-              if (!silent) addLog("No cloud history found. Creating new sync file...", 'info');
+          if (syncStateRef.current.account && syncStateRef.current.account !== account) updateSyncState({ account, base: {}, conflicts: [] });
+          for (let attempt = 0; attempt < 3; attempt++) {
+              const state = syncStateRef.current;
+              const remote = await loadHistoryFromGist(token, state.gistId);
+              const snapshot = savedProjectsRef.current;
+              const { merged, conflicts } = mergeHistory(snapshot, remote?.history || [], state.base);
+              const upload = uploadableHistory(merged, conflicts);
+              let gistId = remote?.gistId;
+              let revision = remote?.revision;
+              const needsWrite = remote ? JSON.stringify(upload) !== JSON.stringify(remote.history) : upload.length > 0;
+              if (needsWrite) {
+                  if (remote && (await getGistRevision(token, remote.gistId)) !== remote.revision) continue;
+                  ({ gistId, revision } = await saveHistoryToGist(token, upload, remote));
+              }
+              updateSyncState({ account, gistId, revision, base: Object.fromEntries(upload.map(p => [p.id, versionOf(p)])), conflicts, lastSyncedAt: Date.now() });
+              persistLocalHistory(rebaseLocalEdits(merged, snapshot, savedProjectsRef.current));
+              if (conflicts.length > 0) addLog(`${conflicts.length} project(s) changed both here and in the cloud. Resolve them in History.`, 'warning', SYNC_LOG);
+              else if (!silent) addLog("History synced successfully.", 'success', SYNC_LOG);
+              return;
           }
-      } catch (e) { if (!silent) addLog("Failed to sync history.", 'error'); } finally { if (!silent) setIsSyncing(false); }
+          throw new Error('the cloud history kept changing');
+      } catch (e) {
+          addLog(`Failed to sync history${e instanceof Error ? ` (${e.message})` : ''}.`, silent ? 'warning' : 'error', SYNC_LOG);
+      } finally {
+          syncInFlightRef.current = false;
+          if (!silent) setIsSyncing(false);
+          if (syncQueuedRef.current) { syncQueuedRef.current = false; syncHistory(token, account, true); }
+      }
+  };
+
+  const saveHistory = (newHistory: SavedProject[]) => {
+    persistLocalHistory(stampUpdated(newHistory, savedProjectsRef.current));
+    if (!config.githubToken) return;
+    const { githubToken, githubUsername } = config;
+    window.clearTimeout(syncTimerRef.current);
+    syncTimerRef.current = window.setTimeout(() => syncHistory(githubToken, githubUsername, true), 2000);
   };
 
-  const saveHistory = async (newHistory: SavedProject[]) => {
-    setSavedProjects(newHistory);
-    localStorage.setItem('autodeploy_history', JSON.stringify(newHistory));
-    if (config.githubToken) { try { await saveHistoryToGist(config.githubToken, newHistory); } catch (e) {} }
+  const resolveConflict = (id: string, keep: 'local' | 'remote') => {
+    const conflict = syncStateRef.current.conflicts.find(c => c.id === id);
+    if (!conflict) return;
+    updateSyncState({ ...syncStateRef.current, conflicts: syncStateRef.current.conflicts.filter(c => c.id !== id) });
+    if (keep === 'local') {
+      // A fresh version on top of the cloud's makes the local copy win on the next sync.
+      saveHistory(savedProjectsRef.current.map(p => p.id === id ? { ...p } : p));
+    } else {
+      persistLocalHistory(savedProjectsRef.current.map(p => p.id === id ? conflict.remote : p));
+    }
+    addLog(`Kept ${keep === 'local' ? "this device's" : 'the cloud'} version of "${conflict.local.project.name}".`, 'info');
   };
 
-  const saveConfig = (newConfig: AppConfig) => { localStorage.setItem('autodeploy_config', JSON.stringify(newConfig)); };
+  // Only non-secret settings are written in plain text; tokens go to the encrypted vault when one is unlocked.
+  const saveConfig = (newConfig: AppConfig, session = vaultSession) => {
+    const { secrets, settings } = splitSecrets(newConfig);
+    localStorage.setItem('autodeploy_config', JSON.stringify(settings));
+    if (session) saveVault(session, secrets).catch(handleError);
+  };
+
+  const warnMissingScopes = (identity: GithubIdentity) => {
+    if (identity.scopes === null) return;
+    const missing = missingScopes(identity, deployTarget.id === 'github-pages' ? ['repo', 'gist', 'workflow'] : undefined);
+    if (missing.length > 0) addLog(`Your GitHub token is missing the ${missing.map(s => `"${s}"`).join(', ')} scope(s); some features will fail.`, 'warning');
+  };
+
+  const tokenFields = (token: OAuthToken): Partial<AppConfig> => ({
+    githubToken: token.accessToken,
+    githubAuthMethod: 'device',
+    githubRefreshToken: token.refreshToken,
+    githubTokenExpiresAt: token.expiresAt,
+    githubRefreshTokenExpiresAt: token.refreshTokenExpiresAt,
+  });
+
+  const refreshGithubToken = async (current: AppConfig): Promise<AppConfig> => {
+    if (current.githubRefreshTokenExpiresAt && current.githubRefreshTokenExpiresAt < Date.now()) throw new Error('The GitHub refresh token has expired.');
+    const token = await refreshAccessToken(current.oauth || DEFAULT_OAUTH_SETTINGS, current.githubRefreshToken!);
+    return { ...current, ...tokenFields({ ...token, refreshToken: token.refreshToken || current.githubRefreshToken }) };
+  };
+
+  const handleUnlock = async (value: string) => {
+    const { session, secrets } = await unlockVault(value);
+    let unlocked = mergeSecrets(config, secrets);
+    if (unlocked.githubRefreshToken && unlocked.githubTokenExpiresAt && unlocked.githubTokenExpiresAt < Date.now() + 60 * 1000) {
+      try {
+        unlocked = await refreshGithubToken(unlocked);
+        saveConfig(unlocked, session);
+        addLog('Refreshed the expired GitHub token.', 'info');
+      } catch (e) { addLog(`Could not refresh the GitHub token (${e instanceof Error ? e.message : 'unknown error'}).`, 'warning'); }
+    }
+    setVaultSession(session); setVaultLocked(false); setConfig(unlocked);
+    if (!unlocked.githubToken) return;
+    try {
+      const identity = await verifyGithubToken(unlocked.githubToken);
+      warnMissingScopes(identity);
+      setConfig(prev => ({ ...prev, githubUsername: identity.login }));
+      setStep(Step.PROMPT);
+      addLog(`Welcome back, ${identity.login}. Session restored.`, 'success');
+      syncHistory(unlocked.githubToken, identity.login, true);
+    } catch (e) { addLog("Saved token expired or invalid. Please login again.", 'warning'); }
+  };
+
+  const lockCredentials = (reason: string) => {
+    setVaultSession(null);
+    setVaultLocked(hasVault());
+    setConfig(prev => ({ ...splitSecrets(prev).settings, githubUsername: prev.githubUsername }));
+    setShowHistory(false);
+    setStep(Step.CONFIG);
+    addLog(reason, 'warning');
+  };
+
+  const forgetCredentials = () => {
+    if (!window.confirm('Remove all saved tokens and API keys from this browser?')) return;
+    forgetVault();
+    setVaultSession(null); setVaultLocked(false);
+    const cleared = { ...splitSecrets(config).settings, githubUsername: '' };
+    setConfig(cleared);
+    localStorage.setItem('autodeploy_config', JSON.stringify(cleared));
+    setStep(Step.CONFIG);
+    addLog('All saved credentials were removed from this browser.', 'warning');
+  };
+
+  const updateConfig = (newConfig: AppConfig) => { setConfig(newConfig); saveConfig(newConfig); };
+
+  const llmSettings = config.llm || DEFAULT_LLM_SETTINGS;
+
+  const deployTarget = getDeployTarget(config.deployTarget);
+
+  const updateLlmSettings = (llm: LLMSettings) => updateConfig({ ...config, llm });
+
+  // The profile picked for new generations; loaded projects keep the one they were generated with.
+  const stack = config.stack || DEFAULT_STACK;
+
+  const updateStack = (next: StackProfile) => updateConfig({ ...config, stack: next });
   
   const saveCurrentProject = () => {
       if (!project) return;
       const newEntry: SavedProject = { id: Math.random().toString(36).substring(7), timestamp: Date.now(), prompt, project };
-      const isDuplicate = savedProjects.some(p => p.project.name === project.name && p.prompt === prompt);
+      const isDuplicate = savedProjects.some(p => isVisible(p) && !isTemplateEntry(p) && p.project.name === project.name && p.prompt === prompt);
       if (!isDuplicate) {
         const updated = [newEntry, ...savedProjects];
-        saveHistory(updated);
+        saveHistory(updated); setActiveProjectId(newEntry.id);
         addLog(`Project "${project.name}" saved to history.`, 'success');
       } else { addLog(`Project "${project.name}" is already saved.`, 'warning'); }
   };
   
   const loadProject = (entry: SavedProject) => {
-      setPrompt(entry.prompt); setProject(entry.project); setStep(Step.REVIEW); setShowHistory(false);
+      setPrompt(entry.prompt); setProject(entry.project); setActiveProjectId(entry.id); setPendingPatch(null); setStep(Step.REVIEW); setShowHistory(false);
       addLog(`Loaded project "${entry.project.name}" from history.`, 'info');
   };
 
-  const deleteProject = (id: string, e: React.MouseEvent) => {
-      e.stopPropagation();
-      const updated = savedProjects.filter(p => p.id !== id);
-      saveHistory(updated);
+  // Leaves a content-free tombstone so the deletion reaches other devices instead of being undone by them.
+  const deleteProject = (id: string) => {
+      if (id === activeProjectId) setActiveProjectId(null);
+      saveHistory(savedProjectsRef.current.map(p => p.id === id ? { id, timestamp: p.timestamp, prompt: '', project: { name: p.project.name, description: '', files: [] }, deletedAt: Date.now() } : p));
+      if (config.envVars?.[id]) updateConfig({ ...config, envVars: Object.fromEntries(Object.entries(config.envVars).filter(([key]) => key !== id)) });
   };
 
-  const addLog = (message: string, type: LogEntry['type'] = 'info') => {
-    setLogs(prev => [...prev, { id: Math.random().toString(36), timestamp: new Date(), message, type }]);
+  const activeEntry = savedProjects.find(p => p.id === activeProjectId) || null;
+
+  const pastePlan = useMemo(() => (mode === 'paste' && prompt.trim() ? planPaste(prompt, stack) : null), [mode, prompt, stack]);
+  const projectStack = useMemo(() => activeEntry?.stack || (project ? detectStack(project) : DEFAULT_STACK), [activeEntry?.stack, project]);
+  const validationIssues = useMemo(() => (project ? validateProject(project, projectStack) : []), [project, projectStack]);
+  const envReferences = useMemo(() => (project ? scanEnvReferences(project) : []), [project]);
+  const projectEnv = (activeProjectId ? config.envVars?.[activeProjectId] : undefined) || [];
+
+  const updateProjectEnv = (vars: EnvVar[]) => {
+    if (!activeProjectId) return;
+    updateConfig({ ...config, envVars: { ...config.envVars, [activeProjectId]: vars } });
+  };
+
+  // Settings for the repository the first deploy creates; name and topics are per project, the rest carries over.
+  const newRepoOptions = (projectName: string): RepoOptions => ({
+    owner: '', visibility: 'public', defaultBranch: 'main', license: '', gitignore: '',
+    ...config.repoDefaults, name: toRepoName(projectName), topics: [],
+  });
+  const [repoOptions, setRepoOptions] = useState<RepoOptions>(() => newRepoOptions(''));
+
+  useEffect(() => { if (project) setRepoOptions(newRepoOptions(project.name)); }, [activeProjectId]);
+
+  const updateRepoOptions = (next: RepoOptions) => {
+    setRepoOptions(next);
+    const { name, topics, ...defaults } = next;
+    if (JSON.stringify(defaults) !== JSON.stringify(config.repoDefaults)) updateConfig({ ...config, repoDefaults: defaults });
+  };
+
+  const logSecretFindings = (findings: SecretFinding[]) =>
+    findings.forEach(f => addLog(`Possible ${f.rule} on line ${f.line}: ${f.excerpt}`, 'error', { filePath: f.path }));
+
+  // Reads the ref rather than state so consecutive updates within one async flow (e.g. auto-fix, then deploy) do not overwrite each other.
+  const updateActiveEntry = (changes: Partial<SavedProject>) => {
+      if (!activeProjectId) return;
+      saveHistory(savedProjectsRef.current.map(p => p.id === activeProjectId ? { ...p, ...changes } : p));
+  };
+
+  const unlinkDeployment = () => {
+      if (!activeEntry?.deployment) return;
+      if (!window.confirm(`Unlink ${activeEntry.deployment.repoOwner}/${activeEntry.deployment.repoName}? The next deploy will create a new repository.`)) return;
+      updateActiveEntry({ deployment: undefined });
+      addLog('Project unlinked from its repository.', 'warning');
+  };
+
+  // Entries are stamped with the current run and phase unless `detached` (background work such as cloud sync).
+  const addLog = (message: string, type: LogEntry['type'] = 'info', details: Pick<LogEntry, 'phase' | 'filePath' | 'durationMs'> & { detached?: boolean } = {}) => {
+    const run = details.detached ? null : currentRunRef.current;
+    const entry: LogEntry = { id: Math.random().toString(36), timestamp: new Date(), message, type, phase: details.phase ?? run?.phase, filePath: details.filePath, durationMs: details.durationMs, runId: run?.id };
+    logsRef.current = [...logsRef.current, entry];
+    setLogs(logsRef.current);
+  };
+
+  const updateRuns = (next: LogRun[]) => { runsRef.current = next; setRuns(next); };
+
+  const beginRun = (label: string, phase: LogPhase) => {
+    const run: LogRun = { id: Math.random().toString(36).substring(2, 10), label, startedAt: Date.now() };
+    currentRunRef.current = { id: run.id, phase };
+    updateRuns([...runsRef.current, run]);
+  };
+
+  const setRunPhase = (phase: LogPhase) => {
+    if (currentRunRef.current) currentRunRef.current = { ...currentRunRef.current, phase };
+  };
+
+  // Closes the current run and keeps its log on the project it belongs to, so failures can be diagnosed later.
+  const endRun = (ok: boolean, entryId: string | null = activeProjectId) => {
+    const current = currentRunRef.current;
+    const run = runsRef.current.find(r => r.id === current?.id);
+    if (!run) return;
+    const finished: LogRun = { ...run, finishedAt: Date.now(), ok };
+    addLog(`${run.label} ${ok ? 'finished' : 'failed'}.`, ok ? 'info' : 'error', { durationMs: finished.finishedAt! - run.startedAt });
+    currentRunRef.current = null;
+    updateRuns(runsRef.current.map(r => r.id === run.id ? finished : r));
+    if (!entryId) return;
+    const saved = toSavedRun(finished, logsRef.current.filter(l => l.runId === run.id));
+    saveHistory(savedProjectsRef.current.map(p => p.id === entryId ? { ...p, runs: [...(p.runs || []), saved].slice(-MAX_SAVED_RUNS) } : p));
+  };
+
+  const clearLogs = () => {
+    logsRef.current = []; setLogs([]);
+    updateRuns([]);
   };
 
   const handleError = (error: any) => {
@@ -103,76 +403,432 @@ const App: React.FC = () => {
     addLog(error instanceof Error ? error.message : "An unexpected error occurred in my systems.", 'error');
   };
 
+  const completeLogin = async (credentials: AppConfig) => {
+      const identity = await verifyGithubToken(credentials.githubToken);
+      warnMissingScopes(identity);
+      const newConfig = { ...credentials, githubUsername: identity.login };
+      let session = vaultSession;
+      if (!session && passphrase) {
+        session = await createVault(passphrase, splitSecrets(newConfig).secrets);
+        setVaultSession(session);
+        addLog('Credentials encrypted with your passphrase.', 'success');
+      } else if (!session) {
+        addLog('No passphrase set: credentials are kept for this session only.', 'warning');
+      }
+      setPassphrase('');
+      setConfig(newConfig); saveConfig(newConfig, session);
+      addLog(`Hello, ${identity.login}! Login successful.`, 'success');
+      setStep(Step.PROMPT); syncHistory(newConfig.githubToken, identity.login);
+  };
+
   const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!config.githubToken) return;
     addLog('Verifying GitHub credentials...');
     try {
-      const username = await verifyGithubToken(config.githubToken);
-      const newConfig = { ...config, githubUsername: username };
-      setConfig(newConfig); saveConfig(newConfig);
-      addLog(`Hello, ${username}! Login successful.`, 'success');
-      setStep(Step.PROMPT); syncHistory(config.githubToken);
+      await completeLogin({ ...config, githubAuthMethod: 'pat', githubRefreshToken: undefined, githubTokenExpiresAt: undefined, githubRefreshTokenExpiresAt: undefined });
+    } catch (err) { handleError(err); }
+  };
+
+  const handleDeviceToken = async (token: OAuthToken) => {
+    addLog('GitHub authorized this device. Verifying...');
+    try {
+      await completeLogin({ ...config, ...tokenFields(token) });
     } catch (err) { handleError(err); }
   };
 
+  const signOut = () => {
+    setConfig(prev => {
+      const signedOut: AppConfig = { ...prev, githubToken: '', githubUsername: '', githubAuthMethod: undefined, githubRefreshToken: undefined, githubTokenExpiresAt: undefined, githubRefreshTokenExpiresAt: undefined };
+      saveConfig(signedOut);
+      return signedOut;
+    });
+    setShowHistory(false); setStep(Step.CONFIG);
+    addLog(config.githubAuthMethod === 'device' ? 'Signed out. To revoke the authorization itself, remove the app under GitHub Settings > Applications.' : 'Signed out of GitHub.', 'info');
+  };
+
   const handleGenerate = async () => {
     if (!prompt.trim()) return;
     setStep(Step.GENERATING);
-    if (mode === 'generate') { addLog(`I'm brainstorming code for: "${prompt.slice(0, 30)}..."`); } else { addLog('Analyzing code structure...'); }
+    beginRun(mode === 'generate' ? 'Generate app' : 'Prepare pasted code', 'generate');
+    if (pastePlan?.project) {
+      addLog(`Split the paste locally into ${pastePlan.parsed.files.length} file(s).`);
+      if (pastePlan.scaffolded.length > 0) addLog(`Added ${pastePlan.scaffolded.join(', ')} from the ${stackSummary(pastePlan.stack)} scaffold.`);
+      endRun(true, finishGeneration(pastePlan.project, prompt, pastePlan.stack));
+      return;
+    }
+    if (mode === 'generate') { addLog(`I'm brainstorming code for: "${prompt.slice(0, 30)}..."`); } else {
+      pastePlan?.problems.forEach(p => addLog(p, 'warning'));
+      addLog('The paste structure is ambiguous; asking the model to split it...');
+    }
+    const controller = new AbortController();
+    generationAbortRef.current = controller;
+    setStreamedFiles([]);
+    let partial: PartialProject = { files: [] };
+    const template = mode === 'generate' ? starterTemplate || undefined : undefined;
+    // A starter template brings its own tooling, so the generated entry records the template's stack.
+    const generationStack = template ? detectStack(template) : stack;
+    // The model only sees the template's binary assets as paths, so they are carried over as is.
+    const templateAssets = template?.files.filter(isBinaryFile) || [];
+    const withTemplateAssets = (p: GeneratedProject): GeneratedProject => ({ ...p, files: [...p.files, ...templateAssets.filter(a => !p.files.some(f => f.path === a.path))] });
     try {
-      const generated = await generateProjectCode(prompt, mode);
-      setProject(generated);
-      addLog(`Prepared "${generated.name}" with ${generated.files.length} files.`, 'success');
-      setStep(Step.REVIEW);
-      const newEntry: SavedProject = { id: Math.random().toString(36).substring(7), timestamp: Date.now(), prompt, project: generated };
-      saveHistory([newEntry, ...savedProjects]);
-    } catch (err) { handleError(err); setStep(Step.PROMPT); }
+      const generated = await generateProjectCode(prompt, mode, llmSettings, {
+        signal: controller.signal,
+        template,
+        stack: generationStack,
+        onFile: (file, snapshot) => { partial = snapshot; setStreamedFiles(snapshot.files); addLog('Generated', 'info', { filePath: file.path }); },
+      });
+      endRun(true, finishGeneration(withTemplateAssets(generated), prompt, generationStack));
+    } catch (err) {
+      if (controller.signal.aborted && partial.files.length > 0) {
+        addLog(`Generation cancelled. Keeping ${partial.files.length} completed file(s).`, 'warning');
+        endRun(false, finishGeneration(withTemplateAssets({ name: partial.name || 'untitled-app', description: partial.description || '', files: partial.files }), prompt, generationStack));
+      } else { handleError(err); endRun(false, null); setStep(Step.PROMPT); }
+    } finally { generationAbortRef.current = null; }
   };
 
-  const handleLoadSelfSource = () => {
-    let code = getSelfSourceCode();
-    setPrompt(code);
-    addLog("Loaded AutoDeploy Agent source code. Ready to replicate.", 'success');
+  // Without a `generationStack` (imports, templates used as is) the entry's stack is detected from its package.json.
+  const finishGeneration = (generated: GeneratedProject, entryPrompt = prompt, generationStack?: StackProfile, deployment?: DeploymentLink) => {
+    setProject(generated); setPendingPatch(null); setStreamedFiles([]);
+    addLog(`Prepared "${generated.name}" with ${generated.files.length} files.`, 'success');
+    logValidation(generated, generationStack || detectStack(generated));
+    setStep(Step.REVIEW);
+    const newEntry: SavedProject = { id: Math.random().toString(36).substring(7), timestamp: Date.now(), prompt: entryPrompt, project: generated, ...(generationStack && { stack: generationStack }), ...(deployment && { deployment }) };
+    saveHistory([newEntry, ...savedProjectsRef.current]); setActiveProjectId(newEntry.id);
+    return newEntry.id;
   };
 
-  const handleLoadTestTemplate = () => {
-      const code = getTestTemplate();
-      setPrompt(code);
-      addLog("Loaded Test Template (Hello World).", 'success');
+  const handleImportZip = async (file: File) => {
+    addLog(`Importing ${file.name}...`);
+    try {
+      const imported = await importProjectZip(file);
+      imported.skipped.forEach(path => addLog(`Skipped ${path}.`, 'warning'));
+      setPrompt(imported.prompt);
+      finishGeneration(imported.project, imported.prompt);
+    } catch (err) { handleError(err); }
+  };
+
+  const handleImportRepo = async (repo: GithubRepoSummary, branch: string) => {
+    setIsImporting(true);
+    addLog(`Importing ${repo.owner}/${repo.name}@${branch}...`);
+    try {
+      const imported = await importProjectFromRepo(config.githubToken, repo, branch, (msg) => addLog(msg));
+      imported.skipped.forEach(path => addLog(`Skipped ${path}.`, 'warning'));
+      if (imported.deployment) addLog(`Linked to ${repo.owner}/${repo.name}; deploys will update ${branch}.`);
+      setPrompt(''); setShowRepoImport(false);
+      finishGeneration(imported.project, '', undefined, imported.deployment);
+    } catch (err) { handleError(err); } finally { setIsImporting(false); }
+  };
+
+  const handleExportZip = async (entry: Pick<SavedProject, 'prompt' | 'project' | 'timestamp' | 'deployment'>) => {
+    try {
+      const { blob, filename } = await exportProjectZip(entry);
+      downloadBlob(blob, filename);
+      addLog(`Exported "${entry.project.name}" as ${filename}.`, 'success');
+    } catch (err) { handleError(err); }
+  };
+
+  const handleCancelGeneration = () => {
+    addLog('Cancelling generation...', 'warning');
+    generationAbortRef.current?.abort();
+  };
+
+  const logValidation = (target: GeneratedProject, targetStack = projectStack) => {
+    const issues = validateProject(target, targetStack);
+    const errors = issues.filter(i => i.severity === 'error').length;
+    if (issues.length === 0) addLog('Validation passed.', 'success');
+    else addLog(`Validation found ${errors} error(s) and ${issues.length - errors} warning(s).`, errors ? 'error' : 'warning');
+  };
+
+  const handleRepair = async () => {
+    if (!project || validationIssues.length === 0) return;
+    setIsRepairing(true);
+    beginRun('Repair validation issues', 'refine');
+    addLog(`Asking the model to repair ${validationIssues.length} validation issue(s)...`);
+    try {
+      const patch = await repairProjectCode(project, validationIssues, llmSettings);
+      setPendingPatch(patch); setPendingRequest(`Auto-repair ${validationIssues.length} validation issue(s).`);
+      addLog(`Proposed ${patch.changes.length} repair(s). Review them before applying.`, 'success');
+      endRun(true);
+    } catch (err) { handleError(err); endRun(false); } finally { setIsRepairing(false); }
+  };
+
+  const handleRefine = async () => {
+    if (!project || !refineInput.trim()) return;
+    setIsRefining(true);
+    beginRun('Refine', 'refine');
+    addLog(`Refining "${project.name}": "${refineInput.slice(0, 40)}..."`);
+    try {
+      const patch = await refineProjectCode(project, refineInput, activeEntry?.turns || [], llmSettings);
+      setPendingPatch(patch); setPendingRequest(refineInput);
+      addLog(`Proposed ${patch.changes.length} file change(s). Review them before applying.`, 'success');
+      endRun(true);
+    } catch (err) { handleError(err); endRun(false); } finally { setIsRefining(false); }
+  };
+
+  const handleApplyPatch = (acceptedPaths: string[]) => {
+    if (!project || !pendingPatch) return;
+    const accepted = pendingPatch.changes.filter(c => acceptedPaths.includes(c.path));
+    const rejected = pendingPatch.changes.filter(c => !acceptedPaths.includes(c.path)).map(c => c.path);
+    const updated = applyChanges(project, accepted);
+    const now = Date.now();
+    const turns: ConversationTurn[] = [
+      ...(activeEntry?.turns || []),
+      { role: 'user', content: pendingRequest, timestamp: now },
+      { role: 'model', content: pendingPatch.summary, timestamp: now, changes: accepted, rejected },
+    ];
+    setProject(updated); setPendingPatch(null); setRefineInput('');
+    updateActiveEntry({ project: updated, baseProject: activeEntry?.baseProject || project, turns });
+    addLog(`Applied ${accepted.length} change(s)${rejected.length ? `, rejected ${rejected.length}` : ''}.`, 'success');
+    logValidation(updated);
+  };
+
+  const handleFilesChange = (files: FileNode[], message: string) => {
+    if (!project) return;
+    const updated = { ...project, files };
+    setProject(updated);
+    updateActiveEntry({ project: updated });
+    addLog(message, 'info');
+  };
+
+  const handleRestoreTurn = (index: number) => {
+    if (!activeEntry?.baseProject || !activeEntry.turns) return;
+    if (!window.confirm('Restore the project to this point? Later refinements will be discarded.')) return;
+    const turns = activeEntry.turns.slice(0, index + 1);
+    const restored = replayTurns(activeEntry.baseProject, turns);
+    setProject(restored); setPendingPatch(null);
+    updateActiveEntry({ project: restored, turns });
+    addLog(`Restored "${restored.name}" to refinement ${Math.ceil(turns.length / 2)}.`, 'info');
+  };
+
+  const handleUseTemplate = async (template: ProjectTemplate) => {
+    try {
+      const starter = await template.load();
+      setPrompt('');
+      setShowTemplates(false);
+      finishGeneration(starter, `Started from the "${template.name}" template.`);
+    } catch (err) { handleError(err); }
+  };
+
+  const handleGenerateFromTemplate = async (template: ProjectTemplate) => {
+    try {
+      setStarterTemplate(await template.load());
+      setMode('generate'); setShowTemplates(false);
+      addLog(`The next generation will start from the "${template.name}" template. Describe what to change.`, 'info');
+    } catch (err) { handleError(err); }
+  };
+
+  const saveAsTemplate = () => {
+    if (!project) return;
+    const tags = window.prompt(`Save "${project.name}" as a personal template. Tags (comma separated):`, '');
+    if (tags === null) return;
+    const entry: SavedProject = {
+      id: Math.random().toString(36).substring(7), timestamp: Date.now(), prompt, project,
+      template: { tags: tags.split(',').map(t => t.trim().toLowerCase()).filter(Boolean) },
+    };
+    saveHistory([entry, ...savedProjectsRef.current]);
+    addLog(`Saved "${project.name}" as a template.`, 'success');
+  };
+
+  const runTargetDeploy = (target: DeployTarget, repo: RepoRef, siteId?: string, preview = false) => target.deploy({
+    ...repo, config, siteId, preview, stack: projectStack, env: deployableEnvVars(projectEnv),
+    onProgress: (msg) => addLog(msg),
+    onState: (state) => addLog(`${target.label} deployment is ${state}.`, state === 'READY' ? 'success' : state === 'ERROR' || state === 'CANCELED' ? 'error' : 'info'),
+    onLog: (line) => addLog(line.text, line.isError ? 'error' : 'info'),
+  });
+
+  const runAutoFix = async (deployed: GeneratedProject, target: DeployTarget, repo: RepoRef, failed: DeployOutcome, preview = false) => {
+    const maxAttempts = config.autoFix?.maxAttempts || 2;
+    const attempts: FixAttempt[] = [...(activeEntry?.fixAttempts || [])];
+    let current = deployed;
+    let outcome = failed;
+    let commitSha: string | undefined;
+    try {
+      for (let attempt = 1; attempt <= maxAttempts && outcome.state !== 'READY'; attempt++) {
+        setRunPhase('autofix');
+        addLog(`Auto-fix ${attempt}/${maxAttempts}: asking the model to fix the build...`, 'warning');
+        const patch = await fixBuildErrors(current, [...outcome.logs.map(l => l.text), ...(outcome.error ? [outcome.error] : [])], llmSettings);
+        if (patch.changes.length === 0) { addLog('The model proposed no changes. Stopping auto-fix.', 'warning'); break; }
+        addLog(`Auto-fix ${attempt}: ${patch.summary}`);
+        const findings = scanForSecrets(patch.changes.filter(c => c.type !== 'delete').map(c => ({ path: c.path, content: c.content ?? '' })), projectEnv);
+        if (findings.length > 0) { logSecretFindings(findings); addLog('The fix would commit possible secrets. Stopping auto-fix.', 'error'); break; }
+        patch.changes.forEach(change => {
+          const before = current.files.find(f => f.path === change.path)?.content ?? '';
+          const stats = diffStats(diffLines(before, change.type === 'delete' ? '' : change.content ?? ''));
+          addLog(`  ${change.type} (+${stats.added} -${stats.removed})`, 'info', { filePath: change.path });
+        });
+        current = applyChanges(current, patch.changes);
+        const commit = await commitChangesToRepo(config.githubToken, repo.owner, repo.repoName, repo.branch, patch.changes, `Auto-fix build errors (attempt ${attempt})`, (msg) => addLog(msg));
+        commitSha = commit.sha;
+        addLog(`Pushed fix ${commit.sha.slice(0, 7)}. Watching the new build...`, 'success');
+        setRunPhase('build');
+        outcome = await runTargetDeploy(target, repo, outcome.siteId, preview);
+        attempts.push({ attempt, timestamp: Date.now(), summary: patch.summary, changes: patch.changes, commitSha: commit.sha, state: outcome.state, error: outcome.error });
+      }
+    } catch (err) { handleError(err); }
+    if (outcome.state !== 'READY') addLog('Auto-fix did not produce a successful build.', 'error');
+    setProject(current);
+    updateActiveEntry({ project: current, fixAttempts: attempts });
+    return { outcome, commitSha };
+  };
+
+  const handleVerify = async () => {
+    if (!project) return;
+    setStep(Step.VERIFYING);
+    beginRun('Verify build', 'verify');
+    addLog('Verifying the build in the local sandbox...');
+    try {
+      const { verifyProject } = await import('./services/sandboxService');
+      const result = await verifyProject(project);
+      setVerification({ project, result });
+      result.diagnostics.forEach(d => addLog(`${d.line ? `Line ${d.line}: ` : ''}${d.message}`, d.severity === 'error' ? 'error' : 'warning', { filePath: d.path }));
+      addLog(result.ok ? 'Local build passed.' : 'Local build failed.', result.ok ? 'success' : 'error', { durationMs: result.durationMs });
+      endRun(result.ok);
+    } catch (err) { handleError(err); endRun(false); } finally { setStep(Step.REVIEW); }
   };
 
   const handleDeploy = async () => {
     if (!project || !config.githubUsername) return;
+    if (currentVerification && !currentVerification.ok && !window.confirm('The local build verification failed. Deploy anyway?')) return;
     setStep(Step.DEPLOYING);
+    beginRun(`Deploy to ${deployTarget.label}`, 'push');
     addLog('Initiating deployment sequence...', 'warning');
+    if (validationIssues.some(i => i.severity === 'error')) addLog('Deploying despite validation errors; the build may fail.', 'warning');
+    if (!currentVerification) addLog('Deploying without local build verification.', 'warning');
+    else if (!currentVerification.ok) addLog('Deploying despite a failed local build verification.', 'warning');
+    const unsetEnv = missingEnvVars(envReferences, projectEnv);
+    if (unsetEnv.length > 0) addLog(`No value for ${unsetEnv.map(r => r.key).join(', ')}; the deployed app may not work.`, 'warning');
+    if (deployableEnvVars(projectEnv).length > 0 && !deployTarget.pushesEnv) addLog(`${deployTarget.label} does not receive environment variables automatically; add them in its dashboard.`, 'warning');
+    const link = activeEntry?.deployment;
+    const asPullRequest = !!link && config.updateMode === 'pull-request';
     try {
-      const repoName = `${project.name}-${Math.floor(Math.random() * 1000)}`;
-      addLog(`1. Creating repository '${repoName}' on GitHub...`);
-      const repoData = await createRepository(config.githubToken, repoName, project.description);
-      addLog(`GitHub Repository created successfully.`, 'success');
+      const findings = scanForSecrets(project.files, projectEnv);
+      if (findings.length > 0) {
+        logSecretFindings(findings);
+        throw new Error(`Push blocked: ${findings.length} possible secret(s) in the project files. Move them to environment variables, or add "${ALLOW_MARKER}" to a line that is a false positive.`);
+      }
+      let repoData: any;
+      if (link) {
+        addLog(`1. Updating linked repository '${link.repoOwner}/${link.repoName}'...`);
+        try { repoData = await getRepository(config.githubToken, link.repoOwner, link.repoName); }
+        catch (e: any) { throw new Error(`Linked repository ${link.repoOwner}/${link.repoName} is not accessible (${e.message}). Unlink it to deploy to a new repository.`); }
+      } else {
+        const options = repoOptions;
+        const invalid = validateRepoName(options.name) || validateBranchName(options.defaultBranch);
+        if (invalid) throw new Error(`Check the repository settings: ${invalid}`);
+        const org = options.owner && options.owner !== config.githubUsername ? options.owner : undefined;
+        addLog(`1. Creating ${options.visibility} repository '${org || config.githubUsername}/${options.name}' on GitHub...`);
+        repoData = await createRepository(config.githubToken, options.name, project.description, {
+          org, private: options.visibility === 'private', license: options.license, gitignore: options.gitignore,
+        });
+        addLog(`GitHub Repository created successfully.`, 'success');
+        if (repoData.default_branch && repoData.default_branch !== options.defaultBranch) {
+          await renameBranch(config.githubToken, repoData.owner.login, repoData.name, repoData.default_branch, options.defaultBranch);
+          repoData = { ...repoData, default_branch: options.defaultBranch };
+          addLog(`Default branch set to ${options.defaultBranch}.`);
+        }
+        if (options.topics.length > 0) {
+          await setRepoTopics(config.githubToken, repoData.owner.login, repoData.name, options.topics)
+            .catch((e: Error) => addLog(`Could not set the repository topics (${e.message}).`, 'warning'));
+        }
+      }
+      const owner: string = repoData.owner?.login || link?.repoOwner || config.githubUsername;
+      const repoName: string = repoData.name;
+      let branch: string = link?.branch || repoData.default_branch || 'main';
+      const files = withTargetFiles(project, deployTarget, { owner, repoName, repoId: repoData.id, branch }, projectStack);
+      files.filter(f => !project.files.some(p => p.path === f.path)).forEach(f => addLog(`Adding ${f.path} for ${deployTarget.label}.`));
       addLog('2. Uploading source code...');
-      await pushFilesToRepo(config.githubToken, config.githubUsername, repoName, project.files, (msg) => addLog(msg));
-      addLog('Source code uploaded.', 'success');
-      let vUrl = null; let isBetaSuccess = false;
-      if (config.useBetaDeploy && config.vercelToken) {
-          addLog('3. [Beta] Creating Vercel Project automatically...', 'info');
+      const pushStartedAt = Date.now();
+      let commitSha = link?.lastCommitSha;
+      let deployBranch = branch;
+      let pullRequest: PullRequestLink | undefined;
+      if (link && asPullRequest) {
+        const message = commitMessage.trim() || `Update ${project.name}`;
+        deployBranch = pullRequestBranch(project.name);
+        await createBranch(config.githubToken, owner, repoName, deployBranch, branch);
+        addLog(`Created branch ${deployBranch} from ${branch}.`);
+        const commit = await commitSnapshotToRepo(config.githubToken, owner, repoName, deployBranch, files, message, (msg) => addLog(msg), link.keepPaths);
+        addLog(`Update committed to ${deployBranch} (${commit.sha.slice(0, 7)}).`, 'success', { durationMs: Date.now() - pushStartedAt });
+        const changed = await compareCommits(config.githubToken, owner, repoName, branch, deployBranch);
+        const turns = (activeEntry?.turns || []).filter(t => !link.lastDeployedAt || t.timestamp > link.lastDeployedAt);
+        const pr = await createPullRequest(config.githubToken, owner, repoName, {
+          title: message, head: deployBranch, base: branch, body: buildPullRequestBody(prompt, turns, changed, project.description),
+        });
+        pullRequest = { number: pr.number, url: pr.url, branch: deployBranch, openedAt: Date.now() };
+        addLog(`Opened pull request #${pr.number} (${changed.length} file(s) changed): ${pr.url}`, 'success');
+      } else if (config.pushMode === 'per-file') {
+        await pushFilesToRepo(config.githubToken, owner, repoName, files, (msg) => addLog(msg));
+        addLog('Source code uploaded.', 'success', { durationMs: Date.now() - pushStartedAt });
+      } else if (link) {
+        const commit = await commitSnapshotToRepo(config.githubToken, owner, repoName, branch, files, commitMessage.trim() || `Update ${project.name}`, (msg) => addLog(msg), link.keepPaths);
+        commitSha = commit.sha;
+        addLog(`Update committed to ${commit.branch} (${commit.sha.slice(0, 7)}).`, 'success', { durationMs: Date.now() - pushStartedAt });
+      } else {
+        const templateFiles = [repoOptions.license && 'LICENSE', repoOptions.gitignore && '.gitignore'].filter((p): p is string => !!p);
+        const commit = await commitFilesToRepo(config.githubToken, owner, repoName, files, (msg) => addLog(msg), undefined, templateFiles);
+        branch = commit.branch;
+        commitSha = commit.sha;
+        addLog(`Source code committed to ${commit.branch} (${commit.sha.slice(0, 7)}).`, 'success', { durationMs: Date.now() - pushStartedAt });
+      }
+      const repo: RepoRef = { owner, repoName, repoId: repoData.id, branch: deployBranch };
+      let result: DeploymentResult = { repoUrl: repoData.html_url, target: deployTarget.id, isBeta: false, targets: {}, pullRequest };
+      const targets = { ...link?.targets };
+      // Previews reuse the host project an earlier deploy created, so its production branch stays the base branch.
+      const previewable = !pullRequest || (!!deployTarget.previews && !!targets[deployTarget.id]);
+      if (config.useBetaDeploy && deployTarget.isConfigured(config) && previewable) {
+          setRunPhase('build');
+          const buildStartedAt = Date.now();
+          addLog(`3. [Beta] ${pullRequest ? `Building a preview of ${deployBranch} on` : 'Deploying to'} ${deployTarget.label}...`, 'info');
           try {
-             const vProject = await createVercelProject(config.vercelToken, repoName, `${config.githubUsername}/${repoName}`);
-             if (vProject) {
-                 vUrl = `https://vercel.com/${config.githubUsername}/${vProject.name}`; 
-                 addLog(`[Beta] Project created! Build triggered on Vercel.`, 'success');
-                 isBetaSuccess = true;
+             result = { ...result, isBeta: true };
+             let outcome = await runTargetDeploy(deployTarget, repo, targets[deployTarget.id], !!pullRequest);
+             targets[deployTarget.id] = outcome.siteId;
+             if (outcome.state !== 'READY' && config.autoFix?.enabled) {
+               const fixed = await runAutoFix(project, deployTarget, repo, outcome, !!pullRequest);
+               outcome = fixed.outcome;
+               if (!pullRequest) commitSha = fixed.commitSha || commitSha;
              }
+             const targetResult: TargetDeploymentResult = { state: outcome.state, siteId: outcome.siteId, inspectUrl: outcome.inspectUrl };
+             if (outcome.state === 'READY' && pullRequest) {
+               pullRequest.previewUrl = outcome.deployUrl;
+               addLog(`Preview ready at ${outcome.deployUrl}`, 'success', { phase: 'build', durationMs: Date.now() - buildStartedAt });
+               if (outcome.deployUrl) {
+                 await commentOnPullRequest(config.githubToken, owner, repoName, pullRequest.number, `Preview deployed on ${deployTarget.label}: ${outcome.deployUrl}`)
+                   .catch((e: Error) => addLog(`Could not comment the preview URL on the pull request (${e.message}).`, 'warning'));
+               }
+             } else if (outcome.state === 'READY') {
+               result.deployUrl = outcome.deployUrl;
+               addLog(`Live at ${result.deployUrl}`, 'success', { phase: 'build', durationMs: Date.now() - buildStartedAt });
+             } else {
+               targetResult.buildError = outcome.error || `Deployment finished in state ${outcome.state}.`;
+               targetResult.buildLog = outcome.logs.slice(-40).map(l => l.text);
+               addLog(`${deployTarget.label} build failed: ${targetResult.buildError}`, 'error', { phase: 'build', durationMs: Date.now() - buildStartedAt });
+             }
+             result.targets[deployTarget.id] = targetResult;
           } catch (e: any) { addLog(`[Beta] Auto-deploy failed (${e.message}). Falling back to manual mode.`, 'warning'); }
-      } else { addLog('3. Skipping auto-deploy (Beta disabled or no token).', 'info'); }
-      setDeploymentResult({ repoUrl: repoData.html_url, deployUrl: vUrl ? vUrl : undefined, isBeta: isBetaSuccess });
+      } else if (!previewable) {
+          addLog(`3. Skipping the preview: ${deployTarget.previews ? `deploy to ${deployTarget.label} once without a pull request to set up its project` : `${deployTarget.label} does not build previews of other branches`}. The pull request is open for review.`, 'info');
+      } else { addLog(`3. Skipping auto-deploy (Beta disabled or ${deployTarget.label} not configured).`, 'info'); }
+      // A pull request leaves the base branch and the production deploy untouched until it is merged.
+      const deployment: DeploymentLink = {
+        repoOwner: owner, repoName, repoUrl: repoData.html_url, repoId: repoData.id, branch, targets,
+        lastCommitSha: commitSha, deployUrl: result.deployUrl || link?.deployUrl, lastDeployedAt: Date.now(),
+        lastState: pullRequest ? link?.lastState : result.targets[deployTarget.id]?.state,
+        pullRequests: pullRequest ? [pullRequest, ...(link?.pullRequests || [])] : link?.pullRequests,
+      };
+      updateActiveEntry({ deployment });
+      setCommitMessage('');
+      setDeploymentResult(result);
       setStep(Step.SUCCESS);
-    } catch (err) { handleError(err); setStep(Step.REVIEW); }
+      endRun(!result.isBeta || result.targets[deployTarget.id]?.state === 'READY');
+    } catch (err) { handleError(err); endRun(false); setStep(Step.REVIEW); }
   };
 
+  const resultTarget = getDeployTarget(deploymentResult?.target);
+  const targetResult = deploymentResult?.targets[resultTarget.id];
+
   const ProgressStep = ({ s, label, current }: { s: Step, label: string, current: Step }) => {
-    const order = [Step.CONFIG, Step.PROMPT, Step.GENERATING, Step.REVIEW, Step.DEPLOYING, Step.SUCCESS];
+    const order = [Step.CONFIG, Step.PROMPT, Step.GENERATING, Step.REVIEW, Step.VERIFYING, Step.DEPLOYING, Step.SUCCESS];
     const idx = order.indexOf(s);
     const currentIdx = order.indexOf(current);
     let state: 'pending' | 'active' | 'completed' = 'pending';
@@ -198,36 +854,18 @@ const App: React.FC = () => {
   return (
     <div className="h-screen bg-black text-white font-sans flex flex-col md:flex-row overflow-hidden relative">
       {showHistory && (
-          <div className="absolute inset-0 z-50 bg-black/80 backdrop-blur-sm flex justify-start">
-             <div className="w-80 h-full bg-[#111] border-r border-deploy-border shadow-2xl animate-in slide-in-from-left duration-300 flex flex-col">
-                <div className="p-4 border-b border-deploy-border flex justify-between items-center bg-[#1a1a1a]">
-                    <h2 className="font-bold flex items-center gap-2"><History size={18}/> Project History</h2>
-                    <button onClick={() => setShowHistory(false)} className="text-gray-400 hover:text-white">✕</button>
-                </div>
-                {config.githubToken && (
-                    <div className="p-3 border-b border-deploy-border bg-[#0a0a0a]">
-                        <button onClick={() => syncHistory(config.githubToken)} disabled={isSyncing} className="w-full text-xs flex items-center justify-center gap-2 bg-[#222] hover:bg-[#333] py-2 rounded text-blue-400 border border-blue-900/30 transition-all">
-                            {isSyncing ? <Loader2 size={12} className="animate-spin"/> : <Cloud size={12}/>} {isSyncing ? "Syncing..." : "Sync Cloud History"}
-                        </button>
-                    </div>
-                )}
-                <div className="flex-1 overflow-y-auto p-4 space-y-3 custom-scrollbar">
-                    {savedProjects.length === 0 ? ( <p className="text-gray-500 text-sm text-center italic mt-10">No saved projects yet.</p> ) : (
-                        savedProjects.map(p => (
-                            <div key={p.id} onClick={() => loadProject(p)} className="bg-black/50 border border-deploy-border p-3 rounded-lg hover:border-blue-500 cursor-pointer group transition-all">
-                                <div className="flex justify-between items-start mb-1">
-                                    <h3 className="font-medium text-sm text-blue-300 truncate w-3/4">{p.project.name}</h3>
-                                    <button onClick={(e) => deleteProject(p.id, e)} className="text-gray-600 hover:text-red-500 p-1 opacity-0 group-hover:opacity-100 transition-opacity"><Trash2 size={12} /></button>
-                                </div>
-                                <p className="text-xs text-gray-500 mb-2 truncate">{p.project.description}</p>
-                                <p className="text-[10px] text-gray-600 flex items-center justify-between">{new Date(p.timestamp).toLocaleDateString()}</p>
-                            </div>
-                        ))
-                    )}
-                </div>
-             </div>
-             <div className="flex-1" onClick={() => setShowHistory(false)}></div>
-          </div>
+          <HistoryPanel
+              projects={savedProjects.filter(p => isVisible(p) && !isTemplateEntry(p))}
+              conflicts={syncState.conflicts}
+              isSyncing={isSyncing}
+              lastSyncedAt={syncState.lastSyncedAt}
+              onSync={config.githubToken ? () => syncHistory(config.githubToken, config.githubUsername) : undefined}
+              onLoad={loadProject}
+              onDelete={deleteProject}
+              onExport={handleExportZip}
+              onResolve={resolveConflict}
+              onClose={() => setShowHistory(false)}
+          />
       )}
       <div className="w-full md:w-1/2 flex flex-col border-r border-deploy-border bg-[#050505] relative z-10 h-full">
         <div className="p-6 md:p-10 flex-1 overflow-y-auto custom-scrollbar flex flex-col gap-8">
@@ -245,6 +883,16 @@ const App: React.FC = () => {
                 <button onClick={() => setShowAbout(!showAbout)} className={`text-xs bg-[#111] hover:bg-[#222] border border-deploy-border px-3 py-2 rounded-md flex items-center gap-2 transition-colors ${showAbout ? 'text-blue-400 border-blue-900/50' : ''}`}>
                     <Info size={14}/> About
                 </button>
+                {step !== Step.CONFIG && config.githubToken && (
+                    <button onClick={() => lockCredentials('Credentials locked.')} disabled={isBusy} title={vaultSession ? 'Lock credentials' : 'Sign out'} className="text-xs bg-[#111] hover:bg-[#222] border border-deploy-border px-3 py-2 rounded-md flex items-center gap-2 transition-colors disabled:opacity-50">
+                        <Lock size={14}/>
+                    </button>
+                )}
+                {step !== Step.CONFIG && config.githubToken && (
+                    <button onClick={signOut} disabled={isBusy} title={`Sign out ${config.githubUsername}`} className="text-xs bg-[#111] hover:bg-[#222] border border-deploy-border px-3 py-2 rounded-md flex items-center gap-2 transition-colors disabled:opacity-50">
+                        <LogOut size={14}/>
+                    </button>
+                )}
                 {step !== Step.CONFIG && (
                     <button onClick={() => setShowHistory(true)} className="text-xs bg-[#111] hover:bg-[#222] border border-deploy-border px-3 py-2 rounded-md flex items-center gap-2 transition-colors">
                         <History size={14}/> History
@@ -282,6 +930,7 @@ const App: React.FC = () => {
                                     <li>Paste your Google Gemini API Key as the value.</li>
                                     <li>Redeploy your app for changes to take effect.</li>
                                 </ol>
+                                <p className="mt-2 text-xs text-gray-400">Keys for the apps you generate go in the Environment Variables panel of the review step instead; they are set on Vercel when you deploy.</p>
                             </div>
                         </div>
                         <div className="mt-8 text-center">
@@ -291,7 +940,10 @@ const App: React.FC = () => {
                 </div>
             ) : (
                 <>
-                {step === Step.CONFIG && (
+                {step === Step.CONFIG && vaultLocked && (
+                    <VaultUnlock username={config.githubUsername} onUnlock={handleUnlock} onForget={forgetCredentials} />
+                )}
+                {step === Step.CONFIG && !vaultLocked && (
                 <form onSubmit={handleLogin} className="space-y-4 animate-in fade-in slide-in-from-left-4 duration-500 flex flex-col justify-center min-h-[50vh]">
                     <div className="bg-deploy-card p-8 rounded-xl border border-deploy-border shadow-2xl relative overflow-hidden">
                         <div className="absolute top-0 left-0 w-full h-1 bg-gradient-to-r from-blue-600 to-indigo-600"></div>
@@ -304,25 +956,68 @@ const App: React.FC = () => {
                                     <Lock size={16} className="absolute left-3 top-3.5 text-gray-500" />
                                 </div>
                                 <div className="mt-2 flex justify-between text-xs">
-                                    <span className="text-gray-500">Required for creating repositories.</span>
-                                    <a href="https://github.com/settings/tokens/new?scopes=repo,gist" target="_blank" rel="noreferrer" className="text-blue-400 hover:underline flex items-center gap-1">Get Token <ExternalLink size={10}/></a>
+                                    <span className="text-gray-500">Required for creating repositories, unless you sign in with a device code below.</span>
+                                    <a href="https://github.com/settings/tokens/new?scopes=repo,gist,workflow" target="_blank" rel="noreferrer" className="text-blue-400 hover:underline flex items-center gap-1">Get Token <ExternalLink size={10}/></a>
                                 </div>
                             </div>
-                            <div className="pt-4 border-t border-white/5">
-                                <label className="block text-sm font-medium text-gray-300 mb-1">Vercel Token (Optional)</label>
-                                <input type="password" placeholder="AbCdEfGxxxxxxxx" className="w-full bg-black border border-deploy-border rounded-lg p-3 text-sm focus:border-blue-500 focus:outline-none transition-colors" value={config.vercelToken} onChange={(e) => setConfig({ ...config, vercelToken: e.target.value })} />
-                                <a href="https://vercel.com/account/tokens" target="_blank" rel="noreferrer" className="text-xs text-blue-400 hover:underline mt-1 inline-block">Get Vercel Token</a>
+                            <div className="pt-4 border-t border-white/5 space-y-3">
+                                <div>
+                                    <label className="block text-sm font-medium text-gray-300 mb-1">Deploy Target</label>
+                                    <div className="grid grid-cols-2 gap-2">
+                                        {Object.values(DEPLOY_TARGETS).map(t => (
+                                            <button type="button" key={t.id} onClick={() => setConfig({ ...config, deployTarget: t.id })} className={`text-xs py-2 rounded-lg border transition-colors ${deployTarget.id === t.id ? 'bg-blue-900/30 border-blue-600 text-white' : 'bg-black border-deploy-border text-gray-400 hover:text-white'}`}>{t.label}</button>
+                                        ))}
+                                    </div>
+                                </div>
+                                {deployTarget.credentials.map(field => (
+                                    <div key={field.key}>
+                                        <label className="block text-sm font-medium text-gray-300 mb-1">{field.label} (Optional)</label>
+                                        <input type={field.secret ? 'password' : 'text'} placeholder={field.placeholder} className="w-full bg-black border border-deploy-border rounded-lg p-3 text-sm focus:border-blue-500 focus:outline-none transition-colors" value={config[field.key] || ''} onChange={(e) => setConfig({ ...config, [field.key]: e.target.value })} />
+                                        {field.helpUrl && <a href={field.helpUrl} target="_blank" rel="noreferrer" className="text-xs text-blue-400 hover:underline mt-1 inline-block">Get {field.label}</a>}
+                                    </div>
+                                ))}
+                                {deployTarget.credentials.length === 0 && <p className="text-xs text-gray-500">{deployTarget.label} uses your GitHub token (it needs the <code>workflow</code> scope).</p>}
                             </div>
-                            <div className={`mt-2 flex items-center gap-3 p-3 rounded-lg border transition-colors ${config.vercelToken ? 'bg-blue-900/10 border-blue-900/30' : 'bg-gray-900/30 border-gray-800 opacity-50'}`}>
-                                <input type="checkbox" id="betaDeploy" disabled={!config.vercelToken} checked={config.useBetaDeploy || false} onChange={(e) => setConfig({...config, useBetaDeploy: e.target.checked})} className="w-4 h-4 accent-blue-600 cursor-pointer" />
-                                <label htmlFor="betaDeploy" className={`text-xs flex-1 ${config.vercelToken ? 'cursor-pointer' : 'cursor-not-allowed'}`}>
-                                    <span className={`font-bold flex items-center gap-1 ${config.vercelToken ? 'text-blue-400' : 'text-gray-500'}`}>
-                                        <Zap size={12} className={config.vercelToken ? "fill-blue-500 text-blue-500" : "text-gray-500"}/> Enable Beta Auto-Deploy
+                            <div className={`mt-2 flex items-center gap-3 p-3 rounded-lg border transition-colors ${deployTarget.isConfigured(config) ? 'bg-blue-900/10 border-blue-900/30' : 'bg-gray-900/30 border-gray-800 opacity-50'}`}>
+                                <input type="checkbox" id="betaDeploy" disabled={!deployTarget.isConfigured(config)} checked={config.useBetaDeploy || false} onChange={(e) => setConfig({...config, useBetaDeploy: e.target.checked})} className="w-4 h-4 accent-blue-600 cursor-pointer" />
+                                <label htmlFor="betaDeploy" className={`text-xs flex-1 ${deployTarget.isConfigured(config) ? 'cursor-pointer' : 'cursor-not-allowed'}`}>
+                                    <span className={`font-bold flex items-center gap-1 ${deployTarget.isConfigured(config) ? 'text-blue-400' : 'text-gray-500'}`}>
+                                        <Zap size={12} className={deployTarget.isConfigured(config) ? "fill-blue-500 text-blue-500" : "text-gray-500"}/> Enable Beta Auto-Deploy
                                     </span>
-                                    <span className="block text-gray-500">I will create the Vercel project for you. (Requires Vercel Token)</span>
+                                    <span className="block text-gray-500">I will set up {deployTarget.label} for you.{deployTarget.credentials.length > 0 ? ` (Requires ${deployTarget.credentials.map(f => f.label).join(' and ')})` : ''}</span>
+                                </label>
+                            </div>
+                            <div className="flex items-center gap-3 p-3 rounded-lg border bg-gray-900/30 border-gray-800">
+                                <input type="checkbox" id="perFilePush" checked={config.pushMode === 'per-file'} onChange={(e) => setConfig({...config, pushMode: e.target.checked ? 'per-file' : 'atomic'})} className="w-4 h-4 accent-blue-600 cursor-pointer" />
+                                <label htmlFor="perFilePush" className="text-xs flex-1 cursor-pointer">
+                                    <span className="font-bold text-gray-300">Legacy per-file upload</span>
+                                    <span className="block text-gray-500">One commit per file. By default everything is pushed as a single "Initial commit".</span>
+                                </label>
+                            </div>
+                            <div className="pt-4 border-t border-white/5 space-y-2">
+                                {vaultSession ? (
+                                    <p className="text-xs text-green-500 flex items-center gap-1"><Lock size={12} /> Credentials are encrypted in this browser.</p>
+                                ) : (
+                                    <>
+                                        <label className="block text-sm font-medium text-gray-300 mb-1">Vault Passphrase</label>
+                                        <input type="password" placeholder="Encrypts your tokens on this device" className="w-full bg-black border border-deploy-border rounded-lg p-3 text-sm focus:border-blue-500 focus:outline-none transition-colors" value={passphrase} onChange={(e) => setPassphrase(e.target.value)} />
+                                        <span className="block text-xs text-gray-500">Leave empty to keep credentials for this session only.</span>
+                                    </>
+                                )}
+                                <label className="flex items-center justify-between text-xs text-gray-400">
+                                    Auto-lock after inactivity
+                                    <select value={autoLockMinutes} onChange={(e) => setConfig({ ...config, autoLockMinutes: Number(e.target.value) })} className="bg-black border border-deploy-border rounded p-1">
+                                        {[5, 15, 30, 60].map(m => <option key={m} value={m}>{m} min</option>)}
+                                        <option value={0}>Never</option>
+                                    </select>
                                 </label>
                             </div>
                             <button type="submit" className="w-full bg-white text-black font-bold py-3 rounded-lg flex items-center justify-center gap-2 transition-all hover:bg-gray-200 mt-4">Connect & Login <ArrowRight size={16} /></button>
+                            <div className="flex items-center gap-3 text-[10px] uppercase tracking-wider text-gray-600"><span className="flex-1 border-t border-white/5"></span> or, without a token <span className="flex-1 border-t border-white/5"></span></div>
+                            <DeviceLogin settings={config.oauth || DEFAULT_OAUTH_SETTINGS} onChangeSettings={(oauth) => setConfig({ ...config, oauth })} onToken={handleDeviceToken} />
+                            {(vaultSession || config.githubToken) && (
+                                <button type="button" onClick={forgetCredentials} className="w-full text-xs text-gray-500 hover:text-red-400 flex items-center justify-center gap-1"><Trash2 size={12} /> Forget all credentials</button>
+                            )}
                         </div>
                     </div>
                 </form>
@@ -336,25 +1031,57 @@ const App: React.FC = () => {
                     <div className="bg-deploy-card p-6 rounded-xl border border-deploy-border shadow-2xl relative">
                         <div className="flex justify-between items-center mb-4 flex-wrap gap-2">
                             <h2 className="text-lg font-semibold flex items-center gap-2"><LayoutTemplate size={18} /> {mode === 'generate' ? 'What should I build?' : 'Paste Source Code'}</h2>
-                            {mode === 'paste' && (
-                                <div className="flex gap-2">
-                                    <button onClick={handleLoadTestTemplate} className="text-[10px] bg-white/5 hover:bg-white/10 text-gray-300 border border-white/10 px-2 py-1 rounded flex items-center gap-1 transition-colors"><TestTube size={10} /> Load Test Code</button>
-                                    {config.githubUsername === 'Littlefish319' && (
-                                        <button onClick={handleLoadSelfSource} className="text-[10px] bg-blue-900/30 hover:bg-blue-900/50 text-blue-300 border border-blue-800 px-2 py-1 rounded flex items-center gap-1 transition-colors" title="Load the code of this AutoDeploy agent"><CloudLightning size={10} /> Load AutoDeploy Source</button>
-                                    )}
-                                </div>
-                            )}
+                            <div className="flex gap-2">
+                                <label title="Open a zipped project without an AI round-trip" className={`text-[10px] bg-white/5 hover:bg-white/10 text-gray-300 border border-white/10 px-2 py-1 rounded flex items-center gap-1 transition-colors ${step === Step.GENERATING ? 'opacity-50 pointer-events-none' : 'cursor-pointer'}`}>
+                                    <Upload size={10} /> Import ZIP
+                                    <input type="file" accept=".zip,application/zip" className="hidden" onChange={(e) => { const file = e.target.files?.[0]; e.target.value = ''; if (file) handleImportZip(file); }} />
+                                </label>
+                                <button onClick={() => setShowRepoImport(!showRepoImport)} disabled={step === Step.GENERATING || isImporting} title="Load an existing repository without an AI round-trip" className={`text-[10px] border px-2 py-1 rounded flex items-center gap-1 transition-colors disabled:opacity-50 ${showRepoImport ? 'bg-blue-900/30 text-blue-300 border-blue-800' : 'bg-white/5 hover:bg-white/10 text-gray-300 border-white/10'}`}>{isImporting ? <Loader2 size={10} className="animate-spin" /> : <Github size={10} />} From GitHub</button>
+                                <button onClick={() => setShowTemplates(!showTemplates)} disabled={step === Step.GENERATING} className={`text-[10px] border px-2 py-1 rounded flex items-center gap-1 transition-colors disabled:opacity-50 ${showTemplates ? 'bg-blue-900/30 text-blue-300 border-blue-800' : 'bg-white/5 hover:bg-white/10 text-gray-300 border-white/10'}`}><LayoutTemplate size={10} /> Templates</button>
+                            </div>
                         </div>
+                        {showRepoImport && (
+                            <RepoImport token={config.githubToken} disabled={step === Step.GENERATING || isImporting} onImport={handleImportRepo} />
+                        )}
+                        {showTemplates && (
+                            <TemplateGallery templates={[...personalTemplates(savedProjects), ...TEMPLATE_CATALOG]} disabled={step === Step.GENERATING} onUse={handleUseTemplate} onGenerateFrom={handleGenerateFromTemplate} onDelete={deleteProject} />
+                        )}
+                        {starterTemplate && mode === 'generate' && (
+                            <div className="mb-2 text-xs text-blue-300 flex items-center gap-2">
+                                <LayoutTemplate size={12} /> Starting from "{starterTemplate.name}"
+                                <button onClick={() => setStarterTemplate(null)} disabled={step === Step.GENERATING} className="text-gray-500 hover:text-white">✕</button>
+                            </div>
+                        )}
                         <div className="relative">
                             <textarea className="w-full bg-black border border-deploy-border rounded-md p-4 text-sm focus:border-blue-500 focus:outline-none min-h-[300px] resize-none font-mono leading-relaxed" placeholder={mode === 'generate' ? "Example: I want a portfolio website..." : "// Paste your file contents here..."} value={prompt} disabled={step === Step.GENERATING} onChange={(e) => setPrompt(e.target.value)} />
                         </div>
+                        {pastePlan && <PastePreview plan={pastePlan} />}
+                        <div className="mt-4 space-y-2">
+                            <StackSettings stack={stack} disabled={step === Step.GENERATING} onChange={updateStack} />
+                            <ModelSettings settings={llmSettings} disabled={step === Step.GENERATING} onChange={updateLlmSettings} />
+                        </div>
                         <button onClick={handleGenerate} disabled={step === Step.GENERATING || !prompt.trim()} className="w-full mt-4 bg-white text-black hover:bg-gray-200 font-bold py-3 rounded-md flex items-center justify-center gap-2 transition-all disabled:opacity-50 disabled:cursor-not-allowed">
-                            {step === Step.GENERATING ? <><Loader2 className="animate-spin" size={18} /> Processing...</> : <><Code size={18} /> {mode === 'generate' ? 'Generate App' : 'Process & Prepare Code'}</>}
+                            {step === Step.GENERATING ? <><Loader2 className="animate-spin" size={18} /> Processing...</> : <><Code size={18} /> {mode === 'generate' ? 'Generate App' : pastePlan?.project ? 'Prepare Code' : 'Process & Prepare Code'}</>}
                         </button>
+                        {step === Step.GENERATING && (
+                            <div className="mt-4 space-y-2">
+                                <button onClick={handleCancelGeneration} className="w-full bg-[#111] hover:bg-[#222] border border-red-900/50 text-red-400 text-sm py-2 rounded-md flex items-center justify-center gap-2 transition-colors"><Square size={14} /> Cancel{streamedFiles.length > 0 ? ` & keep ${streamedFiles.length} file(s)` : ''}</button>
+                                {streamedFiles.length > 0 && (
+                                    <div className="grid grid-cols-1 gap-1 max-h-[160px] overflow-y-auto pr-2 custom-scrollbar">
+                                        {streamedFiles.map(f => (
+                                            <div key={f.path} className="text-xs bg-black/50 border border-deploy-border p-2 rounded flex items-center justify-between text-gray-300">
+                                                <span className="flex items-center gap-2"><CheckCircle size={12} className="text-green-500"/> {f.path}</span>
+                                                <span className="text-[10px] text-gray-600">{formatBytes(fileByteSize(f))}</span>
+                                            </div>
+                                        ))}
+                                    </div>
+                                )}
+                            </div>
+                        )}
                     </div>
                 </div>
                 )}
-                {(step === Step.REVIEW || step === Step.DEPLOYING) && project && (
+                {(step === Step.REVIEW || step === Step.VERIFYING || step === Step.DEPLOYING) && project && (
                 <div className="space-y-4 animate-in fade-in slide-in-from-left-4 duration-500">
                     {step === Step.REVIEW && (
                         <button onClick={() => setStep(Step.PROMPT)} className="text-xs text-gray-400 hover:text-white flex items-center gap-1 mb-2 group"><ChevronLeft size={14} className="group-hover:-translate-x-1 transition-transform"/> Back to Editor</button>
@@ -364,23 +1091,93 @@ const App: React.FC = () => {
                             <h2 className="text-lg font-semibold flex items-center gap-2">{project.name}</h2>
                             <div className="flex gap-2">
                                 <button onClick={saveCurrentProject} title="Save to History" className="text-gray-400 hover:text-blue-400 transition-colors"><Save size={18} /></button>
+                                <button onClick={saveAsTemplate} title="Save as Template" className="text-gray-400 hover:text-blue-400 transition-colors"><BookmarkPlus size={18} /></button>
+                                <button onClick={() => handleExportZip({ prompt, project, timestamp: activeEntry?.timestamp ?? Date.now(), deployment: activeEntry?.deployment })} title="Download ZIP" className="text-gray-400 hover:text-blue-400 transition-colors"><Download size={18} /></button>
                                 <span className="text-xs bg-green-900/30 text-green-400 px-2 py-1 rounded border border-green-900/50">Ready</span>
                             </div>
                         </div>
                         <p className="text-gray-400 text-sm mb-6 bg-black/30 p-3 rounded border border-white/5">{project.description}</p>
-                        <div className="mb-6">
-                            <h3 className="text-xs uppercase tracking-wider text-gray-500 font-bold mb-3 flex items-center gap-2"><FileJson size={14} /> Project Structure</h3>
-                            <div className="grid grid-cols-1 gap-2 max-h-[200px] overflow-y-auto pr-2 custom-scrollbar">
-                            {project.files.map(f => (
-                                <div key={f.path} className="text-xs bg-black/50 border border-deploy-border p-2 rounded flex items-center justify-between text-gray-300 group hover:border-blue-500/50 transition-colors">
-                                    <span className="flex items-center gap-2"><Code size={12} className="text-blue-500"/> {f.path}</span>
-                                    <span className="text-[10px] text-gray-600 group-hover:text-gray-400">{(f.content.length / 1024).toFixed(1)} KB</span>
+                        {activeEntry?.turns && activeEntry.turns.length > 0 && (
+                            <div className="mb-6">
+                                <h3 className="text-xs uppercase tracking-wider text-gray-500 font-bold mb-3 flex items-center gap-2"><History size={14} /> Refinement History</h3>
+                                <div className="space-y-1 max-h-[160px] overflow-y-auto pr-2 custom-scrollbar">
+                                {activeEntry.turns.map((turn, i) => (
+                                    <div key={i} className={`text-xs p-2 rounded flex items-start justify-between gap-2 ${turn.role === 'user' ? 'bg-blue-900/10 text-blue-200' : 'bg-black/50 text-gray-400'}`}>
+                                        <span className="break-words">{turn.role === 'user' ? '> ' : ''}{turn.content}{turn.changes ? ` (${turn.changes.length} file${turn.changes.length === 1 ? '' : 's'})` : ''}</span>
+                                        {turn.role === 'model' && step === Step.REVIEW && (
+                                            <button onClick={() => handleRestoreTurn(i)} title="Restore to this point" className="text-gray-600 hover:text-blue-400 shrink-0"><RotateCcw size={12} /></button>
+                                        )}
+                                    </div>
+                                ))}
                                 </div>
-                            ))}
                             </div>
-                        </div>
-                        <button onClick={handleDeploy} disabled={step === Step.DEPLOYING} className="w-full bg-green-600 hover:bg-green-500 text-white font-bold py-3 rounded-md flex items-center justify-center gap-2 transition-all disabled:opacity-50">
-                            {step === Step.DEPLOYING ? <><Loader2 className="animate-spin" size={18} /> Deploying...</> : <><Play size={18} /> {config.useBetaDeploy ? 'Auto Launch (Beta)' : 'Upload & Launch'}</>}
+                        )}
+                        <ValidationPanel issues={validationIssues} isRepairing={isRepairing} onRepair={step === Step.REVIEW && !pendingPatch ? handleRepair : undefined} />
+                        <EnvPanel vars={projectEnv} references={envReferences} encrypted={!!vaultSession} targetLabel={deployTarget.label} pushesEnv={!!deployTarget.pushesEnv} disabled={step === Step.DEPLOYING || !activeProjectId} onChange={updateProjectEnv} />
+                        {step === Step.REVIEW && (
+                            <div className="mb-6 space-y-3">
+                                {pendingPatch ? (
+                                    <PatchReview project={project} patch={pendingPatch} onApply={handleApplyPatch} onDiscard={() => { setPendingPatch(null); addLog('Discarded proposed changes.', 'warning'); }} />
+                                ) : (
+                                    <div className="flex gap-2">
+                                        <input type="text" value={refineInput} disabled={isRefining} onChange={(e) => setRefineInput(e.target.value)} onKeyDown={(e) => { if (e.key === 'Enter') handleRefine(); }} placeholder="Refine: e.g. add a dark mode toggle" className="flex-1 bg-black border border-deploy-border rounded-md p-2 text-sm focus:border-blue-500 focus:outline-none" />
+                                        <button onClick={handleRefine} disabled={isRefining || !refineInput.trim()} className="bg-blue-600 hover:bg-blue-500 text-white text-sm font-bold px-4 rounded-md flex items-center gap-2 transition-all disabled:opacity-50">
+                                            {isRefining ? <Loader2 size={14} className="animate-spin" /> : <Sparkles size={14} />} Refine
+                                        </button>
+                                    </div>
+                                )}
+                            </div>
+                        )}
+                        <ProjectFiles files={project.files} readOnly={step !== Step.REVIEW || !!pendingPatch} onChange={handleFilesChange} />
+                        {config.useBetaDeploy && deployTarget.isConfigured(config) && (
+                            <div className="mb-3 flex items-center gap-3 text-xs text-gray-400">
+                                <label className="flex items-center gap-2 cursor-pointer flex-1">
+                                    <input type="checkbox" checked={config.autoFix?.enabled || false} disabled={step === Step.DEPLOYING} onChange={(e) => updateConfig({ ...config, autoFix: { maxAttempts: config.autoFix?.maxAttempts || 2, enabled: e.target.checked } })} className="w-3.5 h-3.5 accent-blue-600" />
+                                    <Wrench size={12} /> Auto-fix failed {deployTarget.label} builds
+                                </label>
+                                <label className="flex items-center gap-1">
+                                    Max attempts
+                                    <input type="number" min={1} max={5} value={config.autoFix?.maxAttempts || 2} disabled={step === Step.DEPLOYING || !config.autoFix?.enabled} onChange={(e) => updateConfig({ ...config, autoFix: { enabled: config.autoFix?.enabled || false, maxAttempts: Math.min(5, Math.max(1, Number(e.target.value) || 1)) } })} className="w-12 bg-black border border-deploy-border rounded p-1 text-center" />
+                                </label>
+                            </div>
+                        )}
+                        {activeEntry?.fixAttempts && activeEntry.fixAttempts.length > 0 && (
+                            <div className="mb-3 text-xs space-y-1">
+                                {activeEntry.fixAttempts.map((a, i) => (
+                                    <p key={i} className={a.state === 'READY' ? 'text-green-400' : 'text-gray-500'}>
+                                        <Wrench size={10} className="inline mr-1" /> {new Date(a.timestamp).toLocaleString()} · attempt {a.attempt} · {a.changes.length} file(s){a.commitSha ? ` · ${a.commitSha.slice(0, 7)}` : ''} · {a.state || 'pending'}
+                                    </p>
+                                ))}
+                            </div>
+                        )}
+                        {activeEntry?.deployment && (
+                            <div className="mb-3 border border-deploy-border rounded p-3 space-y-2 bg-black/30 text-xs">
+                                <div className="flex items-center justify-between gap-2">
+                                    <a href={activeEntry.deployment.repoUrl} target="_blank" rel="noreferrer" className="text-blue-400 hover:underline flex items-center gap-1 truncate"><Github size={12} /> {activeEntry.deployment.repoOwner}/{activeEntry.deployment.repoName}</a>
+                                    <button onClick={unlinkDeployment} disabled={step !== Step.REVIEW} className="text-gray-500 hover:text-red-400 disabled:opacity-50">Unlink</button>
+                                </div>
+                                <p className="text-gray-500">{config.updateMode === 'pull-request' ? `Deploys push to a new branch and open a pull request against ${activeEntry.deployment.branch}.` : `Deploys push an update commit to ${activeEntry.deployment.branch}${activeEntry.deployment.lastCommitSha ? ` (currently ${activeEntry.deployment.lastCommitSha.slice(0, 7)})` : ''}.`}</p>
+                                <label className="flex items-center gap-2 text-gray-400 cursor-pointer">
+                                    <input type="checkbox" checked={config.updateMode === 'pull-request'} disabled={step !== Step.REVIEW} onChange={(e) => updateConfig({ ...config, updateMode: e.target.checked ? 'pull-request' : 'push' })} className="accent-blue-600" />
+                                    Open a pull request instead of pushing to {activeEntry.deployment.branch}{deployTarget.previews ? ` (with a ${deployTarget.label} preview)` : ''}
+                                </label>
+                                {activeEntry.deployment.pullRequests?.[0] && (
+                                    <p className="text-gray-500 flex items-center gap-1 truncate"><GitPullRequest size={12} className="shrink-0" /> Last: <a href={activeEntry.deployment.pullRequests[0].url} target="_blank" rel="noreferrer" className="text-blue-400 hover:underline">#{activeEntry.deployment.pullRequests[0].number}</a>
+                                        {activeEntry.deployment.pullRequests[0].previewUrl && <> · <a href={activeEntry.deployment.pullRequests[0].previewUrl} target="_blank" rel="noreferrer" className="text-blue-400 hover:underline truncate">preview</a></>}
+                                    </p>
+                                )}
+                                {(config.pushMode !== 'per-file' || config.updateMode === 'pull-request') && (
+                                    <input type="text" value={commitMessage} disabled={step !== Step.REVIEW} onChange={(e) => setCommitMessage(e.target.value)} placeholder={`Commit message (default: Update ${project.name})`} className="w-full bg-black border border-deploy-border rounded-md p-2 text-sm focus:border-blue-500 focus:outline-none" />
+                                )}
+                            </div>
+                        )}
+                        {!activeEntry?.deployment && (
+                            <RepoSettings key={activeProjectId || ''} token={config.githubToken} username={config.githubUsername} options={repoOptions} disabled={step !== Step.REVIEW} onChange={updateRepoOptions}
+                                warning={deployTarget.id === 'github-pages' && repoOptions.visibility === 'private' ? 'GitHub Pages only serves private repositories on paid GitHub plans.' : undefined} />
+                        )}
+                        <SandboxPanel result={verification?.result || null} isStale={!!verification && verification.project !== project} isRunning={step === Step.VERIFYING} onVerify={handleVerify} />
+                        <button onClick={handleDeploy} disabled={step !== Step.REVIEW || !!pendingPatch} className={`w-full ${currentVerification && !currentVerification.ok ? 'bg-yellow-600 hover:bg-yellow-500' : 'bg-green-600 hover:bg-green-500'} text-white font-bold py-3 rounded-md flex items-center justify-center gap-2 transition-all disabled:opacity-50`}>
+                            {step === Step.DEPLOYING ? <><Loader2 className="animate-spin" size={18} /> Deploying...</> : currentVerification && !currentVerification.ok ? <><AlertTriangle size={18} /> Deploy Anyway (verification failed)</> : <><Play size={18} /> {activeEntry?.deployment ? (config.updateMode === 'pull-request' ? 'Open Pull Request' : 'Push Update & Redeploy') : config.useBetaDeploy ? 'Auto Launch (Beta)' : 'Upload & Launch'}</>}
                         </button>
                     </div>
                 </div>
@@ -390,11 +1187,24 @@ const App: React.FC = () => {
                     <div className="flex justify-end">
                         <button onClick={() => setStep(Step.PROMPT)} className="text-xs text-gray-400 hover:text-white flex items-center gap-1 mb-2 group"><ChevronLeft size={14} className="group-hover:-translate-x-1 transition-transform"/> Back to Editor</button>
                     </div>
-                    <div className="bg-green-950/30 border border-green-800 p-8 rounded-xl text-center shadow-2xl relative overflow-hidden">
-                        <div className="absolute top-0 left-0 w-full h-1 bg-gradient-to-r from-green-500 via-emerald-400 to-green-500"></div>
-                        <h2 className="text-2xl font-bold text-white mb-2">Code Uploaded to GitHub</h2>
-                        <p className="text-gray-300 mb-6 text-sm">{deploymentResult.isBeta ? "Build triggered on Vercel." : "The hard work is done! Import to Vercel now."}</p>
-                        {!deploymentResult.isBeta && (
+                    <div className={`${targetResult?.buildError ? 'bg-red-950/20 border-red-900' : 'bg-green-950/30 border-green-800'} border p-8 rounded-xl text-center shadow-2xl relative overflow-hidden`}>
+                        <div className={`absolute top-0 left-0 w-full h-1 bg-gradient-to-r ${targetResult?.buildError ? 'from-red-600 via-orange-500 to-red-600' : 'from-green-500 via-emerald-400 to-green-500'}`}></div>
+                        {deploymentResult.pullRequest ? (<>
+                        <h2 className="text-2xl font-bold text-white mb-2">{targetResult?.buildError ? 'Preview Build Failed' : `Pull Request #${deploymentResult.pullRequest.number} Opened`}</h2>
+                        <p className="text-gray-300 mb-6 text-sm">{deploymentResult.pullRequest.previewUrl ? `${resultTarget.label} built a preview of ${deploymentResult.pullRequest.branch}.` : targetResult?.buildError ? `The pull request is open, but the ${resultTarget.label} preview did not build.` : `The update is on ${deploymentResult.pullRequest.branch}. Merge the pull request to release it.`}</p>
+                        </>) : (<>
+                        <h2 className="text-2xl font-bold text-white mb-2">{targetResult?.state === 'READY' ? 'Your App Is Live' : targetResult?.buildError ? `${resultTarget.label} Build Failed` : 'Code Uploaded to GitHub'}</h2>
+                        <p className="text-gray-300 mb-6 text-sm">{targetResult?.state === 'READY' ? `${resultTarget.label} finished building your app.` : targetResult?.buildError ? `The code is on GitHub, but the ${resultTarget.label} build did not succeed.` : deploymentResult.isBeta ? `Build triggered on ${resultTarget.label}.` : `The hard work is done! Import to ${resultTarget.label} now.`}</p>
+                        </>)}
+                        {targetResult?.buildError && (
+                            <div className="bg-red-950/40 border border-red-900/50 rounded-lg p-4 text-left mb-6 space-y-2">
+                                <p className="text-sm text-red-300 font-bold">{targetResult.buildError}</p>
+                                {targetResult.buildLog && targetResult.buildLog.length > 0 && (
+                                    <pre className="text-[11px] font-mono text-red-200/80 bg-black/50 rounded p-2 max-h-[200px] overflow-auto custom-scrollbar whitespace-pre-wrap">{targetResult.buildLog.join('\n')}</pre>
+                                )}
+                            </div>
+                        )}
+                        {!deploymentResult.isBeta && !deploymentResult.pullRequest && (
                             <div className="bg-black/40 border border-white/10 rounded-lg p-4 text-left mb-6 font-mono text-xs text-gray-300 space-y-2">
                                 <div className="flex justify-between border-b border-white/10 pb-1 mb-2"><span className="font-bold text-blue-400">DEPLOYMENT SETTINGS</span></div>
                                 <div className="flex justify-between"><span>Framework Preset:</span><span className="text-white font-bold">Vite</span></div>
@@ -403,14 +1213,27 @@ const App: React.FC = () => {
                             </div>
                         )}
                         <div className="grid gap-3">
-                            <a href={deploymentResult.deployUrl || `https://vercel.com/new/import?s=${deploymentResult.repoUrl}`} target="_blank" rel="noopener noreferrer" className="bg-white hover:bg-gray-100 text-black py-4 px-4 rounded-lg flex items-center justify-center gap-2 transition-all font-bold shadow-lg shadow-white/10 animate-pulse">
-                            {deploymentResult.isBeta ? <><Zap size={18} className="fill-black"/> View Vercel Dashboard</> : <><div className="w-5 h-5 bg-black clip-path-triangle mr-1" style={{clipPath: 'polygon(50% 0%, 0% 100%, 100% 100%)'}}></div> Click Here to Deploy on Vercel</>}
+                            {deploymentResult.pullRequest ? (<>
+                            <a href={deploymentResult.pullRequest.url} target="_blank" rel="noopener noreferrer" className="bg-white hover:bg-gray-100 text-black py-4 px-4 rounded-lg flex items-center justify-center gap-2 transition-all font-bold shadow-lg shadow-white/10"><GitPullRequest size={18} /> Review Pull Request #{deploymentResult.pullRequest.number}</a>
+                            {deploymentResult.pullRequest.previewUrl && (
+                                <a href={deploymentResult.pullRequest.previewUrl} target="_blank" rel="noopener noreferrer" className="bg-[#111] hover:bg-[#222] text-white py-3 px-4 rounded-lg flex items-center justify-center gap-2 transition-colors font-medium border border-gray-700"><ExternalLink size={18} /> Open Preview</a>
+                            )}
+                            {targetResult?.inspectUrl && (
+                                <a href={targetResult.inspectUrl} target="_blank" rel="noopener noreferrer" className="bg-[#111] hover:bg-[#222] text-white py-3 px-4 rounded-lg flex items-center justify-center gap-2 transition-colors font-medium border border-gray-700"><Zap size={18} /> Inspect Preview Build</a>
+                            )}
+                            </>) : (<>
+                            <a href={deploymentResult.deployUrl || (deploymentResult.isBeta && targetResult?.inspectUrl) || resultTarget.manualUrl(deploymentResult.repoUrl)} target="_blank" rel="noopener noreferrer" className="bg-white hover:bg-gray-100 text-black py-4 px-4 rounded-lg flex items-center justify-center gap-2 transition-all font-bold shadow-lg shadow-white/10 animate-pulse">
+                            {deploymentResult.deployUrl ? <><ExternalLink size={18} /> Open Live App</> : deploymentResult.isBeta ? <><Zap size={18} className="fill-black"/> View Build on {resultTarget.label}</> : <><div className="w-5 h-5 bg-black clip-path-triangle mr-1" style={{clipPath: 'polygon(50% 0%, 0% 100%, 100% 100%)'}}></div> Click Here to Deploy on {resultTarget.label}</>}
                             </a>
+                            {deploymentResult.deployUrl && targetResult?.inspectUrl && (
+                                <a href={targetResult.inspectUrl} target="_blank" rel="noopener noreferrer" className="bg-[#111] hover:bg-[#222] text-white py-3 px-4 rounded-lg flex items-center justify-center gap-2 transition-colors font-medium border border-gray-700"><Zap size={18} /> Inspect Deployment</a>
+                            )}
+                            </>)}
                             <a href={deploymentResult.repoUrl} target="_blank" rel="noopener noreferrer" className="bg-[#24292e] hover:bg-[#2f363d] text-white py-3 px-4 rounded-lg flex items-center justify-center gap-2 transition-colors font-medium border border-gray-700"><Github size={18} /> View GitHub Repo</a>
                         </div>
                     </div>
                     <div className="flex gap-2">
-                        <button onClick={() => { setStep(Step.PROMPT); setProject(null); setLogs([]); setPrompt(''); }} className="flex-1 text-sm bg-[#111] hover:bg-[#222] border border-deploy-border text-white py-3 rounded-lg transition-colors">Create New App</button>
+                        <button onClick={() => { setStep(Step.PROMPT); setProject(null); setActiveProjectId(null); clearLogs(); setPrompt(''); }} className="flex-1 text-sm bg-[#111] hover:bg-[#222] border border-deploy-border text-white py-3 rounded-lg transition-colors">Create New App</button>
                     </div>
                 </div>
                 )}
@@ -428,6 +1251,7 @@ const App: React.FC = () => {
                 <ProgressStep s={Step.CONFIG} label="Authorization" current={step} />
                 <ProgressStep s={Step.PROMPT} label="Project Definition" current={step} />
                 <ProgressStep s={Step.GENERATING} label="Code Generation" current={step} />
+                <ProgressStep s={Step.VERIFYING} label="Local Verification" current={step} />
                 <ProgressStep s={Step.DEPLOYING} label="GitHub Sync" current={step} />
                 <ProgressStep s={Step.SUCCESS} label="Ready to Launch" current={step} />
              </div>
@@ -437,8 +1261,8 @@ const App: React.FC = () => {
                 <h2 className="text-gray-400 font-mono text-sm uppercase tracking-widest flex items-center gap-2"><TerminalIcon size={16} /> Console Output</h2>
                 <div className="flex gap-1"><div className="w-2 h-2 rounded-full bg-red-500"></div><div className="w-2 h-2 rounded-full bg-yellow-500"></div><div className="w-2 h-2 rounded-full bg-green-500"></div></div>
              </div>
-             <div className="flex-1 overflow-hidden relative"><Terminal logs={logs} /></div>
-             <div className="mt-2 text-[10px] text-gray-700 font-mono text-center flex justify-between px-2 shrink-0"><span>Model: Gemini 3 Pro</span><span>Latency: 24ms</span></div>
+             <div className="flex-1 overflow-hidden relative"><Terminal logs={logs} runs={runs} savedRuns={activeEntry?.runs} /></div>
+             <div className="mt-2 text-[10px] text-gray-700 font-mono text-center flex justify-between px-2 shrink-0"><span>Model: {PROVIDERS[llmSettings.provider].label} / {llmSettings.model}</span><span>Latency: 24ms</span></div>
          </div>
       </div>
     </div>
@@ -0,0 +1,64 @@
+import React, { useMemo, useRef } from 'react';
+import { tokenize, TokenType } from '../utils/highlight';
+
+interface CodeEditorProps {
+  path: string;
+  value: string;
+  onChange: (value: string) => void;
+  onSave?: () => void;
+  readOnly?: boolean;
+}
+
+const TOKEN_COLORS: Record<TokenType, string> = {
+  comment: 'text-gray-500 italic',
+  string: 'text-green-400',
+  keyword: 'text-purple-400',
+  number: 'text-orange-300',
+  tag: 'text-blue-400',
+  attr: 'text-sky-300',
+  punct: 'text-gray-400',
+  text: 'text-gray-200',
+};
+
+export const CodeEditor: React.FC<CodeEditorProps> = ({ path, value, onChange, onSave, readOnly }) => {
+  const highlightRef = useRef<HTMLPreElement>(null);
+  const gutterRef = useRef<HTMLDivElement>(null);
+  const tokens = useMemo(() => tokenize(value, path), [value, path]);
+  const lineCount = value.split('\n').length;
+
+  const syncScroll = (e: React.UIEvent<HTMLTextAreaElement>) => {
+    if (highlightRef.current) {
+      highlightRef.current.scrollTop = e.currentTarget.scrollTop;
+      highlightRef.current.scrollLeft = e.currentTarget.scrollLeft;
+    }
+    if (gutterRef.current) gutterRef.current.scrollTop = e.currentTarget.scrollTop;
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if ((e.metaKey || e.ctrlKey) && e.key === 's') {
+      e.preventDefault();
+      onSave?.();
+    } else if (e.key === 'Tab' && !readOnly) {
+      e.preventDefault();
+      const el = e.currentTarget;
+      const { selectionStart, selectionEnd } = el;
+      onChange(value.slice(0, selectionStart) + '  ' + value.slice(selectionEnd));
+      requestAnimationFrame(() => el.setSelectionRange(selectionStart + 2, selectionStart + 2));
+    }
+  };
+
+  return (
+    <div className="relative flex h-[360px] bg-black border border-deploy-border rounded font-mono text-xs leading-5">
+      <div ref={gutterRef} className="select-none overflow-hidden text-right text-gray-600 py-2 px-2 border-r border-deploy-border bg-[#0a0a0a]">
+        {Array.from({ length: lineCount }, (_, i) => <div key={i}>{i + 1}</div>)}
+      </div>
+      <div className="relative flex-1 min-w-0">
+        <pre ref={highlightRef} aria-hidden className="absolute inset-0 m-0 p-2 overflow-hidden whitespace-pre pointer-events-none">
+          {tokens.map((token, i) => <span key={i} className={TOKEN_COLORS[token.type]}>{token.text}</span>)}
+          {'\n'}
+        </pre>
+        <textarea value={value} readOnly={readOnly} spellCheck={false} wrap="off" onChange={(e) => onChange(e.target.value)} onScroll={syncScroll} onKeyDown={handleKeyDown} className="absolute inset-0 w-full h-full m-0 p-2 bg-transparent text-transparent caret-white resize-none whitespace-pre overflow-auto focus:outline-none custom-scrollbar" />
+      </div>
+    </div>
+  );
+};
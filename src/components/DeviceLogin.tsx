@@ -0,0 +1,86 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { GithubOAuthSettings } from '../types';
+import { DeviceCode, OAuthToken, pollForToken, requestDeviceCode } from '../services/githubAuthService';
+import { Check, ChevronDown, ChevronRight, Copy, ExternalLink, Loader2, Smartphone, Square } from 'lucide-react';
+
+interface DeviceLoginProps {
+  settings: GithubOAuthSettings;
+  onChangeSettings: (settings: GithubOAuthSettings) => void;
+  onToken: (token: OAuthToken) => Promise<void>;
+}
+
+export const DeviceLogin: React.FC<DeviceLoginProps> = ({ settings, onChangeSettings, onToken }) => {
+  const [device, setDevice] = useState<DeviceCode | null>(null);
+  const [isStarting, setIsStarting] = useState(false);
+  const [error, setError] = useState('');
+  const [copied, setCopied] = useState(false);
+  const [showAdvanced, setShowAdvanced] = useState(!settings.clientId);
+  const abortRef = useRef<AbortController | null>(null);
+  const onTokenRef = useRef(onToken);
+  onTokenRef.current = onToken;
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const start = async () => {
+    setError('');
+    setIsStarting(true);
+    const controller = new AbortController();
+    abortRef.current = controller;
+    try {
+      const code = await requestDeviceCode(settings);
+      setDevice(code);
+      setIsStarting(false);
+      const token = await pollForToken(settings, code, controller.signal);
+      await onTokenRef.current(token);
+    } catch (e) {
+      if (!controller.signal.aborted) setError(e instanceof Error ? e.message : 'Device sign-in failed.');
+    } finally {
+      setIsStarting(false);
+      setDevice(null);
+      abortRef.current = null;
+    }
+  };
+
+  const copyCode = () => {
+    if (!device) return;
+    navigator.clipboard?.writeText(device.userCode).then(() => { setCopied(true); setTimeout(() => setCopied(false), 1500); }).catch(() => {});
+  };
+
+  return (
+    <div className="space-y-2">
+      {device ? (
+        <div className="bg-blue-900/10 border border-blue-900/30 rounded-lg p-4 text-center space-y-3">
+          <p className="text-xs text-gray-400">Enter this code on GitHub to authorize AutoDeploy:</p>
+          <button type="button" onClick={copyCode} className="font-mono text-2xl tracking-[0.3em] text-white flex items-center gap-2 mx-auto">
+            {device.userCode} {copied ? <Check size={14} className="text-green-500" /> : <Copy size={14} className="text-gray-500" />}
+          </button>
+          <a href={device.verificationUri} target="_blank" rel="noreferrer" className="text-xs text-blue-400 hover:underline inline-flex items-center gap-1">{device.verificationUri} <ExternalLink size={10} /></a>
+          <div className="flex items-center justify-center gap-3 text-xs text-gray-500">
+            <Loader2 size={12} className="animate-spin" /> Waiting for approval...
+            <button type="button" onClick={() => abortRef.current?.abort()} className="text-gray-400 hover:text-white flex items-center gap-1"><Square size={10} /> Cancel</button>
+          </div>
+        </div>
+      ) : (
+        <button type="button" onClick={start} disabled={isStarting || !settings.clientId} className="w-full bg-[#24292e] hover:bg-[#2f363d] text-white font-bold py-3 rounded-lg flex items-center justify-center gap-2 transition-colors border border-gray-700 disabled:opacity-50">
+          {isStarting ? <Loader2 size={16} className="animate-spin" /> : <Smartphone size={16} />} Sign in with GitHub (device code)
+        </button>
+      )}
+      {error && <p className="text-xs text-red-400">{error}</p>}
+      <button type="button" onClick={() => setShowAdvanced(!showAdvanced)} className="text-[10px] text-gray-500 hover:text-white flex items-center gap-1">
+        {showAdvanced ? <ChevronDown size={10} /> : <ChevronRight size={10} />} OAuth app settings
+      </button>
+      {showAdvanced && (
+        <div className="grid grid-cols-2 gap-2 text-xs">
+          <label className="space-y-1">
+            <span className="block text-gray-500">Client ID</span>
+            <input type="text" value={settings.clientId} disabled={!!device} onChange={(e) => onChangeSettings({ ...settings, clientId: e.target.value.trim() })} placeholder="Iv1.xxxxxxxx" className="w-full bg-black border border-deploy-border rounded p-2 font-mono" />
+          </label>
+          <label className="space-y-1">
+            <span className="block text-gray-500">OAuth base URL</span>
+            <input type="text" value={settings.baseUrl || ''} disabled={!!device} onChange={(e) => onChangeSettings({ ...settings, baseUrl: e.target.value.trim() || undefined })} placeholder="https://github.com" className="w-full bg-black border border-deploy-border rounded p-2 font-mono" />
+          </label>
+        </div>
+      )}
+    </div>
+  );
+};
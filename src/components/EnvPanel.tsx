@@ -0,0 +1,81 @@
+import React, { useState } from 'react';
+import { EnvTarget, EnvVar } from '../types';
+import { ENV_KEY_PATTERN, EnvReference } from '../utils/envScan';
+import { AlertTriangle, Eye, EyeOff, KeyRound, Lock, Plus, Trash2 } from 'lucide-react';
+
+interface EnvPanelProps {
+  vars: EnvVar[];
+  references: EnvReference[];
+  // Whether values are persisted in the encrypted vault; otherwise they only last for this session.
+  encrypted: boolean;
+  targetLabel: string;
+  pushesEnv: boolean;
+  disabled?: boolean;
+  onChange: (vars: EnvVar[]) => void;
+}
+
+const TARGETS: { id: EnvTarget; label: string }[] = [
+  { id: 'production', label: 'Prod' },
+  { id: 'preview', label: 'Preview' },
+  { id: 'development', label: 'Dev' },
+];
+
+const DEFAULT_TARGETS: EnvTarget[] = ['production', 'preview'];
+
+export const EnvPanel: React.FC<EnvPanelProps> = ({ vars, references, encrypted, targetLabel, pushesEnv, disabled, onChange }) => {
+  const [reveal, setReveal] = useState(false);
+  const missing = references.filter(ref => !vars.some(v => v.key === ref.key));
+  const hidden = references.filter(ref => !ref.exposed);
+
+  const update = (index: number, patch: Partial<EnvVar>) => onChange(vars.map((v, i) => (i === index ? { ...v, ...patch } : v)));
+  const toggleTarget = (index: number, target: EnvTarget) => {
+    const targets = vars[index].targets;
+    update(index, { targets: targets.includes(target) ? targets.filter(t => t !== target) : [...targets, target] });
+  };
+  const add = (key = '') => onChange([...vars, { key, value: '', targets: DEFAULT_TARGETS }]);
+
+  return (
+    <div className="mb-6 border border-deploy-border rounded p-3 space-y-3 bg-black/30 text-xs">
+      <div className="flex items-center justify-between gap-2">
+        <h3 className="uppercase tracking-wider font-bold flex items-center gap-2 text-gray-300">
+          <KeyRound size={14} className="text-gray-500" /> Environment Variables {vars.length > 0 && <span className="text-gray-500 normal-case font-normal">({vars.length})</span>}
+        </h3>
+        <div className="flex items-center gap-2">
+          {vars.length > 0 && <button onClick={() => setReveal(!reveal)} className="text-gray-500 hover:text-white" title={reveal ? 'Hide values' : 'Show values'}>{reveal ? <EyeOff size={12} /> : <Eye size={12} />}</button>}
+          <button onClick={() => add()} disabled={disabled} className="text-[10px] bg-white/5 hover:bg-white/10 text-gray-300 border border-white/10 px-2 py-1 rounded flex items-center gap-1 transition-colors disabled:opacity-50"><Plus size={10} /> Add</button>
+        </div>
+      </div>
+      {missing.length > 0 && (
+        <div className="flex flex-wrap items-center gap-1">
+          <span className="text-gray-500">Used by the code:</span>
+          {missing.map(ref => (
+            <button key={ref.key} onClick={() => add(ref.key)} disabled={disabled} title={ref.paths.join('\n')} className="font-mono text-[10px] px-2 py-0.5 rounded-full border border-blue-800 text-blue-300 hover:bg-blue-900/30 flex items-center gap-1 disabled:opacity-50"><Plus size={8} /> {ref.key}</button>
+          ))}
+        </div>
+      )}
+      {vars.length > 0 && (
+        <div className="space-y-1">
+          {vars.map((v, i) => (
+            <div key={i} className="flex items-center gap-1">
+              <input value={v.key} disabled={disabled} placeholder="KEY" onChange={(e) => update(i, { key: e.target.value.trim() })} className={`w-2/5 bg-black border rounded p-1 font-mono focus:outline-none ${v.key && !ENV_KEY_PATTERN.test(v.key) ? 'border-red-700' : 'border-deploy-border focus:border-blue-500'}`} />
+              <input type={reveal ? 'text' : 'password'} value={v.value} disabled={disabled} placeholder="value" onChange={(e) => update(i, { value: e.target.value })} className="flex-1 min-w-0 bg-black border border-deploy-border rounded p-1 font-mono focus:border-blue-500 focus:outline-none" />
+              {TARGETS.map(t => (
+                <button key={t.id} onClick={() => toggleTarget(i, t.id)} disabled={disabled} className={`text-[10px] px-1.5 py-1 rounded border ${v.targets.includes(t.id) ? 'border-white/20 text-gray-200' : 'border-transparent text-gray-600'}`}>{t.label}</button>
+              ))}
+              <button onClick={() => onChange(vars.filter((_, j) => j !== i))} disabled={disabled} title="Remove" className="text-gray-600 hover:text-red-500 px-1"><Trash2 size={12} /></button>
+            </div>
+          ))}
+        </div>
+      )}
+      {hidden.length > 0 && (
+        <p className="text-yellow-400 flex gap-2"><AlertTriangle size={12} className="shrink-0 mt-0.5" />
+          {hidden.map(ref => ref.key).join(', ')} will be undefined in the browser: client code only sees VITE_-prefixed variables through import.meta.env.
+        </p>
+      )}
+      <p className="text-gray-500 flex items-center gap-1">
+        <Lock size={10} /> {encrypted ? 'Values are encrypted in your local vault and never synced.' : 'No vault passphrase set: values are kept for this session only.'}
+        {' '}{pushesEnv ? `They are set on the ${targetLabel} project when you deploy.` : `${targetLabel} does not receive them automatically; add them in its dashboard.`}
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,135 @@
+import React, { useDeferredValue, useMemo, useState } from 'react';
+import { HistoryConflict, SavedProject } from '../types';
+import { AlertTriangle, Cloud, Download, ExternalLink, FileCode, GitBranch, History, Loader2, Search, Trash2 } from 'lucide-react';
+import { DateRange, DeployStatus, deployStatusOf, searchHistory } from '../utils/historySearch';
+
+interface HistoryPanelProps {
+  projects: SavedProject[];
+  conflicts: HistoryConflict[];
+  isSyncing: boolean;
+  lastSyncedAt?: number;
+  onSync?: () => void;
+  onLoad: (entry: SavedProject) => void;
+  onDelete: (id: string) => void;
+  onExport: (entry: SavedProject) => void;
+  onResolve: (id: string, keep: 'local' | 'remote') => void;
+  onClose: () => void;
+}
+
+const RANGES: { id: DateRange; label: string }[] = [
+  { id: 'all', label: 'Any time' },
+  { id: 'day', label: 'Last 24 hours' },
+  { id: 'week', label: 'Last 7 days' },
+  { id: 'month', label: 'Last 30 days' },
+];
+
+const STATUSES: { id: DeployStatus | 'all'; label: string }[] = [
+  { id: 'all', label: 'Any status' },
+  { id: 'live', label: 'Live' },
+  { id: 'failed', label: 'Deploy failed' },
+  { id: 'pushed', label: 'Pushed only' },
+  { id: 'never', label: 'Not deployed' },
+];
+
+const STATUS_BADGE: Record<DeployStatus, string> = {
+  live: 'text-green-500',
+  failed: 'text-red-400',
+  pushed: 'text-gray-400',
+  never: 'text-gray-600',
+};
+
+const describe = (entry: SavedProject) => entry.deletedAt ? 'deleted' : `edited ${new Date(entry.updatedAt ?? entry.timestamp).toLocaleString()}`;
+
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({ projects, conflicts, isSyncing, lastSyncedAt, onSync, onLoad, onDelete, onExport, onResolve, onClose }) => {
+  const conflictById = new Map(conflicts.map(c => [c.id, c]));
+  // A conflict can involve an entry deleted on this device, which is otherwise hidden.
+  const conflictOnly = conflicts.filter(c => !projects.some(p => p.id === c.id)).map(c => c.local);
+  const [query, setQuery] = useState('');
+  const [range, setRange] = useState<DateRange>('all');
+  const [status, setStatus] = useState<DeployStatus | 'all'>('all');
+  const deferredQuery = useDeferredValue(query);
+  const isFiltered = deferredQuery.trim() !== '' || range !== 'all' || status !== 'all';
+  const matches = useMemo(() => searchHistory(projects, { query: deferredQuery, range, status }), [projects, deferredQuery, range, status]);
+  const selectClass = 'flex-1 min-w-0 bg-[#1a1a1a] border border-deploy-border rounded px-1 py-1 text-[10px] text-gray-300 focus:outline-none focus:border-blue-500';
+
+  return (
+    <div className="absolute inset-0 z-50 bg-black/80 backdrop-blur-sm flex justify-start">
+      <div className="w-80 h-full bg-[#111] border-r border-deploy-border shadow-2xl animate-in slide-in-from-left duration-300 flex flex-col">
+        <div className="p-4 border-b border-deploy-border flex justify-between items-center bg-[#1a1a1a]">
+          <h2 className="font-bold flex items-center gap-2"><History size={18}/> Project History</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-white">✕</button>
+        </div>
+        {onSync && (
+          <div className="p-3 border-b border-deploy-border bg-[#0a0a0a] space-y-2">
+            <button onClick={onSync} disabled={isSyncing} className="w-full text-xs flex items-center justify-center gap-2 bg-[#222] hover:bg-[#333] py-2 rounded text-blue-400 border border-blue-900/30 transition-all">
+              {isSyncing ? <Loader2 size={12} className="animate-spin"/> : <Cloud size={12}/>} {isSyncing ? "Syncing..." : "Sync Cloud History"}
+            </button>
+            <p className="text-[10px] text-center text-gray-600">
+              {conflicts.length > 0 ? <span className="text-yellow-500">{conflicts.length} conflict(s) need your decision</span> : lastSyncedAt ? `Last synced ${new Date(lastSyncedAt).toLocaleString()}` : 'Not synced yet'}
+            </p>
+          </div>
+        )}
+        <div className="p-3 border-b border-deploy-border space-y-2">
+          <div className="relative">
+            <Search size={12} className="absolute left-2 top-1/2 -translate-y-1/2 text-gray-600" />
+            <input value={query} onChange={(e) => setQuery(e.target.value)} placeholder="Search names, prompts and code..." className="w-full bg-[#1a1a1a] border border-deploy-border rounded pl-7 pr-2 py-1.5 text-xs text-gray-200 focus:outline-none focus:border-blue-500" />
+          </div>
+          <div className="flex gap-2">
+            <select value={range} onChange={(e) => setRange(e.target.value as DateRange)} className={selectClass}>
+              {RANGES.map(r => <option key={r.id} value={r.id}>{r.label}</option>)}
+            </select>
+            <select value={status} onChange={(e) => setStatus(e.target.value as DeployStatus | 'all')} className={selectClass}>
+              {STATUSES.map(s => <option key={s.id} value={s.id}>{s.label}</option>)}
+            </select>
+          </div>
+          {isFiltered && <p className="text-[10px] text-gray-600">{matches.length} of {projects.length} project(s) match</p>}
+        </div>
+        <div className="flex-1 overflow-y-auto p-4 space-y-3 custom-scrollbar">
+          {projects.length === 0 && conflictOnly.length === 0 ? ( <p className="text-gray-500 text-sm text-center italic mt-10">No saved projects yet.</p> ) : isFiltered && matches.length === 0 ? ( <p className="text-gray-500 text-sm text-center italic mt-10">No projects match.</p> ) : (
+            [...(isFiltered ? [] : conflictOnly.map(entry => ({ entry, files: [] as string[] }))), ...matches].map(({ entry: p, files }) => {
+              const conflict = conflictById.get(p.id);
+              const deployStatus = deployStatusOf(p);
+              return (
+                <div key={p.id} onClick={() => !p.deletedAt && onLoad(p)} className={`bg-black/50 border p-3 rounded-lg cursor-pointer group transition-all ${conflict ? 'border-yellow-700 hover:border-yellow-500' : 'border-deploy-border hover:border-blue-500'}`}>
+                  <div className="flex justify-between items-start mb-1">
+                    <h3 className={`font-medium text-sm truncate w-3/4 ${p.deletedAt ? 'text-gray-500 line-through' : 'text-blue-300'}`}>{p.project.name}</h3>
+                    {!p.deletedAt && (
+                      <div className="flex opacity-0 group-hover:opacity-100 transition-opacity">
+                        <button onClick={(e) => { e.stopPropagation(); onExport(p); }} title="Download ZIP" className="text-gray-600 hover:text-blue-400 p-1"><Download size={12} /></button>
+                        <button onClick={(e) => { e.stopPropagation(); onDelete(p.id); }} title="Delete" className="text-gray-600 hover:text-red-500 p-1"><Trash2 size={12} /></button>
+                      </div>
+                    )}
+                  </div>
+                  <p className="text-xs text-gray-500 mb-2 truncate">{p.project.description}</p>
+                  {files.length > 0 && (
+                    <p className="text-[10px] text-gray-500 mb-2 flex items-center gap-1 truncate"><FileCode size={10} className="shrink-0" /> {files.slice(0, 3).join(', ')}{files.length > 3 ? ` +${files.length - 3}` : ''}</p>
+                  )}
+                  {p.deployment && (
+                    <div className="text-[10px] text-gray-500 mb-2 space-y-0.5" onClick={(e) => e.stopPropagation()}>
+                      <a href={p.deployment.repoUrl} target="_blank" rel="noreferrer" className="flex items-center gap-1 text-gray-400 hover:text-white truncate"><GitBranch size={10} /> {p.deployment.repoOwner}/{p.deployment.repoName}{p.deployment.lastCommitSha ? ` @ ${p.deployment.lastCommitSha.slice(0, 7)}` : ''}</a>
+                      {p.deployment.deployUrl && <a href={p.deployment.deployUrl} target="_blank" rel="noreferrer" className="flex items-center gap-1 text-green-500 hover:underline truncate"><ExternalLink size={10} /> {p.deployment.deployUrl.replace(/^https?:\/\//, '')}</a>}
+                      {p.deployment.lastDeployedAt && <p>Last deployed {new Date(p.deployment.lastDeployedAt).toLocaleString()}</p>}
+                    </div>
+                  )}
+                  {conflict && (
+                    <div className="text-[10px] bg-yellow-950/30 border border-yellow-900/50 rounded p-2 mb-2 space-y-1" onClick={(e) => e.stopPropagation()}>
+                      <p className="text-yellow-400 flex items-center gap-1"><AlertTriangle size={10} /> Changed on this device and in the cloud</p>
+                      <p className="text-gray-500">This device: {describe(conflict.local)}</p>
+                      <p className="text-gray-500">Cloud: {describe(conflict.remote)}</p>
+                      <div className="flex gap-2 pt-1">
+                        <button onClick={() => onResolve(p.id, 'local')} className="flex-1 bg-white/5 hover:bg-white/10 border border-white/10 rounded py-1 text-gray-300">Keep this device</button>
+                        <button onClick={() => onResolve(p.id, 'remote')} className="flex-1 bg-white/5 hover:bg-white/10 border border-white/10 rounded py-1 text-gray-300">Keep cloud</button>
+                      </div>
+                    </div>
+                  )}
+                  <p className="text-[10px] text-gray-600 flex items-center justify-between">{new Date(p.timestamp).toLocaleDateString()} {!p.deletedAt && <span className={STATUS_BADGE[deployStatus]}>{STATUSES.find(s => s.id === deployStatus)?.label}</span>}</p>
+                </div>
+              );
+            })
+          )}
+        </div>
+      </div>
+      <div className="flex-1" onClick={onClose}></div>
+    </div>
+  );
+};
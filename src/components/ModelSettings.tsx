@@ -0,0 +1,59 @@
+import React, { useState } from 'react';
+import { LLMProviderId, LLMSettings } from '../types';
+import { PROVIDERS } from '../services/llm';
+import { Cpu, ChevronDown, ChevronRight } from 'lucide-react';
+
+interface ModelSettingsProps {
+  settings: LLMSettings;
+  disabled?: boolean;
+  onChange: (settings: LLMSettings) => void;
+}
+
+export const ModelSettings: React.FC<ModelSettingsProps> = ({ settings, disabled, onChange }) => {
+  const [open, setOpen] = useState(false);
+  const provider = PROVIDERS[settings.provider];
+
+  const selectProvider = (id: LLMProviderId) => {
+    const next = PROVIDERS[id];
+    onChange({ ...settings, provider: id, model: next.defaultModel, baseUrl: next.defaultBaseUrl, apiKey: id === settings.provider ? settings.apiKey : undefined });
+  };
+
+  return (
+    <div className="bg-black/40 border border-deploy-border rounded-lg text-xs">
+      <button onClick={() => setOpen(!open)} className="w-full flex items-center justify-between p-3 text-gray-400 hover:text-white">
+        <span className="flex items-center gap-2"><Cpu size={12} /> {provider.label} · <span className="font-mono">{settings.model}</span> · T={settings.temperature.toFixed(1)}</span>
+        {open ? <ChevronDown size={12} /> : <ChevronRight size={12} />}
+      </button>
+      {open && (
+        <div className="grid grid-cols-2 gap-3 p-3 border-t border-deploy-border">
+          <label className="space-y-1">
+            <span className="block text-gray-500">Provider</span>
+            <select value={settings.provider} disabled={disabled} onChange={(e) => selectProvider(e.target.value as LLMProviderId)} className="w-full bg-black border border-deploy-border rounded p-2 focus:border-blue-500 focus:outline-none">
+              {Object.values(PROVIDERS).map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+            </select>
+          </label>
+          <label className="space-y-1">
+            <span className="block text-gray-500">Model</span>
+            <input type="text" value={settings.model} disabled={disabled} onChange={(e) => onChange({ ...settings, model: e.target.value })} className="w-full bg-black border border-deploy-border rounded p-2 font-mono focus:border-blue-500 focus:outline-none" />
+          </label>
+          <label className="space-y-1 col-span-2">
+            <span className="block text-gray-500">Temperature: {settings.temperature.toFixed(1)}</span>
+            <input type="range" min={0} max={1} step={0.1} value={settings.temperature} disabled={disabled} onChange={(e) => onChange({ ...settings, temperature: Number(e.target.value) })} className="w-full accent-blue-600" />
+          </label>
+          {provider.defaultBaseUrl && (
+            <label className="space-y-1 col-span-2">
+              <span className="block text-gray-500">Base URL</span>
+              <input type="text" value={settings.baseUrl || ''} placeholder={provider.defaultBaseUrl} disabled={disabled} onChange={(e) => onChange({ ...settings, baseUrl: e.target.value })} className="w-full bg-black border border-deploy-border rounded p-2 font-mono focus:border-blue-500 focus:outline-none" />
+            </label>
+          )}
+          {settings.provider !== 'fake' && settings.provider !== 'ollama' && (
+            <label className="space-y-1 col-span-2">
+              <span className="block text-gray-500">API Key {settings.provider === 'gemini' && '(optional, defaults to the API_KEY build variable)'}</span>
+              <input type="password" value={settings.apiKey || ''} disabled={disabled} onChange={(e) => onChange({ ...settings, apiKey: e.target.value })} className="w-full bg-black border border-deploy-border rounded p-2 focus:border-blue-500 focus:outline-none" />
+            </label>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
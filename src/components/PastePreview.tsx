@@ -0,0 +1,49 @@
+import React from 'react';
+import { PastePlan } from '../services/pasteService';
+import { stackSummary } from '../services/stacks';
+import { AlertTriangle, CheckCircle, FileCode, LayoutTemplate, Sparkles } from 'lucide-react';
+
+interface PastePreviewProps {
+  plan: PastePlan;
+}
+
+const CONVENTION_LABELS = { comment: '// File:', fence: 'code block', header: '=== header ===' };
+
+const lineRange = (start: number, end: number) => (start === 0 ? 'empty' : start === end ? `line ${start}` : `lines ${start}–${end}`);
+
+export const PastePreview: React.FC<PastePreviewProps> = ({ plan }) => {
+  const { parsed, problems, scaffolded } = plan;
+  return (
+    <div className="mt-3 bg-black/40 border border-deploy-border rounded-lg p-3 text-xs space-y-2">
+      {problems.length === 0 ? (
+        <p className="text-green-400 flex items-center gap-2"><CheckCircle size={12} /> Split locally into {parsed.files.length} file(s){scaffolded.length > 0 ? `, plus ${scaffolded.length} from the ${stackSummary(plan.stack)} scaffold` : ''}. No model call needed.</p>
+      ) : (
+        <div className="text-yellow-400 space-y-1">
+          <p className="flex items-center gap-2"><Sparkles size={12} /> The structure is ambiguous, so the model will split it:</p>
+          {problems.map((p, i) => <p key={i} className="flex gap-2 pl-5"><AlertTriangle size={10} className="shrink-0 mt-0.5" /> {p}</p>)}
+        </div>
+      )}
+      {parsed.files.length > 0 && (
+        <div className="space-y-1">
+          {parsed.files.map((file, i) => (
+            <details key={i} className="group">
+              <summary className="cursor-pointer flex items-center gap-2 text-gray-300 hover:text-white">
+                <FileCode size={12} className="shrink-0 text-blue-400" />
+                <span className="font-mono truncate">{file.path}</span>
+                {file.originalPath && <span className="text-gray-600 font-mono truncate">(written as {file.originalPath})</span>}
+                <span className="ml-auto shrink-0 text-gray-500">{CONVENTION_LABELS[file.convention]} · {lineRange(file.startLine, file.endLine)}</span>
+              </summary>
+              <pre className="mt-1 max-h-48 overflow-auto custom-scrollbar bg-black/60 border border-white/5 rounded p-2 font-mono text-[11px] text-gray-400 whitespace-pre">{file.content || '(empty)'}</pre>
+            </details>
+          ))}
+        </div>
+      )}
+      {scaffolded.length > 0 && (
+        <p className="text-gray-500 flex gap-2"><LayoutTemplate size={12} className="shrink-0 mt-0.5" /> <span>From the scaffold: <span className="font-mono">{scaffolded.join(', ')}</span></span></p>
+      )}
+      {parsed.unassigned.filter(s => !s.isCode).length > 0 && (
+        <p className="text-gray-600">Ignored as prose: {parsed.unassigned.filter(s => !s.isCode).map(s => lineRange(s.startLine, s.endLine)).join(', ')}.</p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,75 @@
+import React, { useMemo, useState } from 'react';
+import { GeneratedProject, ProjectPatch } from '../types';
+import { diffLines, diffStats } from '../utils/diff';
+import { fileByteSize, formatBytes, isBinaryFile } from '../utils/assets';
+import { Check, ChevronDown, ChevronRight, FilePlus, FileMinus, FileDiff, X } from 'lucide-react';
+
+interface PatchReviewProps {
+  project: GeneratedProject;
+  patch: ProjectPatch;
+  onApply: (acceptedPaths: string[]) => void;
+  onDiscard: () => void;
+}
+
+export const PatchReview: React.FC<PatchReviewProps> = ({ project, patch, onApply, onDiscard }) => {
+  const [accepted, setAccepted] = useState<Set<string>>(() => new Set(patch.changes.map(c => c.path)));
+  const [expanded, setExpanded] = useState<string | null>(patch.changes[0]?.path ?? null);
+
+  const diffs = useMemo(() => patch.changes.map(change => {
+    const existing = project.files.find(f => f.path === change.path);
+    const before = existing && isBinaryFile(existing) ? `(binary file, ${formatBytes(fileByteSize(existing))})` : existing?.content ?? '';
+    const after = change.type === 'delete' ? '' : change.content ?? '';
+    const lines = diffLines(before, after);
+    return { change, lines, stats: diffStats(lines) };
+  }), [project, patch]);
+
+  const toggle = (path: string) => {
+    setAccepted(prev => {
+      const next = new Set(prev);
+      if (next.has(path)) next.delete(path); else next.add(path);
+      return next;
+    });
+  };
+
+  return (
+    <div className="bg-black/40 border border-blue-900/40 rounded-lg p-4 space-y-3">
+      <div className="flex items-start justify-between gap-2">
+        <div>
+          <h3 className="text-xs uppercase tracking-wider text-blue-400 font-bold">Proposed Changes</h3>
+          <p className="text-xs text-gray-400 mt-1">{patch.summary || 'No summary provided.'}</p>
+        </div>
+        <span className="text-[10px] text-gray-500 shrink-0">{accepted.size}/{patch.changes.length} accepted</span>
+      </div>
+      {patch.changes.length === 0 && <p className="text-xs text-gray-500 italic">The model did not propose any file changes.</p>}
+      <div className="space-y-2 max-h-[360px] overflow-y-auto pr-1 custom-scrollbar">
+        {diffs.map(({ change, lines, stats }) => (
+          <div key={change.path} className={`border rounded ${accepted.has(change.path) ? 'border-deploy-border' : 'border-red-900/40 opacity-60'}`}>
+            <div className="flex items-center gap-2 p-2 text-xs">
+              <input type="checkbox" checked={accepted.has(change.path)} onChange={() => toggle(change.path)} className="w-3.5 h-3.5 accent-blue-600 cursor-pointer" />
+              <button onClick={() => setExpanded(expanded === change.path ? null : change.path)} className="flex-1 flex items-center gap-2 text-left text-gray-300 hover:text-white">
+                {expanded === change.path ? <ChevronDown size={12} /> : <ChevronRight size={12} />}
+                {change.type === 'add' ? <FilePlus size={12} className="text-green-500" /> : change.type === 'delete' ? <FileMinus size={12} className="text-red-500" /> : <FileDiff size={12} className="text-yellow-500" />}
+                <span className="truncate">{change.path}</span>
+              </button>
+              <span className="text-[10px] font-mono text-green-500">+{stats.added}</span>
+              <span className="text-[10px] font-mono text-red-500">-{stats.removed}</span>
+            </div>
+            {expanded === change.path && (
+              <pre className="text-[11px] font-mono bg-black/60 border-t border-deploy-border max-h-[240px] overflow-auto custom-scrollbar">
+                {lines.map((line, i) => (
+                  <div key={i} className={line.type === 'add' ? 'bg-green-900/30 text-green-300' : line.type === 'remove' ? 'bg-red-900/30 text-red-300' : 'text-gray-500'}>
+                    {line.type === 'add' ? '+ ' : line.type === 'remove' ? '- ' : '  '}{line.text}
+                  </div>
+                ))}
+              </pre>
+            )}
+          </div>
+        ))}
+      </div>
+      <div className="flex gap-2">
+        <button onClick={() => onApply([...accepted])} disabled={accepted.size === 0} className="flex-1 bg-blue-600 hover:bg-blue-500 text-white text-sm font-bold py-2 rounded-md flex items-center justify-center gap-2 transition-all disabled:opacity-50"><Check size={14} /> Apply Selected</button>
+        <button onClick={onDiscard} className="flex-1 bg-[#111] hover:bg-[#222] border border-deploy-border text-gray-300 text-sm py-2 rounded-md flex items-center justify-center gap-2 transition-colors"><X size={14} /> Discard</button>
+      </div>
+    </div>
+  );
+};
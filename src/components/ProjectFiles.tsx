@@ -0,0 +1,156 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { FileNode } from '../types';
+import { CodeEditor } from './CodeEditor';
+import { assetUrl, fileByteSize, fileNodeFromBytes, formatBytes, isBinaryFile, isImagePath, MAX_ASSET_BYTES, MAX_PROJECT_ASSET_BYTES, projectByteSize, toDataUrl } from '../utils/assets';
+import { Code, FileJson, FileImage, FilePlus, Pencil, Trash2, Save, Upload, X } from 'lucide-react';
+
+interface ProjectFilesProps {
+  files: FileNode[];
+  readOnly?: boolean;
+  onChange: (files: FileNode[], message: string) => void;
+}
+
+export const validateFilePath = (path: string, files: FileNode[], current?: string): string | null => {
+  const trimmed = path.trim();
+  if (!trimmed) return 'File path cannot be empty.';
+  if (trimmed.startsWith('/') || trimmed.split('/').some(part => part === '..' || part === '.' || part === '')) return 'Use a relative path like "src/components/Button.tsx".';
+  if (trimmed !== current && files.some(f => f.path === trimmed)) return `"${trimmed}" already exists.`;
+  return null;
+};
+
+// Uploads land in public/, which Vite serves from the site root and copies to the build as is.
+const uploadPath = (name: string) => `public/${name.trim().replace(/[^\w.-]+/g, '-').replace(/^-+/, '') || 'asset'}`;
+
+export const ProjectFiles: React.FC<ProjectFilesProps> = ({ files, readOnly, onChange }) => {
+  const [openPath, setOpenPath] = useState<string | null>(null);
+  const [draft, setDraft] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const uploadInputRef = useRef<HTMLInputElement>(null);
+
+  const openFile = files.find(f => f.path === openPath) || null;
+  const isDirty = !!openFile && draft !== openFile.content;
+
+  useEffect(() => {
+    if (openPath && !openFile) setOpenPath(null);
+    else if (openFile) setDraft(openFile.content);
+  }, [openPath, openFile?.content]);
+
+  const selectFile = (file: FileNode) => {
+    if (isDirty && !window.confirm(`Discard unsaved changes to ${openPath}?`)) return;
+    setOpenPath(file.path); setDraft(file.content); setError(null);
+  };
+
+  const saveDraft = () => {
+    if (!openFile || !isDirty) return;
+    onChange(files.map(f => f.path === openFile.path ? { ...f, content: draft } : f), `Edited ${openFile.path}.`);
+  };
+
+  const addFile = () => {
+    const path = window.prompt('New file path', 'src/components/NewComponent.tsx');
+    if (path === null) return;
+    const problem = validateFilePath(path, files);
+    if (problem) { setError(problem); return; }
+    const file = { path: path.trim(), content: '' };
+    onChange([...files, file], `Added ${file.path}.`);
+    setOpenPath(file.path); setDraft(''); setError(null);
+  };
+
+  const renameFile = (file: FileNode) => {
+    const path = window.prompt('Rename file', file.path);
+    if (path === null || path.trim() === file.path) return;
+    const problem = validateFilePath(path, files, file.path);
+    if (problem) { setError(problem); return; }
+    onChange(files.map(f => f.path === file.path ? { ...f, path: path.trim() } : f), `Renamed ${file.path} to ${path.trim()}.`);
+    if (openPath === file.path) setOpenPath(path.trim());
+    setError(null);
+  };
+
+  const uploadAssets = async (list: FileList) => {
+    const problems: string[] = [];
+    let updated = [...files];
+    for (const upload of Array.from(list)) {
+      if (upload.size > MAX_ASSET_BYTES) { problems.push(`${upload.name} is larger than ${formatBytes(MAX_ASSET_BYTES)}.`); continue; }
+      const file = fileNodeFromBytes(uploadPath(upload.name), new Uint8Array(await upload.arrayBuffer()));
+      const others = updated.filter(f => f.path !== file.path);
+      if (projectByteSize([...others.filter(isBinaryFile), file]) > MAX_PROJECT_ASSET_BYTES) {
+        problems.push(`${upload.name} would take the project's assets over ${formatBytes(MAX_PROJECT_ASSET_BYTES)}.`);
+        continue;
+      }
+      updated = [...others, file];
+    }
+    const added = updated.filter(f => !files.includes(f));
+    if (added.length > 0) {
+      onChange(updated.sort((a, b) => a.path.localeCompare(b.path)), `Uploaded ${added.map(f => `${f.path} (${formatBytes(fileByteSize(f))})`).join(', ')}.`);
+      setOpenPath(added[0].path);
+    }
+    setError(problems.length > 0 ? problems.join(' ') : null);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault(); setIsDragging(false);
+    if (!readOnly && e.dataTransfer.files.length > 0) uploadAssets(e.dataTransfer.files);
+  };
+
+  const deleteFile = (file: FileNode) => {
+    if (!window.confirm(`Delete ${file.path}?`)) return;
+    onChange(files.filter(f => f.path !== file.path), `Deleted ${file.path}.`);
+  };
+
+  return (
+    <div className="mb-6">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-xs uppercase tracking-wider text-gray-500 font-bold flex items-center gap-2"><FileJson size={14} /> Project Structure <span className="normal-case font-normal text-gray-600">{formatBytes(projectByteSize(files))}</span></h3>
+        {!readOnly && (
+            <span className="flex items-center gap-2">
+                <button onClick={() => uploadInputRef.current?.click()} title="Images, fonts and other assets go to public/" className="text-[10px] bg-white/5 hover:bg-white/10 text-gray-300 border border-white/10 px-2 py-1 rounded flex items-center gap-1 transition-colors"><Upload size={10} /> Upload Asset</button>
+                <button onClick={addFile} className="text-[10px] bg-white/5 hover:bg-white/10 text-gray-300 border border-white/10 px-2 py-1 rounded flex items-center gap-1 transition-colors"><FilePlus size={10} /> New File</button>
+                <input ref={uploadInputRef} type="file" multiple className="hidden" onChange={(e) => { if (e.target.files) uploadAssets(e.target.files); e.target.value = ''; }} />
+            </span>
+        )}
+      </div>
+      {error && <p className="text-xs text-red-400 mb-2">{error}</p>}
+      <div
+        onDragOver={(e) => { if (!readOnly) { e.preventDefault(); setIsDragging(true); } }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+        className={`grid grid-cols-1 gap-2 max-h-[200px] overflow-y-auto pr-2 custom-scrollbar rounded transition-colors ${isDragging ? 'outline-dashed outline-1 outline-blue-500 bg-blue-500/5' : ''}`}
+      >
+      {files.map(f => (
+          <div key={f.path} onClick={() => selectFile(f)} className={`text-xs bg-black/50 border p-2 rounded flex items-center justify-between text-gray-300 group cursor-pointer hover:border-blue-500/50 transition-colors ${openPath === f.path ? 'border-blue-500' : 'border-deploy-border'}`}>
+              <span className="flex items-center gap-2 truncate">{isBinaryFile(f) ? <FileImage size={12} className="text-purple-400 shrink-0"/> : <Code size={12} className="text-blue-500 shrink-0"/>} {f.path}</span>
+              <span className="flex items-center gap-2 shrink-0">
+                  {!readOnly && (
+                      <span className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                          <button onClick={(e) => { e.stopPropagation(); renameFile(f); }} title="Rename" className="text-gray-500 hover:text-blue-400 p-0.5"><Pencil size={11} /></button>
+                          <button onClick={(e) => { e.stopPropagation(); deleteFile(f); }} title="Delete" className="text-gray-500 hover:text-red-500 p-0.5"><Trash2 size={11} /></button>
+                      </span>
+                  )}
+                  <span className="text-[10px] text-gray-600 group-hover:text-gray-400">{formatBytes(fileByteSize(f))}</span>
+              </span>
+          </div>
+      ))}
+      </div>
+      {!readOnly && <p className="text-[10px] text-gray-600 mt-2">Drop images, fonts or a favicon on the list to add them to public/; code refers to public/logo.png as "/logo.png".</p>}
+      {openFile && (
+          <div className="mt-3 space-y-2">
+              <div className="flex items-center justify-between text-xs">
+                  <span className="font-mono text-gray-300 truncate">{openFile.path}{isDirty && <span className="text-yellow-500"> ●</span>}</span>
+                  <span className="flex items-center gap-2 shrink-0">
+                      {!readOnly && !isBinaryFile(openFile) && <button onClick={saveDraft} disabled={!isDirty} className="text-[10px] bg-blue-600 hover:bg-blue-500 text-white px-2 py-1 rounded flex items-center gap-1 disabled:opacity-40"><Save size={10} /> Save</button>}
+                      <button onClick={() => { if (!isDirty || window.confirm('Discard unsaved changes?')) setOpenPath(null); }} className="text-gray-500 hover:text-white"><X size={14} /></button>
+                  </span>
+              </div>
+              {isBinaryFile(openFile) ? (
+                  <div className="bg-black/50 border border-deploy-border rounded p-3 text-xs text-gray-400 space-y-2">
+                      {isImagePath(openFile.path) && <img src={toDataUrl(openFile)} alt={openFile.path} className="max-h-48 max-w-full object-contain bg-[repeating-conic-gradient(#222_0%_25%,#111_0%_50%)] bg-[length:16px_16px]" />}
+                      <p>Binary file, {formatBytes(fileByteSize(openFile))}. Reference it as <span className="font-mono text-gray-300">"{assetUrl(openFile.path)}"</span>.</p>
+                  </div>
+              ) : (
+                  <CodeEditor path={openFile.path} value={draft} readOnly={readOnly} onChange={setDraft} onSave={saveDraft} />
+              )}
+          </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,67 @@
+import React, { useEffect, useState } from 'react';
+import { GithubRepoSummary, listBranches, listUserRepos } from '../services/githubService';
+import { Download, Loader2, Lock } from 'lucide-react';
+
+interface RepoImportProps {
+  token: string;
+  disabled?: boolean;
+  onImport: (repo: GithubRepoSummary, branch: string) => void;
+}
+
+const inputClass = 'w-full bg-black border border-deploy-border rounded p-2 focus:border-blue-500 focus:outline-none disabled:opacity-50';
+
+export const RepoImport: React.FC<RepoImportProps> = ({ token, disabled, onImport }) => {
+  const [repos, setRepos] = useState<GithubRepoSummary[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [filter, setFilter] = useState('');
+  const [selected, setSelected] = useState<GithubRepoSummary | null>(null);
+  const [branches, setBranches] = useState<string[]>([]);
+  const [branch, setBranch] = useState('');
+
+  useEffect(() => {
+    if (!token) return;
+    listUserRepos(token).then(setRepos).catch((e: Error) => { setRepos([]); setError(e.message); });
+  }, [token]);
+
+  useEffect(() => {
+    if (!selected) return;
+    setBranch(selected.defaultBranch);
+    setBranches([selected.defaultBranch]);
+    listBranches(token, selected.owner, selected.name).then(setBranches).catch(() => {});
+  }, [token, selected]);
+
+  const query = filter.trim().toLowerCase();
+  const visible = (repos || []).filter(r => !query || `${r.owner}/${r.name}`.toLowerCase().includes(query));
+
+  return (
+    <div className="mb-4 bg-black/40 border border-deploy-border rounded-lg p-3 text-xs space-y-2">
+      <p className="text-gray-500">Load the files of one of your repositories. Images and fonts up to 1 MB are kept; other binaries, dependency folders and text files over 512 KB are skipped.</p>
+      {error && <p className="text-red-400">{error}</p>}
+      {repos === null ? (
+        <p className="text-gray-500 flex items-center gap-1"><Loader2 size={10} className="animate-spin" /> Loading repositories...</p>
+      ) : (
+        <>
+          <input type="text" value={filter} disabled={disabled} placeholder="Filter repositories" onChange={(e) => setFilter(e.target.value)} className={inputClass} />
+          <div className="max-h-40 overflow-y-auto custom-scrollbar border border-deploy-border rounded divide-y divide-white/5">
+            {visible.length === 0 && <p className="p-2 text-gray-500">No repositories match.</p>}
+            {visible.map(r => (
+              <button key={r.id} onClick={() => setSelected(r)} disabled={disabled} className={`w-full text-left px-2 py-1.5 font-mono flex items-center gap-2 ${selected?.id === r.id ? 'bg-blue-900/30 text-blue-300' : 'text-gray-300 hover:bg-white/5'}`}>
+                <span className="truncate flex-1">{r.owner}/{r.name}</span>
+                {r.private && <Lock size={10} className="shrink-0 text-gray-500" />}
+              </button>
+            ))}
+          </div>
+        </>
+      )}
+      {selected && (
+        <div className="flex items-center gap-2">
+          <select value={branch} disabled={disabled} onChange={(e) => setBranch(e.target.value)} className={`${inputClass} font-mono`}>
+            {branches.map(b => <option key={b} value={b}>{b}</option>)}
+          </select>
+          <button onClick={() => onImport(selected, branch)} disabled={disabled || !branch} className="shrink-0 bg-blue-600 hover:bg-blue-500 text-white font-bold px-3 py-2 rounded flex items-center gap-1 disabled:opacity-50"><Download size={12} /> Import</button>
+        </div>
+      )}
+      {selected && !selected.canPush && <p className="text-gray-500">You cannot push to {selected.owner}/{selected.name}; deploying will create a new repository.</p>}
+    </div>
+  );
+};
@@ -0,0 +1,120 @@
+import React, { useEffect, useState } from 'react';
+import { RepoOptions } from '../types';
+import { isRepoNameAvailable, listGitignoreTemplates, listLicenseTemplates, listUserOrgs } from '../services/githubService';
+import { parseTopics, validateBranchName, validateRepoName } from '../utils/repoName';
+import { AlertTriangle, Check, ChevronDown, ChevronRight, FolderGit2, Loader2, X } from 'lucide-react';
+
+interface RepoSettingsProps {
+  token: string;
+  username: string;
+  options: RepoOptions;
+  disabled?: boolean;
+  // Shown under the fields, e.g. when the deploy target cannot serve private repositories.
+  warning?: string;
+  onChange: (options: RepoOptions) => void;
+}
+
+type Availability = 'checking' | 'available' | 'taken' | 'unknown';
+
+const inputClass = 'w-full bg-black border border-deploy-border rounded p-2 focus:border-blue-500 focus:outline-none disabled:opacity-50';
+
+export const RepoSettings: React.FC<RepoSettingsProps> = ({ token, username, options, disabled, warning, onChange }) => {
+  const [open, setOpen] = useState(false);
+  const [orgs, setOrgs] = useState<string[]>([]);
+  const [licenses, setLicenses] = useState<{ key: string; name: string }[]>([]);
+  const [gitignores, setGitignores] = useState<string[]>([]);
+  const [availability, setAvailability] = useState<Availability>('unknown');
+  const [topicsText, setTopicsText] = useState(options.topics.join(', '));
+  const owner = options.owner || username;
+  const nameError = validateRepoName(options.name);
+  const branchError = validateBranchName(options.defaultBranch);
+
+  useEffect(() => {
+    if (!open || !token) return;
+    listUserOrgs(token).then(setOrgs).catch(() => setOrgs([]));
+    listLicenseTemplates(token).then(setLicenses).catch(() => setLicenses([]));
+    listGitignoreTemplates(token).then(setGitignores).catch(() => setGitignores([]));
+  }, [open, token]);
+
+  // Debounced so typing a name does not fire a request per keystroke.
+  useEffect(() => {
+    if (!token || nameError) { setAvailability('unknown'); return; }
+    setAvailability('checking');
+    let cancelled = false;
+    const timer = window.setTimeout(() => {
+      isRepoNameAvailable(token, owner, options.name)
+        .then(free => { if (!cancelled) setAvailability(free ? 'available' : 'taken'); })
+        .catch(() => { if (!cancelled) setAvailability('unknown'); });
+    }, 500);
+    return () => { cancelled = true; window.clearTimeout(timer); };
+  }, [token, owner, options.name, nameError]);
+
+  const status = nameError
+    ? <span className="text-red-400 flex items-center gap-1"><X size={10} /> {nameError}</span>
+    : availability === 'checking' ? <span className="text-gray-500 flex items-center gap-1"><Loader2 size={10} className="animate-spin" /> Checking availability...</span>
+    : availability === 'taken' ? <span className="text-red-400 flex items-center gap-1"><X size={10} /> {owner}/{options.name} already exists.</span>
+    : availability === 'available' ? <span className="text-green-400 flex items-center gap-1"><Check size={10} /> Available</span>
+    : null;
+
+  return (
+    <div className="mb-3 bg-black/40 border border-deploy-border rounded-lg text-xs">
+      <button onClick={() => setOpen(!open)} className="w-full flex items-center justify-between p-3 text-gray-400 hover:text-white">
+        <span className="flex items-center gap-2 min-w-0">
+          <FolderGit2 size={12} className="shrink-0" />
+          <span className="font-mono truncate">{owner}/{options.name || '?'}</span> · {options.visibility} · {options.defaultBranch}
+          {(nameError || availability === 'taken') && <AlertTriangle size={12} className="text-red-400 shrink-0" />}
+        </span>
+        {open ? <ChevronDown size={12} /> : <ChevronRight size={12} />}
+      </button>
+      {open && (
+        <div className="grid grid-cols-2 gap-3 p-3 border-t border-deploy-border">
+          <label className="space-y-1">
+            <span className="block text-gray-500">Owner</span>
+            <select value={owner} disabled={disabled} onChange={(e) => onChange({ ...options, owner: e.target.value === username ? '' : e.target.value })} className={inputClass}>
+              <option value={username}>{username}</option>
+              {orgs.map(org => <option key={org} value={org}>{org}</option>)}
+              {options.owner && !orgs.includes(options.owner) && <option value={options.owner}>{options.owner}</option>}
+            </select>
+          </label>
+          <label className="space-y-1">
+            <span className="block text-gray-500">Name</span>
+            <input type="text" value={options.name} disabled={disabled} onChange={(e) => onChange({ ...options, name: e.target.value.trim() })} className={`${inputClass} font-mono`} />
+          </label>
+          <div className="col-span-2 min-h-[1rem]">{status}</div>
+          <label className="space-y-1">
+            <span className="block text-gray-500">Visibility</span>
+            <select value={options.visibility} disabled={disabled} onChange={(e) => onChange({ ...options, visibility: e.target.value as RepoOptions['visibility'] })} className={inputClass}>
+              <option value="public">Public</option>
+              <option value="private">Private</option>
+            </select>
+          </label>
+          <label className="space-y-1">
+            <span className="block text-gray-500">Default branch</span>
+            <input type="text" value={options.defaultBranch} disabled={disabled} onChange={(e) => onChange({ ...options, defaultBranch: e.target.value.trim() })} className={`${inputClass} font-mono ${branchError ? 'border-red-700' : ''}`} />
+          </label>
+          <label className="space-y-1">
+            <span className="block text-gray-500">License</span>
+            <select value={options.license} disabled={disabled} onChange={(e) => onChange({ ...options, license: e.target.value })} className={inputClass}>
+              <option value="">None</option>
+              {licenses.map(l => <option key={l.key} value={l.key}>{l.name}</option>)}
+              {options.license && !licenses.some(l => l.key === options.license) && <option value={options.license}>{options.license}</option>}
+            </select>
+          </label>
+          <label className="space-y-1">
+            <span className="block text-gray-500">.gitignore</span>
+            <select value={options.gitignore} disabled={disabled} onChange={(e) => onChange({ ...options, gitignore: e.target.value })} className={inputClass}>
+              <option value="">None</option>
+              {gitignores.map(g => <option key={g} value={g}>{g}</option>)}
+              {options.gitignore && !gitignores.includes(options.gitignore) && <option value={options.gitignore}>{options.gitignore}</option>}
+            </select>
+          </label>
+          <label className="space-y-1 col-span-2">
+            <span className="block text-gray-500">Topics (comma separated)</span>
+            <input type="text" value={topicsText} disabled={disabled} placeholder="react, dashboard" onChange={(e) => { setTopicsText(e.target.value); onChange({ ...options, topics: parseTopics(e.target.value) }); }} className={inputClass} />
+          </label>
+          {warning && <p className="col-span-2 text-yellow-400 flex gap-2"><AlertTriangle size={12} className="shrink-0 mt-0.5" /> {warning}</p>}
+        </div>
+      )}
+    </div>
+  );
+};
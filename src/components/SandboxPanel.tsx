@@ -0,0 +1,67 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { VerificationResult } from '../types';
+import { AlertTriangle, CheckCircle, Eye, EyeOff, Loader2, ShieldCheck, XCircle } from 'lucide-react';
+
+interface SandboxPanelProps {
+  result: VerificationResult | null;
+  isStale: boolean;
+  isRunning: boolean;
+  onVerify: () => void;
+}
+
+export const SandboxPanel: React.FC<SandboxPanelProps> = ({ result, isStale, isRunning, onVerify }) => {
+  const [showPreview, setShowPreview] = useState(true);
+  const [runtimeErrors, setRuntimeErrors] = useState<string[]>([]);
+  const frameRef = useRef<HTMLIFrameElement>(null);
+
+  useEffect(() => {
+    setRuntimeErrors([]);
+    const onMessage = (e: MessageEvent) => {
+      if (e.source !== frameRef.current?.contentWindow || e.data?.source !== 'autodeploy-sandbox') return;
+      setRuntimeErrors(prev => [...prev, String(e.data.message)].slice(-10));
+    };
+    window.addEventListener('message', onMessage);
+    return () => window.removeEventListener('message', onMessage);
+  }, [result]);
+
+  const errors = result?.diagnostics.filter(d => d.severity === 'error') || [];
+  const warnings = result?.diagnostics.filter(d => d.severity === 'warning') || [];
+
+  return (
+    <div className="mb-6 border border-deploy-border rounded p-3 space-y-3 bg-black/30">
+      <div className="flex items-center justify-between gap-2">
+        <h3 className="text-xs uppercase tracking-wider font-bold flex items-center gap-2 text-gray-300">
+          {!result ? <ShieldCheck size={14} className="text-gray-500" /> : result.ok ? <CheckCircle size={14} className="text-green-500" /> : <XCircle size={14} className="text-red-500" />}
+          Local Build {result && (isStale ? <span className="text-yellow-500 normal-case font-normal">(outdated)</span> : <span className="text-gray-500 normal-case font-normal">{result.ok ? 'passed' : 'failed'} in {(result.durationMs / 1000).toFixed(1)}s</span>)}
+        </h3>
+        <div className="flex items-center gap-2">
+          {result?.previewHtml && !isStale && (
+            <button onClick={() => setShowPreview(!showPreview)} className="text-gray-500 hover:text-white" title={showPreview ? 'Hide preview' : 'Show preview'}>{showPreview ? <EyeOff size={12} /> : <Eye size={12} />}</button>
+          )}
+          <button onClick={onVerify} disabled={isRunning} className="text-[10px] bg-white/5 hover:bg-white/10 text-gray-300 border border-white/10 px-2 py-1 rounded flex items-center gap-1 transition-colors disabled:opacity-50">
+            {isRunning ? <Loader2 size={10} className="animate-spin" /> : <ShieldCheck size={10} />} {result ? 'Re-verify' : 'Verify Build'}
+          </button>
+        </div>
+      </div>
+      {!result && <p className="text-xs text-gray-500">Bundle the project in an offline sandbox to catch broken imports and syntax errors before pushing.</p>}
+      {result && (errors.length > 0 || warnings.length > 0) && (
+        <ul className="space-y-1 max-h-[140px] overflow-y-auto pr-1 custom-scrollbar text-xs">
+          {[...errors, ...warnings].map((d, i) => (
+            <li key={i} className={`flex gap-2 ${d.severity === 'error' ? 'text-red-400' : 'text-yellow-400'}`}>
+              {d.severity === 'error' ? <XCircle size={12} className="shrink-0 mt-0.5" /> : <AlertTriangle size={12} className="shrink-0 mt-0.5" />}
+              <span>{d.path && <span className="font-mono text-gray-400">{d.path}{d.line ? `:${d.line}:${d.column ?? 0}` : ''} </span>}{d.message}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+      {runtimeErrors.length > 0 && (
+        <div className="text-xs text-red-400 space-y-1">
+          {runtimeErrors.map((msg, i) => <p key={i}>Runtime error: {msg}</p>)}
+        </div>
+      )}
+      {result?.previewHtml && !isStale && showPreview && (
+        <iframe ref={frameRef} title="Sandbox preview" sandbox="allow-scripts" srcDoc={result.previewHtml} className="w-full h-[320px] bg-white rounded border border-deploy-border" />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,71 @@
+import React, { useState } from 'react';
+import { PackageManager, StackFrameworkId, StackProfile, StackStyling } from '../types';
+import { NODE_VERSIONS, PACKAGE_MANAGERS, STACK_FRAMEWORKS, STYLING_OPTIONS, getFramework, stackSummary } from '../services/stacks';
+import { Layers, ChevronDown, ChevronRight } from 'lucide-react';
+
+interface StackSettingsProps {
+  stack: StackProfile;
+  disabled?: boolean;
+  onChange: (stack: StackProfile) => void;
+}
+
+const selectClass = 'w-full bg-black border border-deploy-border rounded p-2 focus:border-blue-500 focus:outline-none disabled:opacity-50';
+
+export const StackSettings: React.FC<StackSettingsProps> = ({ stack, disabled, onChange }) => {
+  const [open, setOpen] = useState(false);
+  const framework = getFramework(stack.framework);
+
+  // Router and state libraries are framework-specific, so switching frameworks resets them.
+  const selectFramework = (id: StackFrameworkId) => onChange({ ...stack, framework: id, router: 'none', state: 'none' });
+
+  return (
+    <div className="bg-black/40 border border-deploy-border rounded-lg text-xs">
+      <button onClick={() => setOpen(!open)} className="w-full flex items-center justify-between p-3 text-gray-400 hover:text-white">
+        <span className="flex items-center gap-2"><Layers size={12} /> {stackSummary(stack)}</span>
+        {open ? <ChevronDown size={12} /> : <ChevronRight size={12} />}
+      </button>
+      {open && (
+        <div className="grid grid-cols-2 gap-3 p-3 border-t border-deploy-border">
+          <label className="space-y-1">
+            <span className="block text-gray-500">Framework</span>
+            <select value={stack.framework} disabled={disabled} onChange={(e) => selectFramework(e.target.value as StackFrameworkId)} className={selectClass}>
+              {Object.values(STACK_FRAMEWORKS).map(f => <option key={f.id} value={f.id}>{f.label}</option>)}
+            </select>
+          </label>
+          <label className="space-y-1">
+            <span className="block text-gray-500">Styling</span>
+            <select value={stack.styling} disabled={disabled} onChange={(e) => onChange({ ...stack, styling: e.target.value as StackStyling })} className={selectClass}>
+              {(Object.keys(STYLING_OPTIONS) as StackStyling[]).map(id => <option key={id} value={id}>{STYLING_OPTIONS[id].label}</option>)}
+            </select>
+          </label>
+          <label className="space-y-1">
+            <span className="block text-gray-500">Router</span>
+            <select value={stack.router} disabled={disabled || framework.routers.length === 0} onChange={(e) => onChange({ ...stack, router: e.target.value })} className={selectClass}>
+              <option value="none">None</option>
+              {framework.routers.map(r => <option key={r.id} value={r.id}>{r.label}</option>)}
+            </select>
+          </label>
+          <label className="space-y-1">
+            <span className="block text-gray-500">State</span>
+            <select value={stack.state} disabled={disabled || framework.stateLibraries.length === 0} onChange={(e) => onChange({ ...stack, state: e.target.value })} className={selectClass}>
+              <option value="none">Built-in</option>
+              {framework.stateLibraries.map(s => <option key={s.id} value={s.id}>{s.label}</option>)}
+            </select>
+          </label>
+          <label className="space-y-1">
+            <span className="block text-gray-500">Package manager</span>
+            <select value={stack.packageManager} disabled={disabled} onChange={(e) => onChange({ ...stack, packageManager: e.target.value as PackageManager })} className={selectClass}>
+              {PACKAGE_MANAGERS.map(pm => <option key={pm} value={pm}>{pm}</option>)}
+            </select>
+          </label>
+          <label className="space-y-1">
+            <span className="block text-gray-500">Node version</span>
+            <select value={stack.nodeVersion} disabled={disabled} onChange={(e) => onChange({ ...stack, nodeVersion: e.target.value })} className={selectClass}>
+              {NODE_VERSIONS.map(v => <option key={v} value={v}>{v}</option>)}
+            </select>
+          </label>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,55 @@
+import React, { useState } from 'react';
+import { ProjectTemplate } from '../services/templates';
+import { CloudLightning, Loader2, Pencil, Tag, Trash2, User } from 'lucide-react';
+
+interface TemplateGalleryProps {
+  templates: ProjectTemplate[];
+  disabled?: boolean;
+  onUse: (template: ProjectTemplate) => Promise<void>;
+  onGenerateFrom: (template: ProjectTemplate) => Promise<void>;
+  onDelete: (id: string) => void;
+}
+
+export const TemplateGallery: React.FC<TemplateGalleryProps> = ({ templates, disabled, onUse, onGenerateFrom, onDelete }) => {
+  const [tag, setTag] = useState<string | null>(null);
+  const [loadingId, setLoadingId] = useState<string | null>(null);
+  const tags = [...new Set(templates.flatMap(t => t.tags))].sort();
+  const visible = templates.filter(t => !tag || t.tags.includes(tag));
+
+  const run = async (id: string, action: () => Promise<void>) => {
+    setLoadingId(id);
+    try { await action(); } finally { setLoadingId(null); }
+  };
+
+  return (
+    <div className="mb-4 border border-deploy-border rounded-lg p-3 bg-black/30 space-y-3">
+      {tags.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {tags.map(t => (
+            <button key={t} onClick={() => setTag(tag === t ? null : t)} className={`text-[10px] px-2 py-0.5 rounded-full border flex items-center gap-1 ${tag === t ? 'border-blue-500 text-blue-300' : 'border-white/10 text-gray-500 hover:text-gray-300'}`}><Tag size={8} /> {t}</button>
+          ))}
+        </div>
+      )}
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 max-h-[320px] overflow-y-auto pr-1 custom-scrollbar">
+        {visible.map(template => (
+          <div key={template.id} className="bg-black/50 border border-deploy-border rounded p-3 flex flex-col gap-2">
+            <div className="flex items-start justify-between gap-2">
+              <h3 className="text-sm font-medium text-gray-200 flex items-center gap-1">{template.personal && <User size={12} className="text-blue-400 shrink-0" />}{template.name}</h3>
+              {template.personal && <button onClick={() => onDelete(template.id)} title="Delete template" className="text-gray-600 hover:text-red-500"><Trash2 size={12} /></button>}
+            </div>
+            <p className="text-xs text-gray-500 flex-1">{template.description}</p>
+            {template.tags.length > 0 && <p className="text-[10px] text-gray-600">{template.tags.map(t => `#${t}`).join(' ')}</p>}
+            <div className="flex gap-2">
+              <button onClick={() => run(template.id, () => onGenerateFrom(template))} disabled={disabled || loadingId !== null} title="Describe changes and let the model adapt this template" className="flex-1 text-[10px] bg-blue-900/30 hover:bg-blue-900/50 text-blue-300 border border-blue-800 rounded py-1 flex items-center justify-center gap-1 disabled:opacity-50">
+                {loadingId === template.id ? <Loader2 size={10} className="animate-spin" /> : <CloudLightning size={10} />} Generate from
+              </button>
+              <button onClick={() => run(template.id, () => onUse(template))} disabled={disabled || loadingId !== null} title="Open it as is and refine it" className="flex-1 text-[10px] bg-white/5 hover:bg-white/10 text-gray-300 border border-white/10 rounded py-1 flex items-center justify-center gap-1 disabled:opacity-50">
+                <Pencil size={10} /> Use & refine
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -1,46 +1,162 @@
-import React, { useEffect, useRef } from 'react';
-import { LogEntry } from '../types';
-import { Terminal as TerminalIcon } from 'lucide-react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { LogEntry, LogPhase, LogRun, SavedRunLog } from '../types';
+import { Check, CheckCircle, ChevronDown, ChevronRight, Copy, FileJson, FileText, Loader2, Search, Terminal as TerminalIcon, XCircle } from 'lucide-react';
+import { formatDuration, fromSavedRun, logsToJson, logsToText } from '../utils/logFormat';
+import { downloadBlob } from '../utils/download';
 
 interface TerminalProps {
   logs: LogEntry[];
+  runs: LogRun[];
+  // Runs stored on the active project; shown collapsed unless they are from this session.
+  savedRuns?: SavedRunLog[];
 }
 
-export const Terminal: React.FC<TerminalProps> = ({ logs }) => {
+const LEVELS: LogEntry['type'][] = ['info', 'success', 'warning', 'error'];
+const PHASES: LogPhase[] = ['generate', 'refine', 'verify', 'push', 'build', 'autofix', 'sync'];
+
+const LEVEL_COLOR: Record<LogEntry['type'], string> = {
+  info: 'text-gray-300',
+  success: 'text-green-500',
+  warning: 'text-yellow-500',
+  error: 'text-red-500',
+};
+
+type Segment = { kind: 'log'; log: LogEntry } | { kind: 'run'; run: LogRun; logs: LogEntry[]; saved: boolean };
+
+const LogLine: React.FC<{ log: LogEntry }> = ({ log }) => (
+  <div className="flex gap-2">
+    <span className="text-gray-500 shrink-0">
+      [{log.timestamp.toLocaleTimeString([], { hour12: false, hour: '2-digit', minute:'2-digit', second:'2-digit' })}]
+    </span>
+    <span className={`break-all ${LEVEL_COLOR[log.type]}`}>
+      {log.type === 'info' && '> '}
+      {log.message}
+      {log.filePath && <span className="text-gray-600"> {log.filePath}</span>}
+      {log.durationMs !== undefined && <span className="text-gray-600"> ({formatDuration(log.durationMs)})</span>}
+    </span>
+  </div>
+);
+
+export const Terminal: React.FC<TerminalProps> = ({ logs, runs, savedRuns = [] }) => {
   const endRef = useRef<HTMLDivElement>(null);
+  const [query, setQuery] = useState('');
+  const [levels, setLevels] = useState<LogEntry['type'][]>(LEVELS);
+  const [phase, setPhase] = useState<LogPhase | 'all'>('all');
+  const [toggled, setToggled] = useState<Record<string, boolean>>({});
+  const [copied, setCopied] = useState(false);
 
   useEffect(() => {
     endRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, [logs]);
 
+  const { allRuns, allLogs, savedIds } = useMemo(() => {
+    const sessionIds = new Set(runs.map(r => r.id));
+    const restored = savedRuns.filter(r => !sessionIds.has(r.id)).map(fromSavedRun);
+    return {
+      allRuns: [...restored.map(r => r.run), ...runs],
+      allLogs: [...restored.flatMap(r => r.logs), ...logs],
+      savedIds: new Set(restored.map(r => r.run.id)),
+    };
+  }, [logs, runs, savedRuns]);
+
+  const isFiltered = query.trim() !== '' || levels.length !== LEVELS.length || phase !== 'all';
+  const visible = useMemo(() => {
+    const needle = query.trim().toLowerCase();
+    return allLogs.filter(log =>
+      levels.includes(log.type)
+      && (phase === 'all' || log.phase === phase)
+      && (!needle || log.message.toLowerCase().includes(needle) || !!log.filePath?.toLowerCase().includes(needle)));
+  }, [allLogs, query, levels, phase]);
+
+  const segments = useMemo(() => {
+    const runById = new Map(allRuns.map(r => [r.id, r]));
+    const groups = new Map<string, Extract<Segment, { kind: 'run' }>>();
+    const result: Segment[] = [];
+    visible.forEach(log => {
+      const run = log.runId ? runById.get(log.runId) : undefined;
+      if (!run) { result.push({ kind: 'log', log }); return; }
+      let group = groups.get(run.id);
+      if (!group) {
+        group = { kind: 'run', run, logs: [], saved: savedIds.has(run.id) };
+        groups.set(run.id, group);
+        result.push(group);
+      }
+      group.logs.push(log);
+    });
+    return result;
+  }, [visible, allRuns, savedIds]);
+
+  // Saved runs start collapsed, runs from this session start expanded; a click flips either.
+  const isCollapsed = (segment: Extract<Segment, { kind: 'run' }>) => segment.saved !== !!toggled[segment.run.id];
+
+  const toggleLevel = (level: LogEntry['type']) =>
+    setLevels(prev => (prev.includes(level) ? prev.filter(l => l !== level) : [...prev, level]));
+
+  const copyLogs = async () => {
+    await navigator.clipboard.writeText(logsToText(visible, allRuns));
+    setCopied(true);
+    window.setTimeout(() => setCopied(false), 2000);
+  };
+
+  const exportLogs = (format: 'json' | 'txt') => {
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const content = format === 'json' ? logsToJson(visible, allRuns) : logsToText(visible, allRuns);
+    downloadBlob(new Blob([content], { type: format === 'json' ? 'application/json' : 'text/plain' }), `autodeploy-log-${stamp}.${format}`);
+  };
+
+  const toolButton = 'text-gray-500 hover:text-white disabled:opacity-40 disabled:hover:text-gray-500';
+
   return (
     <div className="bg-deploy-card border border-deploy-border rounded-lg overflow-hidden flex flex-col h-full font-mono text-sm shadow-xl">
-      <div className="bg-[#1a1a1a] p-2 border-b border-deploy-border flex items-center gap-2">
-        <TerminalIcon size={14} className="text-gray-400" />
-        <span className="text-gray-400 text-xs">Deployment Console</span>
+      <div className="bg-[#1a1a1a] p-2 border-b border-deploy-border space-y-2">
+        <div className="flex items-center gap-2">
+          <TerminalIcon size={14} className="text-gray-400" />
+          <span className="text-gray-400 text-xs flex-1">Deployment Console</span>
+          <button onClick={copyLogs} disabled={visible.length === 0} title="Copy as text" className={toolButton}>{copied ? <Check size={12} className="text-green-500" /> : <Copy size={12} />}</button>
+          <button onClick={() => exportLogs('txt')} disabled={visible.length === 0} title="Export as text" className={toolButton}><FileText size={12} /></button>
+          <button onClick={() => exportLogs('json')} disabled={visible.length === 0} title="Export as JSON" className={toolButton}><FileJson size={12} /></button>
+        </div>
+        <div className="flex items-center gap-2 flex-wrap">
+          <div className="relative flex-1 min-w-[120px]">
+            <Search size={10} className="absolute left-2 top-1/2 -translate-y-1/2 text-gray-600" />
+            <input value={query} onChange={(e) => setQuery(e.target.value)} placeholder="Search logs..." className="w-full bg-black/50 border border-deploy-border rounded pl-6 pr-2 py-0.5 text-[10px] text-gray-300 focus:outline-none focus:border-blue-500" />
+          </div>
+          {LEVELS.map(level => (
+            <button key={level} onClick={() => toggleLevel(level)} className={`text-[10px] px-1.5 py-0.5 rounded border ${levels.includes(level) ? `border-white/20 ${LEVEL_COLOR[level]}` : 'border-transparent text-gray-600 line-through'}`}>{level}</button>
+          ))}
+          <select value={phase} onChange={(e) => setPhase(e.target.value as LogPhase | 'all')} className="bg-black/50 border border-deploy-border rounded px-1 py-0.5 text-[10px] text-gray-300 focus:outline-none">
+            <option value="all">all phases</option>
+            {PHASES.map(p => <option key={p} value={p}>{p}</option>)}
+          </select>
+        </div>
       </div>
       <div className="p-4 flex-1 overflow-y-auto space-y-2 bg-black/50">
-        {logs.length === 0 && (
+        {allLogs.length === 0 && (
           <div className="text-gray-600 italic">Waiting for instructions...</div>
         )}
-        {logs.map((log) => (
-          <div key={log.id} className="flex gap-2">
-            <span className="text-gray-500 shrink-0">
-              [{log.timestamp.toLocaleTimeString([], { hour12: false, hour: '2-digit', minute:'2-digit', second:'2-digit' })}]
-            </span>
-            <span className={`break-all ${
-              log.type === 'error' ? 'text-red-500' :
-              log.type === 'success' ? 'text-green-500' :
-              log.type === 'warning' ? 'text-yellow-500' :
-              'text-gray-300'
-            }`}>
-              {log.type === 'info' && '> '}
-              {log.message}
-            </span>
-          </div>
-        ))}
+        {allLogs.length > 0 && isFiltered && visible.length === 0 && (
+          <div className="text-gray-600 italic">No log entries match the filters.</div>
+        )}
+        {segments.map(segment => {
+          if (segment.kind === 'log') return <LogLine key={segment.log.id} log={segment.log} />;
+          const { run } = segment;
+          const collapsed = isCollapsed(segment);
+          return (
+            <div key={run.id} className="border border-white/5 rounded">
+              <button onClick={() => setToggled(prev => ({ ...prev, [run.id]: !prev[run.id] }))} className="w-full flex items-center gap-2 px-2 py-1 text-xs text-gray-400 hover:bg-white/5">
+                {collapsed ? <ChevronRight size={12} /> : <ChevronDown size={12} />}
+                {run.ok === undefined ? <Loader2 size={12} className={segment.saved ? '' : 'animate-spin'} /> : run.ok ? <CheckCircle size={12} className="text-green-500" /> : <XCircle size={12} className="text-red-500" />}
+                <span className="text-gray-300 truncate">{run.label}</span>
+                <span className="ml-auto shrink-0 text-gray-600">
+                  {segment.saved && 'saved · '}{new Date(run.startedAt).toLocaleString()}{run.finishedAt ? ` · ${formatDuration(run.finishedAt - run.startedAt)}` : ''} · {segment.logs.length}
+                </span>
+              </button>
+              {!collapsed && <div className="px-2 pb-2 space-y-2">{segment.logs.map(log => <LogLine key={log.id} log={log} />)}</div>}
+            </div>
+          );
+        })}
         <div ref={endRef} />
       </div>
     </div>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,55 @@
+import React from 'react';
+import { ValidationIssue } from '../types';
+import { AlertTriangle, CheckCircle, Loader2, Wrench, XCircle } from 'lucide-react';
+
+interface ValidationPanelProps {
+  issues: ValidationIssue[];
+  isRepairing?: boolean;
+  onRepair?: () => void;
+}
+
+export const ValidationPanel: React.FC<ValidationPanelProps> = ({ issues, isRepairing, onRepair }) => {
+  const errors = issues.filter(i => i.severity === 'error').length;
+  const warnings = issues.length - errors;
+  const byFile = issues.reduce<Record<string, ValidationIssue[]>>((acc, issue) => {
+    const key = issue.path || 'Project';
+    (acc[key] = acc[key] || []).push(issue);
+    return acc;
+  }, {});
+
+  if (issues.length === 0) {
+    return (
+      <div className="mb-6 text-xs bg-green-900/10 border border-green-900/30 text-green-400 p-3 rounded flex items-center gap-2">
+        <CheckCircle size={14} /> Validation passed. No problems found.
+      </div>
+    );
+  }
+
+  return (
+    <div className={`mb-6 border rounded p-3 space-y-2 ${errors ? 'bg-red-900/10 border-red-900/30' : 'bg-yellow-900/10 border-yellow-900/30'}`}>
+      <div className="flex items-center justify-between gap-2">
+        <h3 className="text-xs uppercase tracking-wider font-bold flex items-center gap-2 text-gray-300">
+          {errors ? <XCircle size={14} className="text-red-500" /> : <AlertTriangle size={14} className="text-yellow-500" />}
+          Validation: {errors} error{errors === 1 ? '' : 's'}, {warnings} warning{warnings === 1 ? '' : 's'}
+        </h3>
+        {onRepair && (
+          <button onClick={onRepair} disabled={isRepairing} className="text-[10px] bg-white/5 hover:bg-white/10 text-gray-300 border border-white/10 px-2 py-1 rounded flex items-center gap-1 transition-colors disabled:opacity-50">
+            {isRepairing ? <Loader2 size={10} className="animate-spin" /> : <Wrench size={10} />} Auto-repair
+          </button>
+        )}
+      </div>
+      <div className="space-y-2 max-h-[160px] overflow-y-auto pr-1 custom-scrollbar">
+        {Object.entries(byFile).map(([path, fileIssues]) => (
+          <div key={path} className="text-xs">
+            <p className="font-mono text-gray-400">{path}</p>
+            <ul className="pl-3 space-y-0.5">
+              {fileIssues.map((issue, i) => (
+                <li key={i} className={issue.severity === 'error' ? 'text-red-400' : 'text-yellow-400'}>• {issue.message}</li>
+              ))}
+            </ul>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
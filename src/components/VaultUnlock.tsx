@@ -0,0 +1,46 @@
+import React, { useState } from 'react';
+import { KeyRound, Loader2, Lock, Trash2 } from 'lucide-react';
+
+interface VaultUnlockProps {
+  username?: string;
+  onUnlock: (passphrase: string) => Promise<void>;
+  onForget: () => void;
+}
+
+export const VaultUnlock: React.FC<VaultUnlockProps> = ({ username, onUnlock, onForget }) => {
+  const [passphrase, setPassphrase] = useState('');
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const [error, setError] = useState('');
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!passphrase) return;
+    setIsUnlocking(true);
+    setError('');
+    try {
+      await onUnlock(passphrase);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not unlock.');
+      setPassphrase('');
+    } finally { setIsUnlocking(false); }
+  };
+
+  return (
+    <form onSubmit={submit} className="space-y-4 animate-in fade-in slide-in-from-left-4 duration-500 flex flex-col justify-center min-h-[50vh]">
+      <div className="bg-deploy-card p-8 rounded-xl border border-deploy-border shadow-2xl relative overflow-hidden">
+        <div className="absolute top-0 left-0 w-full h-1 bg-gradient-to-r from-blue-600 to-indigo-600"></div>
+        <h2 className="text-xl font-bold mb-2 flex items-center gap-2 text-white"><Lock size={20} /> Credentials Locked</h2>
+        <p className="text-xs text-gray-500 mb-5">{username ? `Saved tokens for ${username} are encrypted.` : 'Saved tokens are encrypted.'} Enter your passphrase to unlock them.</p>
+        <div className="relative">
+          <input type="password" autoFocus placeholder="Vault passphrase" className="w-full bg-black border border-deploy-border rounded-lg p-3 pl-10 text-sm focus:border-blue-500 focus:outline-none transition-colors" value={passphrase} onChange={(e) => setPassphrase(e.target.value)} />
+          <KeyRound size={16} className="absolute left-3 top-3.5 text-gray-500" />
+        </div>
+        {error && <p className="text-xs text-red-400 mt-2">{error}</p>}
+        <button type="submit" disabled={isUnlocking || !passphrase} className="w-full bg-white text-black font-bold py-3 rounded-lg flex items-center justify-center gap-2 transition-all hover:bg-gray-200 mt-4 disabled:opacity-50">
+          {isUnlocking ? <Loader2 size={16} className="animate-spin" /> : <KeyRound size={16} />} Unlock
+        </button>
+        <button type="button" onClick={onForget} className="w-full text-xs text-gray-500 hover:text-red-400 mt-4 flex items-center justify-center gap-1"><Trash2 size={12} /> Forget all credentials</button>
+      </div>
+    </form>
+  );
+};
@@ -0,0 +1,127 @@
+import { DeploymentLink, FileNode, GeneratedProject, SavedProject } from "../types";
+import { createZip, readZip } from "../utils/zip";
+import { fileBytes, fileNodeFromBytes, formatBytes, isBinaryFile, MAX_ASSET_BYTES } from "../utils/assets";
+
+// Written at the archive root next to the project files so an import can restore the prompt and name.
+export const MANIFEST_FILENAME = "autodeploy.json";
+const MAX_IMPORT_FILES = 1000;
+const MAX_IMPORT_BYTES = 20 * 1024 * 1024;
+const SKIPPED_SEGMENTS = new Set(["node_modules", ".git", "dist", "build", ".next", ".vercel", ".netlify", "__MACOSX"]);
+const SKIPPED_FILES = new Set([".DS_Store", "Thumbs.db"]);
+
+// Dependency and build output folders and OS clutter, left out of every import.
+export const isIgnoredPath = (path: string) => {
+  const segments = path.split("/");
+  return segments.some(s => SKIPPED_SEGMENTS.has(s)) || SKIPPED_FILES.has(segments[segments.length - 1]);
+};
+
+export const packageJsonName = (files: FileNode[]): string | undefined => {
+  try {
+    const name = JSON.parse(files.find(f => f.path === "package.json")?.content || "{}").name;
+    return typeof name === "string" && name ? name : undefined;
+  } catch (e) { return undefined; }
+};
+
+export interface ProjectManifest {
+  format: 1;
+  name: string;
+  description: string;
+  prompt: string;
+  createdAt: string;
+  exportedAt: string;
+  deployment?: Pick<DeploymentLink, "repoUrl" | "branch" | "deployUrl" | "lastCommitSha">;
+}
+
+export interface ImportedProject {
+  project: GeneratedProject;
+  prompt: string;
+  manifest: ProjectManifest | null;
+  // Paths left out of the import, with the reason.
+  skipped: string[];
+}
+
+const archiveName = (name: string) => name.toLowerCase().replace(/[^a-z0-9._-]+/g, "-").replace(/^-+|-+$/g, "") || "project";
+
+export const exportProjectZip = async (entry: Pick<SavedProject, "prompt" | "project" | "timestamp" | "deployment">) => {
+  const { project } = entry;
+  const root = archiveName(project.name);
+  const manifest: ProjectManifest = {
+    format: 1,
+    name: project.name,
+    description: project.description,
+    prompt: entry.prompt,
+    createdAt: new Date(entry.timestamp).toISOString(),
+    exportedAt: new Date().toISOString(),
+    deployment: entry.deployment && {
+      repoUrl: entry.deployment.repoUrl,
+      branch: entry.deployment.branch,
+      deployUrl: entry.deployment.deployUrl,
+      lastCommitSha: entry.deployment.lastCommitSha,
+    },
+  };
+  const encoder = new TextEncoder();
+  const files = project.files.filter(f => f.path !== MANIFEST_FILENAME);
+  const blob = await createZip([
+    { path: `${root}/${MANIFEST_FILENAME}`, data: encoder.encode(JSON.stringify(manifest, null, 2)) },
+    ...files.map(f => ({ path: `${root}/${f.path}`, data: fileBytes(f) })),
+  ]);
+  return { blob, filename: `${root}.zip` };
+};
+
+const normalizePath = (path: string) => path.replace(/\\/g, "/").replace(/^(\.\/|\/)+/, "");
+
+const parseManifest = (content: string): ProjectManifest | null => {
+  try {
+    const data = JSON.parse(content);
+    return data && data.format === 1 && typeof data.name === "string" ? data : null;
+  } catch (e) { return null; }
+};
+
+// Turns an archive (one of ours, or any zipped source tree such as GitHub's "Download ZIP") into a project.
+// A single top-level folder is unwrapped; dependency and build folders and oversized binary files are skipped.
+export const importProjectZip = async (file: File): Promise<ImportedProject> => {
+  const fallbackName = file.name.replace(/\.zip$/i, "") || "imported-app";
+  const skipped: string[] = [];
+  let count = 0;
+  let total = 0;
+  const entries = await readZip(await file.arrayBuffer(), (rawPath, size) => {
+    const path = normalizePath(rawPath);
+    const segments = path.split("/");
+    if (segments.includes("..")) { skipped.push(`${path} (unsafe path)`); return false; }
+    if (isIgnoredPath(path)) return false;
+    count += 1;
+    total += size;
+    if (count > MAX_IMPORT_FILES) throw new Error(`The archive has more than ${MAX_IMPORT_FILES} files.`);
+    if (total > MAX_IMPORT_BYTES) throw new Error(`The archive is larger than ${MAX_IMPORT_BYTES / 1024 / 1024} MB once unpacked.`);
+    return true;
+  });
+
+  const paths = entries.map(e => normalizePath(e.path));
+  const firstSegment = paths[0]?.split("/")[0];
+  const unwrap = paths.length > 0 && paths.every(p => p.includes("/") && p.split("/")[0] === firstSegment);
+  const files: FileNode[] = [];
+  let manifest: ProjectManifest | null = null;
+  for (const [i, entry] of entries.entries()) {
+    const path = unwrap ? paths[i].slice(firstSegment.length + 1) : paths[i];
+    const node = fileNodeFromBytes(path, entry.data);
+    if (isBinaryFile(node) && entry.data.length > MAX_ASSET_BYTES) {
+      skipped.push(`${path} (binary, over ${formatBytes(MAX_ASSET_BYTES)})`);
+      continue;
+    }
+    const parsed = path === MANIFEST_FILENAME && !isBinaryFile(node) ? parseManifest(node.content) : null;
+    if (parsed) manifest = parsed;
+    else files.push(node);
+  }
+  if (files.length === 0) throw new Error("The archive contains no files to import.");
+
+  return {
+    project: {
+      name: manifest?.name || packageJsonName(files) || fallbackName,
+      description: manifest?.description || `Imported from ${file.name}`,
+      files: files.sort((a, b) => a.path.localeCompare(b.path)),
+    },
+    prompt: manifest?.prompt || "",
+    manifest,
+    skipped,
+  };
+};
@@ -0,0 +1,92 @@
+import { DeploymentState } from "../../types";
+import { DeployLogLine, DeployTarget } from "./types";
+import { pollDeployment } from "./poll";
+import { hostBuildCommand, OUTPUT_DIR } from "../stacks";
+
+const CLOUDFLARE_API_BASE = "https://api.cloudflare.com/client/v4";
+
+const cloudflareRequest = async (token: string, path: string, init: RequestInit = {}) => {
+  const response = await fetch(`${CLOUDFLARE_API_BASE}${path}`, {
+    ...init,
+    headers: { Authorization: `Bearer ${token}`, ...(init.body instanceof FormData ? {} : { "Content-Type": "application/json" }) },
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok || data.success === false) {
+    const err = data.errors?.[0];
+    throw new Error(`Cloudflare API Error (${response.status}${err?.code ? `/${err.code}` : ""}): ${err?.message || response.statusText}`);
+  }
+  return data.result;
+};
+
+const toState = (stage?: { name: string; status: string }): DeploymentState => {
+  if (!stage) return "QUEUED";
+  if (stage.status === "failure") return "ERROR";
+  if (stage.status === "canceled") return "CANCELED";
+  if (stage.name === "deploy" && stage.status === "success") return "READY";
+  if (stage.name === "queued") return "QUEUED";
+  if (stage.name === "initialize") return "INITIALIZING";
+  return "BUILDING";
+};
+
+// Project names are a lowercase DNS label of at most 58 characters.
+const toProjectName = (repoName: string) => repoName.toLowerCase().replace(/[^a-z0-9-]+/g, "-").replace(/^-+|-+$/g, "").slice(0, 58) || "autodeploy-app";
+
+// Git-connected Pages project; requires the Cloudflare GitHub app to have access to the repository.
+// Pages already serves index.html for unknown paths when there is no 404.html, so no fallback file is needed.
+export const cloudflareTarget: DeployTarget = {
+  id: "cloudflare",
+  label: "Cloudflare Pages",
+  credentials: [
+    { key: "cloudflareToken", label: "Cloudflare API Token", placeholder: "Pages:Edit token", helpUrl: "https://dash.cloudflare.com/profile/api-tokens", secret: true },
+    { key: "cloudflareAccountId", label: "Cloudflare Account ID", placeholder: "0123456789abcdef0123456789abcdef" },
+  ],
+  isConfigured: config => !!config.cloudflareToken && !!config.cloudflareAccountId,
+  // Deployments of any branch other than the production branch are previews.
+  previews: true,
+  configFiles: () => [],
+  manualUrl: () => "https://dash.cloudflare.com/?to=/:account/pages/new/provider/github",
+  deploy: async ctx => {
+    const token = ctx.config.cloudflareToken!;
+    const base = `/accounts/${ctx.config.cloudflareAccountId}/pages/projects`;
+    const name = ctx.siteId || toProjectName(ctx.repoName);
+    if (!ctx.siteId) {
+      const nodeVersionVar = { NODE_VERSION: { type: "plain_text", value: ctx.stack.nodeVersion } };
+      ctx.onProgress(`Creating Cloudflare Pages project "${name}"...`);
+      try {
+        await cloudflareRequest(token, base, {
+          method: "POST",
+          body: JSON.stringify({
+            name,
+            production_branch: ctx.branch,
+            build_config: { build_command: hostBuildCommand(ctx.stack), destination_dir: OUTPUT_DIR },
+            deployment_configs: { production: { env_vars: nodeVersionVar }, preview: { env_vars: nodeVersionVar } },
+            source: { type: "github", config: { owner: ctx.owner, repo_name: ctx.repoName, production_branch: ctx.branch, deployments_enabled: true } },
+          }),
+        });
+      } catch (e: any) {
+        if (!/already exists/i.test(e.message)) throw e;
+        ctx.onProgress(`Project "${name}" already exists; redeploying it.`);
+      }
+    }
+    const form = new FormData();
+    form.append("branch", ctx.branch);
+    const started = await cloudflareRequest(token, `${base}/${name}/deployments`, { method: "POST", body: form });
+    ctx.onProgress(`Cloudflare deployment ${started.id} created.`);
+    const fetchLogs = async (): Promise<DeployLogLine[]> => {
+      const history = await cloudflareRequest(token, `${base}/${name}/deployments/${started.id}/history/logs`);
+      return (history?.data || []).map((entry: any) => ({ text: String(entry.line), isError: /error|failed/i.test(entry.line) }));
+    };
+    const { state, data: deployment, logs } = await pollDeployment(ctx, "Cloudflare Pages", async () => {
+      const deployment = await cloudflareRequest(token, `${base}/${name}/deployments/${started.id}`);
+      return { state: toState(deployment.latest_stage), data: deployment, logs: fetchLogs };
+    });
+    return {
+      siteId: name,
+      state,
+      deployUrl: state === "READY" ? deployment.url : undefined,
+      inspectUrl: `https://dash.cloudflare.com/${ctx.config.cloudflareAccountId}/pages/view/${name}/${started.id}`,
+      error: state === "READY" ? undefined : `Deployment stopped at the "${deployment.latest_stage?.name}" stage.`,
+      logs,
+    };
+  },
+};
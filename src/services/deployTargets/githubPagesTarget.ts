@@ -0,0 +1,108 @@
+import { DeploymentState, PackageManager, StackProfile } from "../../types";
+import { DeployLogLine, DeployTarget } from "./types";
+import { pollDeployment } from "./poll";
+import { dispatchWorkflow, enablePagesWorkflow, getPagesSite, getWorkflowRun, getWorkflowRunJobs, listWorkflowRuns } from "../githubService";
+import { installCommand, OUTPUT_DIR, runScript } from "../stacks";
+
+const WORKFLOW_FILE = "deploy-pages.yml";
+
+// Runner images ship npm and yarn; pnpm and bun need their setup actions.
+const SETUP_STEPS: Partial<Record<PackageManager, string>> = {
+  pnpm: `
+      - uses: pnpm/action-setup@v4
+        with:
+          version: 9`,
+  bun: `
+      - uses: oven-sh/setup-bun@v2`,
+};
+
+// Project sites live under /<repo>/, so the build passes Vite's `base` from the repository name;
+// 404.html is a copy of index.html to give client-side routes an SPA fallback.
+const workflow = (branch: string, stack: StackProfile) => `name: Deploy to GitHub Pages
+
+on:
+  push:
+    branches: [${JSON.stringify(branch)}]
+  workflow_dispatch:
+
+permissions:
+  contents: read
+  pages: write
+  id-token: write
+
+concurrency:
+  group: pages
+  cancel-in-progress: true
+
+jobs:
+  deploy:
+    runs-on: ubuntu-latest
+    environment:
+      name: github-pages
+      url: \${{ steps.deployment.outputs.page_url }}
+    steps:
+      - uses: actions/checkout@v4${SETUP_STEPS[stack.packageManager] || ""}
+      - uses: actions/setup-node@v4
+        with:
+          node-version: ${stack.nodeVersion}
+      - run: ${installCommand(stack.packageManager)}
+      - run: ${runScript(stack.packageManager, "build", "--base=/\${{ github.event.repository.name }}/")}
+      - run: cp ${OUTPUT_DIR}/index.html ${OUTPUT_DIR}/404.html
+      - uses: actions/configure-pages@v5
+      - uses: actions/upload-pages-artifact@v3
+        with:
+          path: ${OUTPUT_DIR}
+      - id: deployment
+        uses: actions/deploy-pages@v4
+`;
+
+const toState = (run: any): DeploymentState => {
+  if (!run) return "QUEUED";
+  if (run.status !== "completed") return run.status === "in_progress" ? "BUILDING" : "QUEUED";
+  if (run.conclusion === "success") return "READY";
+  return run.conclusion === "cancelled" ? "CANCELED" : "ERROR";
+};
+
+// Builds with GitHub Actions in the pushed repo itself. Pushing the workflow file needs a token with the `workflow` scope.
+export const githubPagesTarget: DeployTarget = {
+  id: "github-pages",
+  label: "GitHub Pages",
+  credentials: [],
+  isConfigured: config => !!config.githubToken,
+  configFiles: (_project, repo, stack) => [{ path: `.github/workflows/${WORKFLOW_FILE}`, content: workflow(repo.branch, stack) }],
+  manualUrl: repoUrl => `${repoUrl}/settings/pages`,
+  deploy: async ctx => {
+    const token = ctx.config.githubToken;
+    ctx.onProgress("Enabling GitHub Pages (Actions build)...");
+    await enablePagesWorkflow(token, ctx.owner, ctx.repoName);
+    const dispatchedAt = Date.now();
+    await dispatchWorkflow(token, ctx.owner, ctx.repoName, WORKFLOW_FILE, ctx.branch);
+    ctx.onProgress(`Dispatched ${WORKFLOW_FILE} on ${ctx.branch}.`);
+    let runId: number | null = null;
+    const fetchLogs = async (): Promise<DeployLogLine[]> => {
+      const jobs = await getWorkflowRunJobs(token, ctx.owner, ctx.repoName, runId!);
+      return jobs.flatMap(job => (job.steps || [])
+        .filter((step: any) => step.status === "completed")
+        .map((step: any) => ({ text: `${job.name} › ${step.name}: ${step.conclusion}`, isError: step.conclusion === "failure" })));
+    };
+    const { state, data: run, logs } = await pollDeployment(ctx, "GitHub Pages", async () => {
+      if (runId === null) {
+        const runs = await listWorkflowRuns(token, ctx.owner, ctx.repoName, WORKFLOW_FILE, ctx.branch);
+        const run = runs.find(r => r.event === "workflow_dispatch" && new Date(r.created_at).getTime() >= dispatchedAt - 60_000);
+        if (!run) return { state: "QUEUED", data: null };
+        runId = run.id as number;
+      }
+      const run = await getWorkflowRun(token, ctx.owner, ctx.repoName, runId);
+      return { state: toState(run), data: run, logs: fetchLogs };
+    });
+    const site = state === "READY" ? await getPagesSite(token, ctx.owner, ctx.repoName).catch(() => null) : null;
+    return {
+      siteId: `${ctx.owner}/${ctx.repoName}`,
+      state,
+      deployUrl: site?.html_url || (state === "READY" ? `https://${ctx.owner.toLowerCase()}.github.io/${ctx.repoName}/` : undefined),
+      inspectUrl: run?.html_url,
+      error: state === "READY" ? undefined : `Workflow run finished with "${run?.conclusion || state}".`,
+      logs,
+    };
+  },
+};
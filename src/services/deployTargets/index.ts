@@ -0,0 +1,29 @@
+import { DeployTargetId, FileNode, GeneratedProject, StackProfile } from "../../types";
+import { DeployTarget, RepoRef } from "./types";
+import { vercelTarget } from "./vercelTarget";
+import { netlifyTarget } from "./netlifyTarget";
+import { cloudflareTarget } from "./cloudflareTarget";
+import { githubPagesTarget } from "./githubPagesTarget";
+
+export type { CredentialField, DeployContext, DeployLogLine, DeployOutcome, DeployTarget, RepoRef } from "./types";
+
+export const DEPLOY_TARGETS: Record<DeployTargetId, DeployTarget> = {
+  vercel: vercelTarget,
+  netlify: netlifyTarget,
+  cloudflare: cloudflareTarget,
+  "github-pages": githubPagesTarget,
+};
+
+export const DEFAULT_DEPLOY_TARGET: DeployTargetId = "vercel";
+
+export const getDeployTarget = (id: DeployTargetId = DEFAULT_DEPLOY_TARGET): DeployTarget => {
+  const target = DEPLOY_TARGETS[id];
+  if (!target) throw new Error(`Unknown deploy target "${id}".`);
+  return target;
+};
+
+// Project files plus the target's config files; files the project already defines take precedence.
+export const withTargetFiles = (project: GeneratedProject, target: DeployTarget, repo: RepoRef, stack: StackProfile): FileNode[] => {
+  const existing = new Set(project.files.map(f => f.path));
+  return [...project.files, ...target.configFiles(project, repo, stack).filter(f => !existing.has(f.path))];
+};
@@ -0,0 +1,81 @@
+import { DeploymentState, StackProfile } from "../../types";
+import { DeployTarget } from "./types";
+import { pollDeployment } from "./poll";
+import { hostBuildCommand, OUTPUT_DIR } from "../stacks";
+
+const NETLIFY_API_BASE = "https://api.netlify.com/api/v1";
+
+const netlifyRequest = async (token: string, path: string, init: RequestInit = {}) => {
+  const response = await fetch(`${NETLIFY_API_BASE}${path}`, {
+    ...init,
+    headers: { Authorization: `Bearer ${token}`, "Content-Type": "application/json" },
+  });
+  if (!response.ok) {
+    const err = await response.json().catch(() => ({}));
+    throw new Error(`Netlify API Error (${response.status}): ${err.message || response.statusText}`);
+  }
+  return await response.json();
+};
+
+const toState = (state: string): DeploymentState => {
+  if (state === "ready") return "READY";
+  if (state === "error") return "ERROR";
+  if (state === "rejected" || state === "canceled") return "CANCELED";
+  if (["new", "pending_review", "accepted", "enqueued"].includes(state)) return "QUEUED";
+  return "BUILDING";
+};
+
+const netlifyToml = (stack: StackProfile) => `[build]
+  command = "${hostBuildCommand(stack)}"
+  publish = "${OUTPUT_DIR}"
+
+[build.environment]
+  NODE_VERSION = "${stack.nodeVersion}"
+
+[[redirects]]
+  from = "/*"
+  to = "/index.html"
+  status = 200
+`;
+
+// Sites are linked to the GitHub repo so Netlify builds from source; this needs the Netlify GitHub app
+// to have access to the repository, otherwise the build fails while cloning.
+export const netlifyTarget: DeployTarget = {
+  id: "netlify",
+  label: "Netlify",
+  credentials: [{ key: "netlifyToken", label: "Netlify Token", placeholder: "nfp_xxxxxxxx", helpUrl: "https://app.netlify.com/user/applications#personal-access-tokens", secret: true }],
+  isConfigured: config => !!config.netlifyToken,
+  configFiles: (_project, _repo, stack) => [{ path: "netlify.toml", content: netlifyToml(stack) }],
+  manualUrl: () => "https://app.netlify.com/start",
+  deploy: async ctx => {
+    const token = ctx.config.netlifyToken!;
+    let siteId = ctx.siteId;
+    if (!siteId) {
+      ctx.onProgress("Creating Netlify site...");
+      const repo = { provider: "github", repo: `${ctx.owner}/${ctx.repoName}`, branch: ctx.branch, cmd: hostBuildCommand(ctx.stack), dir: OUTPUT_DIR };
+      let site;
+      try {
+        site = await netlifyRequest(token, "/sites", { method: "POST", body: JSON.stringify({ name: ctx.repoName, repo }) });
+      } catch (e: any) {
+        if (!String(e.message).includes("(422)")) throw e;
+        ctx.onProgress(`Site name "${ctx.repoName}" is taken; letting Netlify pick one.`);
+        site = await netlifyRequest(token, "/sites", { method: "POST", body: JSON.stringify({ repo }) });
+      }
+      siteId = site.id as string;
+    }
+    const build = await netlifyRequest(token, `/sites/${siteId}/builds`, { method: "POST", body: JSON.stringify({}) });
+    ctx.onProgress(`Netlify build ${build.id} started.`);
+    const { state, data: deploy } = await pollDeployment(ctx, "Netlify", async () => {
+      const deploy = await netlifyRequest(token, `/deploys/${build.deploy_id}`);
+      return { state: toState(deploy.state), data: deploy };
+    });
+    return {
+      siteId: siteId!,
+      state,
+      deployUrl: state === "READY" ? deploy.ssl_url || deploy.url : undefined,
+      inspectUrl: deploy.admin_url ? `${deploy.admin_url}/deploys/${deploy.id}` : undefined,
+      error: deploy.error_message || undefined,
+      logs: deploy.error_message ? [{ text: deploy.error_message, isError: true }] : [],
+    };
+  },
+};
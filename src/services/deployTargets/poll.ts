@@ -0,0 +1,34 @@
+import { DeploymentState } from "../../types";
+import { DeployContext, DeployLogLine } from "./types";
+
+const SETTLED: DeploymentState[] = ["READY", "ERROR", "CANCELED"];
+
+// Polls a target's status endpoint until the deployment settles, reporting state changes and new log lines.
+export const pollDeployment = async <T>(
+  ctx: DeployContext,
+  label: string,
+  check: () => Promise<{ state: DeploymentState; data: T; logs?: () => Promise<DeployLogLine[]> }>,
+  intervalMs = 3000,
+  timeoutMs = 15 * 60 * 1000,
+): Promise<{ state: DeploymentState; data: T; logs: DeployLogLine[] }> => {
+  const startedAt = Date.now();
+  let lastState: DeploymentState | null = null;
+  let logs: DeployLogLine[] = [];
+  while (true) {
+    const status = await check();
+    if (status.state !== lastState) {
+      lastState = status.state;
+      ctx.onState?.(lastState);
+    }
+    if (status.logs) {
+      try {
+        const latest = await status.logs();
+        latest.slice(logs.length).forEach(line => ctx.onLog?.(line));
+        if (latest.length > logs.length) logs = latest;
+      } catch (e) {}
+    }
+    if (SETTLED.includes(status.state)) return { state: status.state, data: status.data, logs };
+    if (Date.now() - startedAt > timeoutMs) throw new Error(`Timed out waiting for the ${label} deployment.`);
+    await new Promise(resolve => setTimeout(resolve, intervalMs));
+  }
+};
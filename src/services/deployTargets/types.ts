@@ -0,0 +1,61 @@
+import { AppConfig, DeployTargetId, DeploymentState, EnvVar, FileNode, GeneratedProject, StackProfile } from "../../types";
+
+export interface DeployLogLine {
+  text: string;
+  isError: boolean;
+}
+
+export interface RepoRef {
+  owner: string;
+  repoName: string;
+  repoId: number;
+  branch: string;
+}
+
+export interface DeployContext extends RepoRef {
+  config: AppConfig;
+  // Stack of the deployed project; sets the install and build commands and the Node version on the host.
+  stack: StackProfile;
+  // The project's environment variables; only targets with `pushesEnv` apply them.
+  env: EnvVar[];
+  // Target-side project from an earlier deploy; when set the target redeploys it instead of creating one.
+  siteId?: string;
+  // Build `branch` as a preview instead of production; only set for targets with `previews`.
+  preview?: boolean;
+  onProgress: (msg: string) => void;
+  onState?: (state: DeploymentState) => void;
+  onLog?: (line: DeployLogLine) => void;
+}
+
+export interface DeployOutcome {
+  siteId: string;
+  state: DeploymentState;
+  deployUrl?: string;
+  inspectUrl?: string;
+  error?: string;
+  logs: DeployLogLine[];
+}
+
+export interface CredentialField {
+  key: "vercelToken" | "netlifyToken" | "cloudflareToken" | "cloudflareAccountId";
+  label: string;
+  placeholder: string;
+  helpUrl?: string;
+  secret?: boolean;
+}
+
+export interface DeployTarget {
+  id: DeployTargetId;
+  label: string;
+  credentials: CredentialField[];
+  isConfigured: (config: AppConfig) => boolean;
+  // Whether deploy() sets ctx.env on the host; otherwise the variables have to be added in the host's dashboard.
+  pushesEnv?: boolean;
+  // Whether deploy() can build a non-production branch as a preview, e.g. for a pull request.
+  previews?: boolean;
+  // Host-specific files (SPA fallback, CI workflow) pushed alongside the project when it lacks them.
+  configFiles: (project: GeneratedProject, repo: RepoRef, stack: StackProfile) => FileNode[];
+  // Where to finish the setup by hand when auto-deploy is off.
+  manualUrl: (repoUrl: string) => string;
+  deploy: (ctx: DeployContext) => Promise<DeployOutcome>;
+}
@@ -0,0 +1,39 @@
+import { DeployTarget } from "./types";
+import { createDeployment, createVercelProject, getDeploymentUrl, upsertProjectEnv, waitForDeployment } from "../vercelService";
+
+export const vercelTarget: DeployTarget = {
+  id: "vercel",
+  label: "Vercel",
+  credentials: [{ key: "vercelToken", label: "Vercel Token", placeholder: "AbCdEfGxxxxxxxx", helpUrl: "https://vercel.com/account/tokens", secret: true }],
+  isConfigured: config => !!config.vercelToken,
+  pushesEnv: true,
+  previews: true,
+  configFiles: () => [
+    { path: "vercel.json", content: JSON.stringify({ rewrites: [{ source: "/(.*)", destination: "/index.html" }] }, null, 2) },
+  ],
+  manualUrl: repoUrl => `https://vercel.com/new/import?s=${repoUrl}`,
+  deploy: async ctx => {
+    const token = ctx.config.vercelToken!;
+    let name = ctx.siteId;
+    if (!name) {
+      ctx.onProgress("Creating Vercel project...");
+      const created = await createVercelProject(token, ctx.repoName, `${ctx.owner}/${ctx.repoName}`, ctx.stack);
+      name = created.name as string;
+    }
+    if (ctx.env.length > 0) {
+      ctx.onProgress(`Setting ${ctx.env.length} environment variable(s) on ${name}...`);
+      await upsertProjectEnv(token, name, ctx.env);
+    }
+    const started = await createDeployment(token, name, ctx.repoId, ctx.branch, ctx.preview ? "preview" : "production");
+    ctx.onProgress(`Vercel deployment ${started.id} created.`);
+    const { deployment, logs } = await waitForDeployment(token, started.id, { onState: ctx.onState, onLog: ctx.onLog });
+    return {
+      siteId: name,
+      state: deployment.readyState,
+      deployUrl: deployment.readyState === "READY" ? getDeploymentUrl(deployment) : undefined,
+      inspectUrl: deployment.inspectorUrl,
+      error: deployment.errorMessage,
+      logs,
+    };
+  },
+};
@@ -1,37 +1,56 @@
-import { GoogleGenAI, Type, Schema } from "@google/genai";
-import { GeneratedProject } from "../types";
+import { ConversationTurn, FileNode, GeneratedProject, LLMSettings, ProjectPatch, StackProfile, ValidationIssue } from "../types";
+import { formatIssues } from "./validationService";
+import { createProjectStreamParser, PartialProject } from "../utils/partialJson";
+import { DEFAULT_LLM_SETTINGS, getProvider, JsonSchema, LLMRequest } from "./llm";
+import { DEFAULT_STACK, getFramework, OUTPUT_DIR, stackRules } from "./stacks";
+import { describeAssets, isBinaryFile } from "../utils/assets";
 
-const getAiClient = () => {
-  const apiKey = process.env.API_KEY;
-  if (!apiKey) {
-    throw new Error("Gemini API Key is missing from environment variables.");
-  }
-  return new GoogleGenAI({ apiKey });
+const runJsonPrompt = async (request: LLMRequest, settings: LLMSettings = DEFAULT_LLM_SETTINGS) => {
+  const text = await getProvider(settings.provider).generateJson(request, settings);
+  return JSON.parse(text);
+};
+
+// Project files for a prompt: text files in full, binary assets listed by path only.
+const promptFiles = (files: FileNode[]) => {
+  const assets = describeAssets(files);
+  return JSON.stringify(files.filter(f => !isBinaryFile(f))) + (assets ? `
+    BINARY ASSETS (uploaded images, fonts and media; their contents are not shown). Reference them by path, e.g. <img src="/logo.png">
+    for public/logo.png or an import for files under src/. Never output, modify or recreate them:
+${assets}` : "");
 };
 
-const projectSchema: Schema = {
-  type: Type.OBJECT,
+export interface GenerationOptions {
+  signal?: AbortSignal;
+  onFile?: (file: FileNode, partial: PartialProject) => void;
+  // Starter project the generated app should build on instead of starting from scratch.
+  template?: GeneratedProject;
+  // Defaults to Vite + React + Tailwind.
+  stack?: StackProfile;
+}
+
+const projectSchema: JsonSchema = {
+  type: "object",
   properties: {
     name: {
-      type: Type.STRING,
+      type: "string",
       description: "A URL-friendly kebab-case name for the project.",
     },
     description: {
-      type: Type.STRING,
+      type: "string",
       description: "A short description of what the app does.",
     },
     files: {
-      type: Type.ARRAY,
+      type: "array",
       description: "The source code files for the application.",
       items: {
-        type: Type.OBJECT,
+        type: "object",
         properties: {
           path: {
-            type: Type.STRING,
+            type: "string",
             description: "The file path (e.g., 'src/App.tsx').",
           },
           content: {
-            type: Type.STRING,
+            type: "string",
             description: "The full text content of the file.",
           },
         },
@@ -42,56 +61,143 @@ const projectSchema: Schema = {
   required: ["name", "description", "files"],
 };
 
-export const generateProjectCode = async (prompt: string, mode: 'generate' | 'paste' = 'generate'): Promise<GeneratedProject> => {
-  const ai = getAiClient();
+const patchSchema: JsonSchema = {
+  type: "object",
+  properties: {
+    summary: {
+      type: "string",
+      description: "A short explanation of what was changed and why.",
+    },
+    changes: {
+      type: "array",
+      description: "Only the files that were added, modified or deleted.",
+      items: {
+        type: "object",
+        properties: {
+          path: {
+            type: "string",
+            description: "The file path (e.g., 'src/App.tsx').",
+          },
+          type: {
+            type: "string",
+            enum: ["add", "modify", "delete"],
+            description: "Whether the file is new, changed or removed.",
+          },
+          content: {
+            type: "string",
+            description: "The full new content of the file. Omit for deletions.",
+          },
+        },
+        required: ["path", "type"],
+      },
+    },
+  },
+  required: ["summary", "changes"],
+};
+
+export const generateProjectCode = async (prompt: string, mode: 'generate' | 'paste' = 'generate', settings: LLMSettings = DEFAULT_LLM_SETTINGS, options: GenerationOptions = {}): Promise<GeneratedProject> => {
+  const stack = options.stack || DEFAULT_STACK;
+  const framework = getFramework(stack.framework);
   let systemInstruction = '';
   const commonRules = `
-    CRITICAL VERCEL DEPLOYMENT RULES:
-    1.  **vercel.json REQUIRED:** You MUST include a 'vercel.json' file in the root with EXACTLY this content: { "rewrites": [{ "source": "/(.*)", "destination": "/index.html" }] }
-    2.  **Vite Config:** Ensure 'vite.config.ts' is standard and builds to the 'dist' folder.
-    3.  **Entry Point:** 'index.html' must be in the ROOT directory and script src must point to "/src/main.tsx".
-    4.  **Package.json:** Ensure 'scripts' has "build": "vite build".
+    CRITICAL DEPLOYMENT RULES:
+    1.  **Vite Config:** Ensure 'vite.config.ts' is standard and builds to the '${OUTPUT_DIR}' folder. Do not hard-code 'base'.
+    2.  **Entry Point:** 'index.html' must be in the ROOT directory and script src must point to "/${framework.entry}".
+    3.  **Package.json:** Ensure 'scripts' has "build": "vite build".
+    4.  **Hosting Config:** Do NOT add host-specific files (vercel.json, netlify.toml, CI workflows); they are added at deploy time.
   `;
 
   if (mode === 'generate') {
     systemInstruction = `
       You are an intelligent Full-Stack AI Developer (Gemini 3 Pro).
-      YOUR GOAL: Generate a complete, production-ready React + Vite application.
+      YOUR GOAL: Generate a complete, production-ready ${framework.label} + Vite application.
       TECHNICAL STACK RULES:
-      1.  Framework: Vite + React + TypeScript.
-      2.  Styling: Tailwind CSS.
-      3.  Icons: 'lucide-react'.
-      4.  Dependencies: 'package.json' includes: 'react', 'react-dom', 'lucide-react', 'clsx', 'tailwind-merge'. Dev: 'vite', 'typescript', 'tailwindcss', 'postcss', 'autoprefixer'.
+      ${stackRules(stack)}
       ${commonRules}
       Return ONLY the JSON structure matching the schema.
     `;
+    if (options.template) {
+      systemInstruction += `
+      STARTER PROJECT: Build on the starter project below instead of starting from scratch. Keep its tooling, structure and
+      working parts, and adapt or extend it to the user's request. Return the COMPLETE project, including files you did not change.
+      ${promptFiles(options.template.files)}
+      `;
+    }
   } else {
     systemInstruction = `
       You are an expert Code Architect AI (Gemini 3 Pro). The user is pasting a blob of code.
       YOUR GOAL: Parse the text, identify distinct files, and structure them into a deployable project.
       RULES:
-      1.  File Separation: Look for comments like "// File: App.tsx".
-      2.  Missing Files: If missing, GENERATE 'index.html', 'package.json', 'vite.config.ts', 'src/main.tsx', 'src/index.css', 'vercel.json'.
+      1.  File Separation: Look for comments like "// File: App.tsx". Keep the pasted code of every file verbatim; do not drop or rewrite it.
+      2.  Missing Files: If missing, GENERATE 'index.html', 'package.json', 'vite.config.ts', '${framework.entry}' and the stylesheet, following the
+          ${framework.label} stack (${stack.packageManager}, Node ${stack.nodeVersion}) unless the pasted code clearly uses another framework.
       ${commonRules}
       Return ONLY the JSON structure matching the schema.
     `;
   }
 
+  const parser = createProjectStreamParser();
+  const request: LLMRequest = { schemaName: "project", schema: projectSchema, systemInstruction, messages: [{ role: "user", content: prompt }], signal: options.signal };
   try {
-    const response = await ai.models.generateContent({
-      model: "gemini-2.0-flash", 
-      contents: prompt,
-      config: {
-        systemInstruction: systemInstruction,
-        responseMimeType: "application/json",
-        responseSchema: projectSchema,
-        temperature: 0.2, 
-      },
+    const text = await getProvider(settings.provider).generateJson(request, settings, chunk => {
+      parser.push(chunk).forEach(file => options.onFile?.(file, parser.snapshot()));
     });
-    const text = response.text;
-    if (!text) throw new Error("No response from AI.");
-    return JSON.parse(text) as GeneratedProject;
+    try {
+      return JSON.parse(text) as GeneratedProject;
+    } catch (parseError) {
+      const partial = parser.snapshot();
+      if (partial.files.length === 0) throw parseError;
+      return { name: partial.name || "untitled-app", description: partial.description || "", files: partial.files };
+    }
   } catch (error) {
-    throw new Error("I failed to process the code. Please try again.");
+    if (options.signal?.aborted) throw new Error("Generation cancelled.");
+    throw new Error(`I failed to process the code. Please try again. (${error instanceof Error ? error.message : "Unknown error"})`);
   }
-};
\ No newline at end of file
+};
+
+export const refineProjectCode = async (project: GeneratedProject, instruction: string, turns: ConversationTurn[] = [], settings?: LLMSettings): Promise<ProjectPatch> => {
+  const systemInstruction = `
+    You are an intelligent Full-Stack AI Developer (Gemini 3 Pro) iterating on an existing Vite project.
+    YOUR GOAL: Apply the user's requested change to the project below with the smallest reasonable set of file edits.
+    RULES:
+    1.  Return ONLY files that are added, modified or deleted. Never echo unchanged files.
+    2.  For "add" and "modify", 'content' must be the FULL new file content, not a fragment.
+    3.  Keep the existing stack, structure, hosting config and build setup intact unless the user asks otherwise.
+    4.  Use 'summary' to briefly explain the change.
+    CURRENT PROJECT "${project.name}":
+    ${promptFiles(project.files)}
+    Return ONLY the JSON structure matching the schema.
+  `;
+  const messages = [
+    ...turns.map(turn => ({ role: turn.role, content: turn.content })),
+    { role: "user" as const, content: instruction },
+  ];
+
+  try {
+    const patch = await runJsonPrompt({ schemaName: "patch", schema: patchSchema, systemInstruction, messages }, settings) as ProjectPatch;
+    // Assets only reach the model as paths, so a text edit of one would corrupt it.
+    const assets = new Set(project.files.filter(isBinaryFile).map(f => f.path));
+    return { summary: patch.summary || "", changes: (patch.changes || []).filter(c => c.path && (c.type === "delete" || !assets.has(c.path))) };
+  } catch (error) {
+    throw new Error(`I failed to refine the project. Please try again. (${error instanceof Error ? error.message : "Unknown error"})`);
+  }
+};
+
+export const repairProjectCode = async (project: GeneratedProject, issues: ValidationIssue[], settings?: LLMSettings): Promise<ProjectPatch> => {
+  const instruction = `
+    The project failed pre-deploy validation. Fix every issue below with minimal changes
+    (add missing files, fix invalid JSON, fix or remove broken imports, add missing dependencies to package.json):
+    ${formatIssues(issues)}
+  `;
+  return refineProjectCode(project, instruction, [], settings);
+};
+
+export const fixBuildErrors = async (project: GeneratedProject, buildLog: string[], settings?: LLMSettings): Promise<ProjectPatch> => {
+  const instruction = `
+    The project failed to build on Vercel ("npm install" followed by "npm run build").
+    Find the root cause in the build log below and fix it with minimal changes. Do not rewrite unrelated files.
+    BUILD LOG (last lines):
+    ${buildLog.slice(-80).join("\n")}
+  `;
+  return refineProjectCode(project, instruction, [], settings);
+};
@@ -0,0 +1,89 @@
+import { GithubOAuthSettings } from "../types";
+
+// github.com does not send CORS headers for the OAuth endpoints, so browsers need a proxy; the base URL
+// can also point at a local stand-in that implements /login/device/code and /login/oauth/access_token.
+export const DEFAULT_OAUTH_SETTINGS: GithubOAuthSettings = {
+  clientId: process.env.GITHUB_CLIENT_ID || "",
+  baseUrl: process.env.GITHUB_OAUTH_BASE_URL || "https://github.com",
+};
+
+export const DEVICE_FLOW_SCOPES = ["repo", "gist", "workflow"];
+
+export interface DeviceCode {
+  deviceCode: string;
+  userCode: string;
+  verificationUri: string;
+  expiresAt: number;
+  interval: number;
+}
+
+export interface OAuthToken {
+  accessToken: string;
+  scopes: string[];
+  refreshToken?: string;
+  expiresAt?: number;
+  refreshTokenExpiresAt?: number;
+}
+
+const oauthRequest = async (settings: GithubOAuthSettings, path: string, params: Record<string, string>, signal?: AbortSignal) => {
+  if (!settings.clientId) throw new Error("No GitHub OAuth client ID is configured.");
+  const baseUrl = (settings.baseUrl || DEFAULT_OAUTH_SETTINGS.baseUrl!).replace(/\/+$/, "");
+  const response = await fetch(`${baseUrl}${path}`, {
+    method: "POST",
+    headers: { Accept: "application/json", "Content-Type": "application/x-www-form-urlencoded" },
+    body: new URLSearchParams({ client_id: settings.clientId, ...params }).toString(),
+    signal,
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) throw new Error(`GitHub OAuth Error (${response.status}): ${data.error_description || data.error || response.statusText}`);
+  return data;
+};
+
+const toToken = (data: any): OAuthToken => ({
+  accessToken: data.access_token,
+  scopes: String(data.scope || "").split(/[ ,]+/).filter(Boolean),
+  refreshToken: data.refresh_token || undefined,
+  expiresAt: data.expires_in ? Date.now() + Number(data.expires_in) * 1000 : undefined,
+  refreshTokenExpiresAt: data.refresh_token_expires_in ? Date.now() + Number(data.refresh_token_expires_in) * 1000 : undefined,
+});
+
+export const requestDeviceCode = async (settings: GithubOAuthSettings, scopes: string[] = DEVICE_FLOW_SCOPES): Promise<DeviceCode> => {
+  const data = await oauthRequest(settings, "/login/device/code", { scope: scopes.join(" ") });
+  if (data.error) throw new Error(`GitHub OAuth Error: ${data.error_description || data.error}`);
+  return {
+    deviceCode: data.device_code,
+    userCode: data.user_code,
+    verificationUri: data.verification_uri,
+    expiresAt: Date.now() + Number(data.expires_in || 900) * 1000,
+    interval: Number(data.interval || 5),
+  };
+};
+
+// Polls at the server-given interval until the user approves the code, backing off on "slow_down".
+export const pollForToken = async (settings: GithubOAuthSettings, device: DeviceCode, signal?: AbortSignal): Promise<OAuthToken> => {
+  let interval = device.interval;
+  while (true) {
+    await new Promise<void>((resolve, reject) => {
+      const timer = setTimeout(resolve, interval * 1000);
+      signal?.addEventListener("abort", () => { clearTimeout(timer); reject(new Error("Sign-in cancelled.")); }, { once: true });
+    });
+    if (Date.now() > device.expiresAt) throw new Error("The device code expired. Please start again.");
+    const data = await oauthRequest(settings, "/login/oauth/access_token", {
+      device_code: device.deviceCode,
+      grant_type: "urn:ietf:params:oauth:grant-type:device_code",
+    }, signal);
+    if (data.access_token) return toToken(data);
+    if (data.error === "authorization_pending") continue;
+    if (data.error === "slow_down") { interval = Number(data.interval) || interval + 5; continue; }
+    if (data.error === "expired_token") throw new Error("The device code expired. Please start again.");
+    if (data.error === "access_denied") throw new Error("Authorization was denied on GitHub.");
+    throw new Error(`GitHub OAuth Error: ${data.error_description || data.error || "unknown response"}`);
+  }
+};
+
+// Only tokens from apps with expiring user tokens come with a refresh token.
+export const refreshAccessToken = async (settings: GithubOAuthSettings, refreshToken: string): Promise<OAuthToken> => {
+  const data = await oauthRequest(settings, "/login/oauth/access_token", { grant_type: "refresh_token", refresh_token: refreshToken });
+  if (!data.access_token) throw new Error(`GitHub OAuth Error: ${data.error_description || data.error || "refresh failed"}`);
+  return toToken(data);
+};
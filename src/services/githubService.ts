@@ -1,25 +1,53 @@
-import { FileNode, SavedProject } from "../types";
+import { ComparedFile, FileChange, FileNode, SavedProject } from "../types";
+import { DehydratedEntry, dehydrateEntries, hashContent, hydrateEntries } from "../utils/fileDedup";
 
 const GITHUB_API_BASE = "https://api.github.com";
 
-export const verifyGithubToken = async (token: string): Promise<string> => {
+export const REQUIRED_SCOPES = ["repo", "gist"];
+
+export interface GithubIdentity {
+  login: string;
+  // Scopes from X-OAuth-Scopes; null for fine-grained tokens, which do not report them.
+  scopes: string[] | null;
+}
+
+export const verifyGithubToken = async (token: string): Promise<GithubIdentity> => {
   const response = await fetch(`${GITHUB_API_BASE}/user`, {
     headers: { Authorization: `token ${token}`, Accept: "application/vnd.github.v3+json" },
   });
   if (!response.ok) throw new Error("Invalid GitHub Token");
   const data = await response.json();
-  return data.login;
+  const header = response.headers.get("X-OAuth-Scopes");
+  return { login: data.login, scopes: header === null ? null : header.split(",").map(s => s.trim()).filter(Boolean) };
 };
 
-export const createRepository = async (token: string, name: string, description: string) => {
-  const response = await fetch(`${GITHUB_API_BASE}/user/repos`, {
+export const missingScopes = (identity: GithubIdentity, required: string[] = REQUIRED_SCOPES) =>
+  identity.scopes ? required.filter(scope => !identity.scopes!.includes(scope)) : [];
+
+export interface NewRepoSettings {
+  // Organization to create the repo in; the authenticated user when omitted.
+  org?: string;
+  private?: boolean;
+  license?: string;
+  gitignore?: string;
+}
+
+export const createRepository = async (token: string, name: string, description: string, settings: NewRepoSettings = {}) => {
+  const response = await fetch(`${GITHUB_API_BASE}${settings.org ? `/orgs/${settings.org}/repos` : "/user/repos"}`, {
     method: "POST",
     headers: {
       Authorization: `token ${token}`,
       Accept: "application/vnd.github.v3+json",
       "Content-Type": "application/json",
     },
-    body: JSON.stringify({ name, description, private: false, auto_init: true }),
+    body: JSON.stringify({
+      name,
+      description,
+      private: !!settings.private,
+      auto_init: true,
+      license_template: settings.license || undefined,
+      gitignore_template: settings.gitignore || undefined,
+    }),
   });
   if (!response.ok) {
      const err = await response.json();
@@ -28,6 +56,9 @@ export const createRepository = async (token: string, name: string, description:
   return await response.json();
 };
 
+// Binary assets are already base64; text is UTF-8 encoded first.
+const base64Content = (file: FileNode) => (file.encoding === "base64" ? file.content : btoa(unescape(encodeURIComponent(file.content))));
+
 export const pushFilesToRepo = async (token: string, username: string, repoName: string, files: FileNode[], onProgress: (msg: string) => void) => {
   for (const file of files) {
     onProgress(`Pushing ${file.path}...`);
@@ -42,7 +73,7 @@ export const pushFilesToRepo = async (token: string, username: string, repoName:
         }
     } catch (e) {}
 
-    const contentEncoded = btoa(unescape(encodeURIComponent(file.content)));
+    const contentEncoded = base64Content(file);
     const res = await fetch(`${GITHUB_API_BASE}/repos/${username}/${repoName}/contents/${file.path}`, {
       method: "PUT",
       headers: {
@@ -60,40 +91,387 @@ export const pushFilesToRepo = async (token: string, username: string, repoName:
   }
 };
 
-const GIST_FILENAME = "autodeploy-data.json";
-const GIST_DESC = "autodeploy-sync";
+const githubRequest = async (token: string, path: string, init: RequestInit = {}) => {
+  const response = await fetch(`${GITHUB_API_BASE}${path}`, {
+    ...init,
+    headers: {
+      Authorization: `token ${token}`,
+      Accept: "application/vnd.github.v3+json",
+      "Content-Type": "application/json",
+    },
+  });
+  if (!response.ok) {
+    const err = await response.json().catch(() => ({}));
+    throw new Error(`GitHub API Error (${response.status}): ${err.message || response.statusText}`);
+  }
+  return response.status === 204 ? null : await response.json();
+};
+
+type TreeEntry = { path: string; mode: string; type: string; sha: string | null };
+
+
+const createBlobs = async (token: string, repoPath: string, files: FileNode[], onProgress: (msg: string) => void): Promise<TreeEntry[]> => {
+  const tree: TreeEntry[] = [];
+  for (const [index, file] of files.entries()) {
+    onProgress(`Creating blob ${index + 1}/${files.length}: ${file.path}`);
+    const blob = await githubRequest(token, `${repoPath}/git/blobs`, {
+      method: "POST",
+      body: JSON.stringify({ content: base64Content(file), encoding: "base64" }),
+    });
+    tree.push({ path: file.path, mode: "100644", type: "blob", sha: blob.sha });
+  }
+  return tree;
+};
+
+// Replaces the initial commit with a fresh root commit of `files`. Paths in `keepPaths` (such as the LICENSE and
+// .gitignore GitHub generated from templates) are carried over from that commit unless the project defines them.
+export const commitFilesToRepo = async (token: string, username: string, repoName: string, files: FileNode[], onProgress: (msg: string) => void, message = "Initial commit", keepPaths: string[] = []) => {
+  const repoPath = `/repos/${username}/${repoName}`;
+  const repo = await githubRequest(token, repoPath);
+  const branch: string = repo.default_branch || "main";
+
+  const tree = await createBlobs(token, repoPath, files, onProgress);
+  if (keepPaths.length > 0) {
+    const own = new Set(files.map(f => f.path));
+    const ref = await githubRequest(token, `${repoPath}/git/ref/heads/${branch}`);
+    const head = await githubRequest(token, `${repoPath}/git/commits/${ref.object.sha}`);
+    const initial = await githubRequest(token, `${repoPath}/git/trees/${head.tree.sha}`);
+    (initial.tree as TreeEntry[])
+      .filter(entry => entry.type === "blob" && keepPaths.includes(entry.path) && !own.has(entry.path))
+      .forEach(entry => tree.push({ path: entry.path, mode: entry.mode, type: "blob", sha: entry.sha }));
+  }
 
-export const loadHistoryFromGist = async (token: string): Promise<SavedProject[] | null> => {
+  onProgress(`Creating tree with ${tree.length} files...`);
+  const newTree = await githubRequest(token, `${repoPath}/git/trees`, { method: "POST", body: JSON.stringify({ tree }) });
+
+  onProgress(`Creating commit "${message}"...`);
+  const commit = await githubRequest(token, `${repoPath}/git/commits`, {
+    method: "POST",
+    body: JSON.stringify({ message, tree: newTree.sha, parents: [] }),
+  });
+
+  onProgress(`Updating ${branch} to ${commit.sha.slice(0, 7)}...`);
+  await githubRequest(token, `${repoPath}/git/refs/heads/${branch}`, {
+    method: "PATCH",
+    body: JSON.stringify({ sha: commit.sha, force: true }),
+  });
+  return { sha: commit.sha as string, branch, htmlUrl: commit.html_url as string };
+};
+
+// Commits only the given changes on top of the branch head; deletions are expressed as null-sha tree entries.
+export const commitChangesToRepo = async (token: string, username: string, repoName: string, branch: string, changes: FileChange[], message: string, onProgress: (msg: string) => void) => {
+  const repoPath = `/repos/${username}/${repoName}`;
+  const ref = await githubRequest(token, `${repoPath}/git/ref/heads/${branch}`);
+  const parent = await githubRequest(token, `${repoPath}/git/commits/${ref.object.sha}`);
+
+  const upserts = changes.filter(c => c.type !== "delete").map(c => ({ path: c.path, content: c.content ?? "" }));
+  const tree = await createBlobs(token, repoPath, upserts, onProgress);
+  changes.filter(c => c.type === "delete").forEach(c => tree.push({ path: c.path, mode: "100644", type: "blob", sha: null }));
+
+  onProgress(`Creating tree with ${tree.length} changed files...`);
+  const newTree = await githubRequest(token, `${repoPath}/git/trees`, { method: "POST", body: JSON.stringify({ base_tree: parent.tree.sha, tree }) });
+
+  onProgress(`Creating commit "${message}"...`);
+  const commit = await githubRequest(token, `${repoPath}/git/commits`, {
+    method: "POST",
+    body: JSON.stringify({ message, tree: newTree.sha, parents: [parent.sha] }),
+  });
+
+  onProgress(`Updating ${branch} to ${commit.sha.slice(0, 7)}...`);
+  await githubRequest(token, `${repoPath}/git/refs/heads/${branch}`, { method: "PATCH", body: JSON.stringify({ sha: commit.sha }) });
+  return { sha: commit.sha as string, branch, htmlUrl: commit.html_url as string };
+};
+
+// Replaces the branch contents with exactly the given files in a new commit on top of the current head,
+// so files removed from the project are removed from the repo while history is kept. Paths in `keepPaths`
+// (files the project never loaded, such as the binaries of an imported repo) are carried over from the head.
+export const commitSnapshotToRepo = async (token: string, owner: string, repoName: string, branch: string, files: FileNode[], message: string, onProgress: (msg: string) => void, keepPaths: string[] = []) => {
+  const repoPath = `/repos/${owner}/${repoName}`;
+  const ref = await githubRequest(token, `${repoPath}/git/ref/heads/${branch}`);
+
+  const tree = await createBlobs(token, repoPath, files, onProgress);
+  if (keepPaths.length > 0) {
+    const own = new Set(files.map(f => f.path));
+    const keep = new Set(keepPaths);
+    const head = await githubRequest(token, `${repoPath}/git/trees/${ref.object.sha}?recursive=1`);
+    (head.tree as TreeEntry[])
+      .filter(entry => entry.type !== "tree" && keep.has(entry.path) && !own.has(entry.path))
+      .forEach(entry => tree.push({ path: entry.path, mode: entry.mode, type: entry.type, sha: entry.sha }));
+  }
+
+  onProgress(`Creating tree with ${tree.length} files...`);
+  const newTree = await githubRequest(token, `${repoPath}/git/trees`, { method: "POST", body: JSON.stringify({ tree }) });
+
+  onProgress(`Creating commit "${message}"...`);
+  const commit = await githubRequest(token, `${repoPath}/git/commits`, {
+    method: "POST",
+    body: JSON.stringify({ message, tree: newTree.sha, parents: [ref.object.sha] }),
+  });
+
+  onProgress(`Updating ${branch} to ${commit.sha.slice(0, 7)}...`);
+  await githubRequest(token, `${repoPath}/git/refs/heads/${branch}`, { method: "PATCH", body: JSON.stringify({ sha: commit.sha }) });
+  return { sha: commit.sha as string, branch, htmlUrl: commit.html_url as string };
+};
+
+export const getRepository = (token: string, owner: string, repoName: string) => githubRequest(token, `/repos/${owner}/${repoName}`);
+
+// A 404 can also mean a private repo the token cannot see; creating it then fails with a clear error.
+export const isRepoNameAvailable = async (token: string, owner: string, repoName: string) => {
   try {
-    const res = await fetch(`${GITHUB_API_BASE}/gists`, { headers: { Authorization: `token ${token}` } });
-    if (!res.ok) return null;
-    const gists = await res.json();
-    const syncGist = gists.find((g: any) => g.description === GIST_DESC);
-    if (!syncGist) return null;
-    const file = syncGist.files[GIST_FILENAME];
-    if (file && file.raw_url) {
-       const contentRes = await fetch(file.raw_url);
-       const data = await contentRes.json();
-       return data.history || [];
-    }
-    return null;
-  } catch (e) { return null; }
+    await getRepository(token, owner, repoName);
+    return false;
+  } catch (e: any) {
+    if (String(e.message).includes("(404)")) return true;
+    throw e;
+  }
+};
+
+// Organizations the token can create repositories in; private memberships need the read:org scope to show up.
+export const listUserOrgs = async (token: string): Promise<string[]> =>
+  ((await githubRequest(token, "/user/orgs?per_page=100")) as any[]).map(org => org.login as string);
+
+export const listLicenseTemplates = async (token: string): Promise<{ key: string; name: string }[]> =>
+  ((await githubRequest(token, "/licenses")) as any[]).map(l => ({ key: l.key as string, name: l.name as string }));
+
+export const listGitignoreTemplates = async (token: string): Promise<string[]> => githubRequest(token, "/gitignore/templates");
+
+export const setRepoTopics = (token: string, owner: string, repoName: string, topics: string[]) =>
+  githubRequest(token, `/repos/${owner}/${repoName}/topics`, { method: "PUT", body: JSON.stringify({ names: topics }) });
+
+// Renaming the default branch also updates the repo's default branch setting.
+export const renameBranch = (token: string, owner: string, repoName: string, branch: string, newName: string) =>
+  githubRequest(token, `/repos/${owner}/${repoName}/branches/${encodeURIComponent(branch)}/rename`, { method: "POST", body: JSON.stringify({ new_name: newName }) });
+
+export interface GithubRepoSummary {
+  id: number;
+  owner: string;
+  name: string;
+  htmlUrl: string;
+  defaultBranch: string;
+  private: boolean;
+  canPush: boolean;
+}
+
+// The 100 repositories the user pushed to most recently, including organization and collaborator repos.
+export const listUserRepos = async (token: string): Promise<GithubRepoSummary[]> =>
+  ((await githubRequest(token, "/user/repos?per_page=100&sort=pushed")) as any[]).map(r => ({
+    id: r.id, owner: r.owner.login, name: r.name, htmlUrl: r.html_url, defaultBranch: r.default_branch, private: r.private, canPush: !!r.permissions?.push,
+  }));
+
+export const listBranches = async (token: string, owner: string, repoName: string): Promise<string[]> =>
+  ((await githubRequest(token, `/repos/${owner}/${repoName}/branches?per_page=100`)) as any[]).map(b => b.name as string);
+
+// Every file on the branch head. Symlinks and submodules are listed apart, since they have no text content.
+export const getRepoTree = async (token: string, owner: string, repoName: string, branch: string) => {
+  const repoPath = `/repos/${owner}/${repoName}`;
+  const ref = await githubRequest(token, `${repoPath}/git/ref/heads/${branch}`);
+  const tree = await githubRequest(token, `${repoPath}/git/trees/${ref.object.sha}?recursive=1`);
+  return {
+    commitSha: ref.object.sha as string,
+    // GitHub cuts recursive listings off at 100,000 entries or 7 MB.
+    truncated: !!tree.truncated,
+    files: (tree.tree as any[])
+      .filter(e => e.type === "blob" && e.mode !== "120000")
+      .map(e => ({ path: e.path as string, sha: e.sha as string, size: e.size as number })),
+    links: (tree.tree as any[]).filter(e => e.mode === "120000" || e.type === "commit").map(e => e.path as string),
+  };
+};
+
+export const getBlobBytes = async (token: string, owner: string, repoName: string, sha: string) => {
+  const blob = await githubRequest(token, `/repos/${owner}/${repoName}/git/blobs/${sha}`);
+  return Uint8Array.from(atob(String(blob.content).replace(/\n/g, "")), c => c.charCodeAt(0));
+};
+
+export const createBranch = async (token: string, owner: string, repoName: string, branch: string, fromBranch: string) => {
+  const repoPath = `/repos/${owner}/${repoName}`;
+  const base = await githubRequest(token, `${repoPath}/git/ref/heads/${fromBranch}`);
+  await githubRequest(token, `${repoPath}/git/refs`, { method: "POST", body: JSON.stringify({ ref: `refs/heads/${branch}`, sha: base.object.sha }) });
+  return base.object.sha as string;
+};
+
+// Files that differ between two refs, as GitHub computes them for the pull request.
+export const compareCommits = async (token: string, owner: string, repoName: string, base: string, head: string): Promise<ComparedFile[]> => {
+  const comparison = await githubRequest(token, `/repos/${owner}/${repoName}/compare/${encodeURIComponent(base)}...${encodeURIComponent(head)}`);
+  return (comparison.files || []).map((f: any) => ({
+    path: f.filename, status: f.status, additions: f.additions, deletions: f.deletions, previousPath: f.previous_filename,
+  }));
+};
+
+export const createPullRequest = async (token: string, owner: string, repoName: string, pr: { title: string; head: string; base: string; body: string }) => {
+  const created = await githubRequest(token, `/repos/${owner}/${repoName}/pulls`, { method: "POST", body: JSON.stringify(pr) });
+  return { number: created.number as number, url: created.html_url as string };
 };
 
-export const saveHistoryToGist = async (token: string, history: SavedProject[]) => {
+// Pull requests share the issue comment API.
+export const commentOnPullRequest = (token: string, owner: string, repoName: string, number: number, body: string) =>
+  githubRequest(token, `/repos/${owner}/${repoName}/issues/${number}/comments`, { method: "POST", body: JSON.stringify({ body }) });
+
+// Switches the repo's Pages site to Actions-based builds, creating the site if needed.
+export const enablePagesWorkflow = async (token: string, owner: string, repoName: string) => {
+  const path = `/repos/${owner}/${repoName}/pages`;
   try {
-    const listRes = await fetch(`${GITHUB_API_BASE}/gists`, { headers: { Authorization: `token ${token}` } });
-    const gists = await listRes.json();
-    const existingGist = gists.find((g: any) => g.description === GIST_DESC);
-    const payload = {
-        description: GIST_DESC,
-        public: false,
-        files: { [GIST_FILENAME]: { content: JSON.stringify({ history, lastUpdated: new Date().toISOString() }) } }
-    };
-    if (existingGist) {
-        await fetch(`${GITHUB_API_BASE}/gists/${existingGist.id}`, { method: "PATCH", headers: { Authorization: `token ${token}` }, body: JSON.stringify(payload) });
-    } else {
-        await fetch(`${GITHUB_API_BASE}/gists`, { method: "POST", headers: { Authorization: `token ${token}` }, body: JSON.stringify(payload) });
+    return await githubRequest(token, path, { method: "POST", body: JSON.stringify({ build_type: "workflow" }) });
+  } catch (e: any) {
+    if (!String(e.message).includes("(409)")) throw e;
+    await githubRequest(token, path, { method: "PUT", body: JSON.stringify({ build_type: "workflow" }) });
+    return githubRequest(token, path);
+  }
+};
+
+export const getPagesSite = (token: string, owner: string, repoName: string) => githubRequest(token, `/repos/${owner}/${repoName}/pages`);
+
+export const dispatchWorkflow = (token: string, owner: string, repoName: string, workflowFile: string, ref: string) =>
+  githubRequest(token, `/repos/${owner}/${repoName}/actions/workflows/${workflowFile}/dispatches`, { method: "POST", body: JSON.stringify({ ref }) });
+
+export const listWorkflowRuns = async (token: string, owner: string, repoName: string, workflowFile: string, branch: string) => {
+  const data = await githubRequest(token, `/repos/${owner}/${repoName}/actions/workflows/${workflowFile}/runs?branch=${encodeURIComponent(branch)}&per_page=5`);
+  return (data?.workflow_runs || []) as any[];
+};
+
+export const getWorkflowRun = (token: string, owner: string, repoName: string, runId: number) => githubRequest(token, `/repos/${owner}/${repoName}/actions/runs/${runId}`);
+
+export const getWorkflowRunJobs = async (token: string, owner: string, repoName: string, runId: number) => {
+  const data = await githubRequest(token, `/repos/${owner}/${repoName}/actions/runs/${runId}/jobs`);
+  return (data?.jobs || []) as any[];
+};
+
+// The sync gist holds a small manifest plus chunk files: entries reference file bodies by hash,
+// and the bodies live in separate blob chunks so unchanged files are not re-uploaded.
+const GIST_FILENAME = "autodeploy-data.json";
+const GIST_DESC = "autodeploy-sync";
+const ENTRIES_PREFIX = "autodeploy-entries-";
+const BLOBS_PREFIX = "autodeploy-blobs-";
+// The gists API inlines up to 1 MB per file; larger chunks would need a raw_url fetch each.
+const CHUNK_BYTES = 900_000;
+
+interface GistManifest {
+  format: 2;
+  entries: string[];
+  blobs: string[];
+  lastUpdated: string;
+}
+
+export interface GistHistory {
+  gistId: string;
+  revision: string;
+  history: SavedProject[];
+  files: string[];
+  // Hashes held by each blob chunk as read, so a save can keep chunks that are still in use.
+  blobChunks: Record<string, string[]>;
+}
+
+// Walks every page of the user's gists; the sync gist is not necessarily among the most recent ones.
+const findSyncGistId = async (token: string): Promise<string | null> => {
+  for (let page = 1; ; page++) {
+    const gists = await githubRequest(token, `/gists?per_page=100&page=${page}`);
+    const match = gists.find((g: any) => g.description === GIST_DESC && g.files?.[GIST_FILENAME]);
+    if (match) return match.id;
+    if (gists.length < 100) return null;
+  }
+};
+
+const readGistFile = async (file: any): Promise<string> => {
+  if (!file) return "";
+  if (file.truncated && file.raw_url) return (await fetch(file.raw_url)).text();
+  return file.content || "";
+};
+
+const readGist = async (token: string, gistId: string): Promise<GistHistory> => {
+  const gist = await githubRequest(token, `/gists/${gistId}`);
+  const files = gist.files || {};
+  const content = await readGistFile(files[GIST_FILENAME]);
+  const data = content ? JSON.parse(content) : {};
+  const layout = { gistId, revision: gist.history?.[0]?.version || "", files: Object.keys(files), blobChunks: {} as Record<string, string[]> };
+  // Gists written before chunking keep the whole history inline in the manifest file.
+  if (data.format !== 2) return { ...layout, history: Array.isArray(data.history) ? data.history : [] };
+
+  const manifest = data as GistManifest;
+  const readChunk = async (name: string) => {
+    if (!files[name]) throw new Error(`Cloud history is missing ${name}`);
+    return JSON.parse(await readGistFile(files[name]));
+  };
+  const blobs = new Map<string, string>();
+  for (const name of manifest.blobs) {
+    const chunk: Record<string, string> = await readChunk(name);
+    layout.blobChunks[name] = Object.keys(chunk);
+    Object.entries(chunk).forEach(([hash, body]) => blobs.set(hash, body));
+  }
+  const entries: DehydratedEntry[] = (await Promise.all(manifest.entries.map(readChunk))).flat();
+  return { ...layout, history: hydrateEntries(entries, hash => blobs.get(hash)) };
+};
+
+// Returns null when no sync gist exists yet; network and API failures throw so they are never mistaken for an empty cloud.
+export const loadHistoryFromGist = async (token: string, knownGistId?: string | null): Promise<GistHistory | null> => {
+  if (knownGistId) {
+    try { return await readGist(token, knownGistId); }
+    catch (e: any) { if (!String(e.message).includes("(404)")) throw e; }
+  }
+  const gistId = await findSyncGistId(token);
+  return gistId ? readGist(token, gistId) : null;
+};
+
+const byteSize = (text: string) => new TextEncoder().encode(text).length;
+
+// Greedy packing; an item larger than a chunk gets a chunk of its own.
+const packChunks = <T>(items: T[], sizeOf: (item: T) => number): T[][] => {
+  const chunks: T[][] = [];
+  let current: T[] = [];
+  let size = 0;
+  for (const item of items) {
+    const itemSize = sizeOf(item);
+    if (current.length > 0 && size + itemSize > CHUNK_BYTES) {
+      chunks.push(current);
+      current = [];
+      size = 0;
     }
-  } catch (e) { console.error("Gist Sync Error", e); }
-};
\ No newline at end of file
+    current.push(item);
+    size += itemSize;
+  }
+  if (current.length > 0) chunks.push(current);
+  return chunks;
+};
+
+export const getGistRevision = async (token: string, gistId: string): Promise<string> => {
+  const gist = await githubRequest(token, `/gists/${gistId}`);
+  return gist.history?.[0]?.version || "";
+};
+
+// `previous` is the gist as last read: blob chunks that are still mostly referenced are kept as they are,
+// only new file bodies are uploaded, and chunk files that are no longer listed are deleted.
+export const saveHistoryToGist = async (token: string, history: SavedProject[], previous?: GistHistory | null): Promise<{ gistId: string; revision: string }> => {
+  const { entries, blobs } = await dehydrateEntries(history);
+  const files: Record<string, { content: string } | null> = {};
+  const blobFiles: string[] = [];
+  const placed = new Set<string>();
+  for (const [name, hashes] of Object.entries(previous?.blobChunks || {})) {
+    const live = hashes.filter(hash => blobs.has(hash));
+    if (live.length === 0 || live.length * 2 < hashes.length) continue;
+    blobFiles.push(name);
+    live.forEach(hash => placed.add(hash));
+  }
+  const fresh = [...blobs].filter(([hash]) => !placed.has(hash));
+  for (const chunk of packChunks(fresh, ([hash, body]) => hash.length + byteSize(JSON.stringify(body)))) {
+    const content = JSON.stringify(Object.fromEntries(chunk));
+    const name = `${BLOBS_PREFIX}${(await hashContent(content)).slice(0, 16)}.json`;
+    files[name] = { content };
+    blobFiles.push(name);
+  }
+  const serialized = entries.map(entry => JSON.stringify(entry));
+  const entryFiles = packChunks(serialized, byteSize).map((chunk, i) => {
+    const name = `${ENTRIES_PREFIX}${i + 1}.json`;
+    files[name] = { content: `[${chunk.join(",")}]` };
+    return name;
+  });
+  const manifest: GistManifest = { format: 2, entries: entryFiles, blobs: blobFiles, lastUpdated: new Date().toISOString() };
+  files[GIST_FILENAME] = { content: JSON.stringify(manifest) };
+  (previous?.files || []).forEach(name => {
+    const isChunk = name.startsWith(ENTRIES_PREFIX) || name.startsWith(BLOBS_PREFIX);
+    if (isChunk && !(name in files) && !blobFiles.includes(name)) files[name] = null;
+  });
+
+  const payload = { description: GIST_DESC, public: false, files };
+  const gist = previous
+    ? await githubRequest(token, `/gists/${previous.gistId}`, { method: "PATCH", body: JSON.stringify(payload) })
+    : await githubRequest(token, `/gists`, { method: "POST", body: JSON.stringify(payload) });
+  return { gistId: gist.id, revision: gist.history?.[0]?.version || "" };
+};
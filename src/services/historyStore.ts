@@ -0,0 +1,123 @@
+import { HistorySyncState, SavedProject } from "../types";
+import { DehydratedEntry, dehydrateEntries, hydrateEntries, referencedHashes } from "../utils/fileDedup";
+import { byNewest } from "../utils/historyMerge";
+
+// History lives in IndexedDB: entries reference file bodies by content hash, and each body is
+// stored once in the blobs store no matter how many versions or projects share it.
+const DB_NAME = "autodeploy";
+const DB_VERSION = 1;
+const LEGACY_HISTORY_KEY = "autodeploy_history";
+const LEGACY_SYNC_KEY = "autodeploy_sync";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        db.createObjectStore("entries", { keyPath: "id" });
+        db.createObjectStore("blobs");
+        db.createObjectStore("meta");
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).catch(e => { dbPromise = null; throw e; });
+  }
+  return dbPromise;
+};
+
+const result = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const completion = (tx: IDBTransaction) => new Promise<void>((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = tx.onabort = () => reject(tx.error);
+});
+
+let writeQueue: Promise<void> = Promise.resolve();
+
+const enqueue = (task: () => Promise<void>) => {
+  const run = writeQueue.then(task);
+  writeQueue = run.catch(() => {});
+  return run;
+};
+
+const collectGarbage = async () => {
+  const db = await openDb();
+  const tx = db.transaction(["entries", "blobs"], "readwrite");
+  const done = completion(tx);
+  const entries: DehydratedEntry[] = await result(tx.objectStore("entries").getAll());
+  const live = referencedHashes(entries);
+  const blobs = tx.objectStore("blobs");
+  const keys = await result(blobs.getAllKeys());
+  keys.forEach(key => { if (!live.has(String(key))) blobs.delete(key); });
+  await done;
+};
+
+const writeEntries = async (next: SavedProject[], previous: SavedProject[]) => {
+  const before = new Map(previous.map(p => [p.id, p]));
+  const nextIds = new Set(next.map(p => p.id));
+  const changed = next.filter(p => before.get(p.id) !== p);
+  const removed = previous.filter(p => !nextIds.has(p.id));
+  if (changed.length === 0 && removed.length === 0) return;
+
+  const { entries, blobs } = await dehydrateEntries(changed);
+  const db = await openDb();
+  const tx = db.transaction(["entries", "blobs"], "readwrite");
+  const done = completion(tx);
+  const blobStore = tx.objectStore("blobs");
+  const existing = new Set((await result(blobStore.getAllKeys())).map(String));
+  blobs.forEach((content, hash) => { if (!existing.has(hash)) blobStore.put(content, hash); });
+  const entryStore = tx.objectStore("entries");
+  entries.forEach(entry => entryStore.put(entry));
+  removed.forEach(entry => entryStore.delete(entry.id));
+  await done;
+  // Replacing or removing an entry can orphan file bodies; pure additions cannot.
+  if (removed.length > 0 || changed.some(p => before.has(p.id))) await collectGarbage();
+};
+
+// Moves history and sync state out of localStorage the first time this version runs.
+const migrateLegacy = async () => {
+  const history = localStorage.getItem(LEGACY_HISTORY_KEY);
+  if (history) {
+    await writeEntries(JSON.parse(history), []);
+    localStorage.removeItem(LEGACY_HISTORY_KEY);
+  }
+  const sync = localStorage.getItem(LEGACY_SYNC_KEY);
+  if (sync) {
+    await writeSyncState(JSON.parse(sync));
+    localStorage.removeItem(LEGACY_SYNC_KEY);
+  }
+};
+
+const writeSyncState = async (state: HistorySyncState) => {
+  const db = await openDb();
+  const tx = db.transaction("meta", "readwrite");
+  tx.objectStore("meta").put(state, "sync");
+  await completion(tx);
+};
+
+export const loadHistory = async (): Promise<{ history: SavedProject[]; syncState: HistorySyncState | null }> => {
+  await enqueue(migrateLegacy);
+  const db = await openDb();
+  const tx = db.transaction(["entries", "blobs", "meta"], "readonly");
+  const done = completion(tx);
+  const [entries, syncState] = await Promise.all([
+    result<DehydratedEntry[]>(tx.objectStore("entries").getAll()),
+    result<HistorySyncState | undefined>(tx.objectStore("meta").get("sync")),
+  ]);
+  const blobStore = tx.objectStore("blobs");
+  const blobs = new Map<string, string>();
+  await Promise.all([...referencedHashes(entries)].map(async hash => { blobs.set(hash, await result<string>(blobStore.get(hash))); }));
+  await done;
+  return { history: hydrateEntries(entries, hash => blobs.get(hash)).sort(byNewest), syncState: syncState || null };
+};
+
+// Writes only the entries whose object identity changed since `previous`. Writes are queued so they land in call order.
+export const storeHistory = (next: SavedProject[], previous: SavedProject[]) => enqueue(() => writeEntries(next, previous));
+
+export const storeSyncState = (state: HistorySyncState) => enqueue(() => writeSyncState(state));
@@ -0,0 +1,51 @@
+import { GeneratedProject, ProjectPatch } from "../../types";
+import { LLMProvider } from "./types";
+
+const slugify = (text: string) =>
+  text.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "").slice(0, 40) || "fake-app";
+
+export const buildFakeProject = (prompt: string): GeneratedProject => ({
+  name: slugify(prompt),
+  description: `Offline placeholder app for: ${prompt.slice(0, 80)}`,
+  files: [
+    { path: "package.json", content: JSON.stringify({
+      name: slugify(prompt),
+      private: true,
+      version: "0.0.0",
+      type: "module",
+      scripts: { dev: "vite", build: "vite build", preview: "vite preview" },
+      dependencies: { react: "^18.3.1", "react-dom": "^18.3.1" },
+      devDependencies: { "@types/react": "^18.3.3", "@types/react-dom": "^18.3.0", "@vitejs/plugin-react": "^4.3.1", typescript: "^5.4.5", vite: "^5.2.11" },
+    }, null, 2) },
+    { path: "index.html", content: `<!doctype html>\n<html lang="en">\n  <head>\n    <meta charset="UTF-8" />\n    <title>Fake App</title>\n  </head>\n  <body>\n    <div id="root"></div>\n    <script type="module" src="/src/main.tsx"></script>\n  </body>\n</html>\n` },
+    { path: "vite.config.ts", content: `import { defineConfig } from 'vite'\nimport react from '@vitejs/plugin-react'\n\nexport default defineConfig({ plugins: [react()] })\n` },
+    { path: "src/main.tsx", content: `import React from 'react'\nimport ReactDOM from 'react-dom/client'\nimport App from './App'\n\nReactDOM.createRoot(document.getElementById('root')!).render(<App />)\n` },
+    { path: "src/App.tsx", content: `export default function App() {\n  return <h1>${prompt.slice(0, 60).replace(/[<>{}]/g, "")}</h1>\n}\n` },
+  ],
+});
+
+// Deterministic offline provider so the whole generate/refine/deploy flow can be exercised without network access.
+export const fakeProvider: LLMProvider = {
+  id: "fake",
+  label: "Fake (offline)",
+  defaultModel: "fake-model",
+  generateJson: async (request, _settings, onText) => {
+    if (request.signal?.aborted) throw new Error("Request aborted.");
+    const lastMessage = request.messages[request.messages.length - 1]?.content || "";
+    if (request.schemaName === "project") {
+      const text = JSON.stringify(buildFakeProject(lastMessage));
+      if (!onText) return text;
+      for (let i = 0; i < text.length; i += 64) {
+        await new Promise(resolve => setTimeout(resolve, 10));
+        if (request.signal?.aborted) throw new Error("Request aborted.");
+        onText(text.slice(i, i + 64));
+      }
+      return text;
+    }
+    const patch: ProjectPatch = {
+      summary: `Recorded the request "${lastMessage.slice(0, 60)}" in NOTES.md.`,
+      changes: [{ path: "NOTES.md", type: "add", content: `# Notes\n\n- ${lastMessage}\n` }],
+    };
+    return JSON.stringify(patch);
+  },
+};
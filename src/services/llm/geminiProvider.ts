@@ -0,0 +1,49 @@
+import { GoogleGenAI, Type, Schema } from "@google/genai";
+import { JsonSchema, LLMProvider } from "./types";
+
+const toGeminiSchema = (schema: JsonSchema): Schema => ({
+  type: schema.type.toUpperCase() as Type,
+  description: schema.description,
+  enum: schema.enum,
+  required: schema.required,
+  items: schema.items ? toGeminiSchema(schema.items) : undefined,
+  properties: schema.properties
+    ? Object.fromEntries(Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)]))
+    : undefined,
+});
+
+export const geminiProvider: LLMProvider = {
+  id: "gemini",
+  label: "Google Gemini",
+  defaultModel: "gemini-2.0-flash",
+  generateJson: async (request, settings, onText) => {
+    const apiKey = settings.apiKey || process.env.API_KEY;
+    if (!apiKey) {
+      throw new Error("Gemini API Key is missing from environment variables.");
+    }
+    const ai = new GoogleGenAI({ apiKey });
+    const params = {
+      model: settings.model,
+      contents: request.messages.map(m => ({ role: m.role, parts: [{ text: m.content }] })),
+      config: {
+        systemInstruction: request.systemInstruction,
+        responseMimeType: "application/json",
+        responseSchema: toGeminiSchema(request.schema),
+        temperature: settings.temperature,
+        abortSignal: request.signal,
+      },
+    };
+    let text = "";
+    if (onText) {
+      for await (const chunk of await ai.models.generateContentStream(params)) {
+        if (!chunk.text) continue;
+        text += chunk.text;
+        onText(chunk.text);
+      }
+    } else {
+      text = (await ai.models.generateContent(params)).text || "";
+    }
+    if (!text) throw new Error("No response from AI.");
+    return text;
+  },
+};
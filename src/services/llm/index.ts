@@ -0,0 +1,27 @@
+import { LLMProviderId, LLMSettings } from "../../types";
+import { LLMProvider } from "./types";
+import { geminiProvider } from "./geminiProvider";
+import { openaiProvider } from "./openaiProvider";
+import { ollamaProvider } from "./ollamaProvider";
+import { fakeProvider } from "./fakeProvider";
+
+export type { JsonSchema, LLMMessage, LLMProvider, LLMRequest } from "./types";
+
+export const PROVIDERS: Record<LLMProviderId, LLMProvider> = {
+  gemini: geminiProvider,
+  openai: openaiProvider,
+  ollama: ollamaProvider,
+  fake: fakeProvider,
+};
+
+export const DEFAULT_LLM_SETTINGS: LLMSettings = {
+  provider: "gemini",
+  model: geminiProvider.defaultModel,
+  temperature: 0.2,
+};
+
+export const getProvider = (id: LLMProviderId): LLMProvider => {
+  const provider = PROVIDERS[id];
+  if (!provider) throw new Error(`Unknown LLM provider "${id}".`);
+  return provider;
+};
@@ -0,0 +1,43 @@
+import { LLMProvider } from "./types";
+import { readLines } from "./readLines";
+
+// Local Ollama-style server; structured output is requested by passing the JSON Schema as `format`.
+export const ollamaProvider: LLMProvider = {
+  id: "ollama",
+  label: "Ollama (local)",
+  defaultModel: "llama3.1",
+  defaultBaseUrl: "http://localhost:11434",
+  generateJson: async (request, settings, onText) => {
+    const baseUrl = (settings.baseUrl || ollamaProvider.defaultBaseUrl!).replace(/\/+$/, "");
+    const response = await fetch(`${baseUrl}/api/chat`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        model: settings.model,
+        stream: !!onText,
+        format: request.schema,
+        options: { temperature: settings.temperature },
+        messages: [
+          { role: "system", content: request.systemInstruction },
+          ...request.messages.map(m => ({ role: m.role === "model" ? "assistant" : "user", content: m.content })),
+        ],
+      }),
+      signal: request.signal,
+    });
+    if (!response.ok) {
+      const err = await response.json().catch(() => ({}));
+      throw new Error(`Ollama Error (${response.status}): ${err.error || response.statusText}`);
+    }
+    let text = "";
+    if (onText) {
+      await readLines(response, line => {
+        const chunk = JSON.parse(line).message?.content;
+        if (chunk) { text += chunk; onText(chunk); }
+      });
+    } else {
+      text = (await response.json()).message?.content || "";
+    }
+    if (!text) throw new Error("No response from AI.");
+    return text;
+  },
+};
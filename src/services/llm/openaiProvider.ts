@@ -0,0 +1,56 @@
+import { LLMProvider, LLMRequest } from "./types";
+import { readLines } from "./readLines";
+
+const toChatMessages = (request: LLMRequest, systemSuffix = "") => [
+  { role: "system", content: request.systemInstruction + systemSuffix },
+  ...request.messages.map(m => ({ role: m.role === "model" ? "assistant" : "user", content: m.content })),
+];
+
+// Works with OpenAI and any endpoint that mirrors its /chat/completions API.
+// Endpoints without json_schema support get a retry in plain JSON mode with the schema inlined.
+export const openaiProvider: LLMProvider = {
+  id: "openai",
+  label: "OpenAI-compatible",
+  defaultModel: "gpt-4o-mini",
+  defaultBaseUrl: "https://api.openai.com/v1",
+  generateJson: async (request, settings, onText) => {
+    const baseUrl = (settings.baseUrl || openaiProvider.defaultBaseUrl!).replace(/\/+$/, "");
+    const send = (body: Record<string, unknown>) => fetch(`${baseUrl}/chat/completions`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(settings.apiKey ? { Authorization: `Bearer ${settings.apiKey}` } : {}),
+      },
+      body: JSON.stringify({ model: settings.model, temperature: settings.temperature, stream: !!onText, ...body }),
+      signal: request.signal,
+    });
+
+    let response = await send({
+      messages: toChatMessages(request),
+      response_format: { type: "json_schema", json_schema: { name: request.schemaName, schema: request.schema } },
+    });
+    if (response.status === 400) {
+      response = await send({
+        messages: toChatMessages(request, `\nRespond with a single JSON object matching this JSON Schema:\n${JSON.stringify(request.schema)}`),
+        response_format: { type: "json_object" },
+      });
+    }
+    if (!response.ok) {
+      const err = await response.json().catch(() => ({}));
+      throw new Error(`OpenAI-compatible API Error (${response.status}): ${err.error?.message || response.statusText}`);
+    }
+    let text = "";
+    if (onText) {
+      await readLines(response, line => {
+        const payload = line.replace(/^data:\s*/, "");
+        if (!line.startsWith("data:") || payload === "[DONE]") return;
+        const chunk = JSON.parse(payload).choices?.[0]?.delta?.content;
+        if (chunk) { text += chunk; onText(chunk); }
+      });
+    } else {
+      text = (await response.json()).choices?.[0]?.message?.content || "";
+    }
+    if (!text) throw new Error("No response from AI.");
+    return text;
+  },
+};
@@ -0,0 +1,15 @@
+export const readLines = async (response: Response, onLine: (line: string) => void) => {
+  if (!response.body) throw new Error("Streaming is not supported by this endpoint.");
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split("\n");
+    buffer = lines.pop() || "";
+    lines.forEach(line => { if (line.trim()) onLine(line.trim()); });
+  }
+  if (buffer.trim()) onLine(buffer.trim());
+};
@@ -0,0 +1,32 @@
+import { LLMProviderId, LLMSettings } from "../../types";
+
+export interface JsonSchema {
+  type: "object" | "array" | "string" | "number" | "integer" | "boolean";
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  items?: JsonSchema;
+  required?: string[];
+  enum?: string[];
+}
+
+export interface LLMMessage {
+  role: "user" | "model";
+  content: string;
+}
+
+export interface LLMRequest {
+  schemaName: string;
+  schema: JsonSchema;
+  systemInstruction: string;
+  messages: LLMMessage[];
+  signal?: AbortSignal;
+}
+
+export interface LLMProvider {
+  id: LLMProviderId;
+  label: string;
+  defaultModel: string;
+  defaultBaseUrl?: string;
+  // When `onText` is given the provider streams and reports each text chunk as it arrives.
+  generateJson: (request: LLMRequest, settings: LLMSettings, onText?: (chunk: string) => void) => Promise<string>;
+}
@@ -0,0 +1,82 @@
+import { FileNode, GeneratedProject, StackFrameworkId, StackProfile } from "../types";
+import { ParsedPaste, parsePaste } from "../utils/pasteParser";
+import { detectStack, getFramework } from "./stacks";
+import { stackScaffold } from "./stacks/scaffold";
+import { importedPackages } from "./validationService";
+import { packageJsonName } from "./archiveService";
+
+export interface PastePlan {
+  parsed: ParsedPaste;
+  stack: StackProfile;
+  // Paths added from the local scaffold because the paste lacks them.
+  scaffolded: string[];
+  // Why the model has to structure the paste; empty when it can be used as split.
+  problems: string[];
+  // The project as split locally; null when there are problems.
+  project: GeneratedProject | null;
+}
+
+const APP_COMPONENTS: Record<StackFrameworkId, RegExp | null> = {
+  react: /^src\/App\.(tsx|jsx|ts|js)$/,
+  vue: /^src\/App\.vue$/,
+  svelte: /^src\/App\.svelte$/,
+  vanilla: null,
+};
+
+// Config files count as present in any of their extensions, e.g. a pasted vite.config.js replaces vite.config.ts.
+const fileKey = (path: string) => (/^[\w-]+\.config\.[cm]?[jt]s$/.test(path) ? path.replace(/\.[cm]?[jt]s$/, "") : path);
+
+const inferFramework = (files: FileNode[], fallback: StackFrameworkId): StackFrameworkId => {
+  if (files.some(f => f.path.endsWith(".vue"))) return "vue";
+  if (files.some(f => f.path.endsWith(".svelte"))) return "svelte";
+  if (files.some(f => /\.(tsx|jsx)$/.test(f.path) || /from\s+["']react["']/.test(f.content))) return "react";
+  return files.some(f => /\.[cm]?[jt]s$/.test(f.path)) ? "vanilla" : fallback;
+};
+
+// The module index.html loads: from a pasted index.html, or a pasted src/main.* file.
+const ownEntry = (files: FileNode[]) => {
+  const html = files.find(f => f.path === "index.html")?.content || "";
+  const fromHtml = html.match(/<script\b[^>]*?src=["']\/?([^"']+)["']/)?.[1];
+  if (fromHtml && files.some(f => f.path === fromHtml)) return fromHtml;
+  return files.find(f => /^src\/main\.(tsx|jsx|ts|js)$/.test(f.path))?.path;
+};
+
+// Splits a paste locally and completes it with the stack's scaffold; the model is only needed when `problems` is not empty.
+export const planPaste = (text: string, preferred: StackProfile): PastePlan => {
+  const parsed = parsePaste(text);
+  const pasted: FileNode[] = parsed.files.map(f => ({ path: f.path, content: f.content }));
+  const name = packageJsonName(pasted) || "pasted-app";
+  const packages = importedPackages(pasted);
+
+  const framework = getFramework(inferFramework(pasted, preferred.framework));
+  const stack: StackProfile = pasted.some(f => f.path === "package.json")
+    ? detectStack({ name, description: "", files: pasted })
+    : {
+      ...preferred,
+      framework: framework.id,
+      router: framework.routers.find(r => packages.includes(r.id))?.id || "none",
+      state: framework.stateLibraries.find(s => packages.includes(s.id))?.id || "none",
+    };
+
+  const entry = ownEntry(pasted);
+  const problems = [...parsed.problems];
+  const appComponent = APP_COMPONENTS[stack.framework];
+  if (parsed.files.length > 0 && !entry && appComponent && !pasted.some(f => appComponent.test(f.path))) {
+    problems.push(`Neither an entry module nor the ${getFramework(stack.framework).label} App component was found.`);
+  }
+
+  const present = new Set(pasted.map(f => fileKey(f.path)));
+  const scaffold = stackScaffold(stack, name, { title: name, entry, dependencies: packages })
+    .filter(f => !present.has(fileKey(f.path)));
+  return {
+    parsed,
+    stack,
+    scaffolded: scaffold.map(f => f.path),
+    problems,
+    project: problems.length > 0 ? null : {
+      name,
+      description: "Split locally from pasted code.",
+      files: [...pasted, ...scaffold].sort((a, b) => a.path.localeCompare(b.path)),
+    },
+  };
+};
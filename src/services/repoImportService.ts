@@ -0,0 +1,67 @@
+import { DeploymentLink, FileNode, GeneratedProject } from "../types";
+import { getBlobBytes, getRepoTree, GithubRepoSummary } from "./githubService";
+import { isIgnoredPath, packageJsonName } from "./archiveService";
+import { fileNodeFromBytes, formatBytes, mimeTypeOf, MAX_ASSET_BYTES } from "../utils/assets";
+
+// Every file is one API request, so the limits are tighter than for ZIP imports.
+const MAX_REPO_FILES = 500;
+const MAX_REPO_BYTES = 10 * 1024 * 1024;
+const MAX_FILE_BYTES = 512 * 1024;
+// Skipped without downloading unless they are web assets (images, fonts, media), which are imported as base64.
+const BINARY_EXTENSIONS = new Set([
+  "png", "jpg", "jpeg", "gif", "webp", "avif", "ico", "bmp", "tiff", "psd",
+  "woff", "woff2", "ttf", "otf", "eot", "mp3", "mp4", "wav", "ogg", "webm", "mov",
+  "pdf", "zip", "gz", "tgz", "tar", "7z", "rar", "jar", "wasm", "exe", "dll", "so", "dylib", "bin",
+]);
+
+export interface ImportedRepo {
+  project: GeneratedProject;
+  // Links the project to the repository so deploys update it; only set when the token can push to it.
+  deployment?: DeploymentLink;
+  // Paths left out of the import, with the reason.
+  skipped: string[];
+}
+
+const isBinaryPath = (path: string) => BINARY_EXTENSIONS.has(path.split(".").pop()!.toLowerCase());
+const isAssetPath = (path: string) => mimeTypeOf(path) !== "application/octet-stream";
+
+// Loads the text files and web assets of a branch as a project, without an AI round-trip.
+export const importProjectFromRepo = async (token: string, repo: GithubRepoSummary, branch: string, onProgress: (msg: string) => void): Promise<ImportedRepo> => {
+  onProgress(`Listing files on ${repo.owner}/${repo.name}@${branch}...`);
+  const tree = await getRepoTree(token, repo.owner, repo.name, branch);
+  if (tree.truncated) throw new Error(`${repo.owner}/${repo.name} is too large for GitHub to list in one request.`);
+
+  const skipped: string[] = [];
+  const wanted = tree.files.filter(f => {
+    if (isIgnoredPath(f.path)) return false;
+    if (isBinaryPath(f.path) && !isAssetPath(f.path)) { skipped.push(`${f.path} (binary)`); return false; }
+    if (isBinaryPath(f.path) && f.size > MAX_ASSET_BYTES) { skipped.push(`${f.path} (asset larger than ${formatBytes(MAX_ASSET_BYTES)})`); return false; }
+    if (!isBinaryPath(f.path) && f.size > MAX_FILE_BYTES) { skipped.push(`${f.path} (larger than ${MAX_FILE_BYTES / 1024} KB)`); return false; }
+    return true;
+  });
+  if (wanted.length > MAX_REPO_FILES) throw new Error(`The branch has ${wanted.length} files to import; at most ${MAX_REPO_FILES} can be imported.`);
+  const total = wanted.reduce((sum, f) => sum + f.size, 0);
+  if (total > MAX_REPO_BYTES) throw new Error(`The branch has ${(total / 1024 / 1024).toFixed(1)} MB of files; at most ${MAX_REPO_BYTES / 1024 / 1024} MB can be imported.`);
+
+  const files: FileNode[] = [];
+  for (const [index, file] of wanted.entries()) {
+    onProgress(`Downloading ${index + 1}/${wanted.length}: ${file.path}`);
+    const bytes = await getBlobBytes(token, repo.owner, repo.name, file.sha);
+    files.push(fileNodeFromBytes(file.path, bytes));
+  }
+  if (files.length === 0) throw new Error(`${repo.owner}/${repo.name}@${branch} contains no files to import.`);
+  const imported = new Set(files.map(f => f.path));
+
+  return {
+    project: {
+      name: packageJsonName(files) || repo.name,
+      description: `Imported from ${repo.owner}/${repo.name}@${branch}`,
+      files: files.sort((a, b) => a.path.localeCompare(b.path)),
+    },
+    deployment: repo.canPush ? {
+      repoOwner: repo.owner, repoName: repo.name, repoUrl: repo.htmlUrl, repoId: repo.id, branch, lastCommitSha: tree.commitSha,
+      keepPaths: [...tree.files.map(f => f.path).filter(path => !imported.has(path)), ...tree.links],
+    } : undefined,
+    skipped,
+  };
+};
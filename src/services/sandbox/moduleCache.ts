@@ -0,0 +1,27 @@
+// Local module cache for the build sandbox: CommonJS sources of the packages generated apps
+// use by default, shipped with this app as lazily loaded raw chunks so verification works offline.
+// Paths are relative because these files are not part of the packages' public "exports".
+const loaders: Record<string, () => Promise<{ default: string }>> = {
+  "react": () => import("../../../node_modules/react/cjs/react.production.min.js?raw"),
+  "react/jsx-runtime": () => import("../../../node_modules/react/cjs/react-jsx-runtime.production.min.js?raw"),
+  "react-dom": () => import("../../../node_modules/react-dom/cjs/react-dom.production.min.js?raw"),
+  "react-dom/client": () => import("../../../node_modules/react-dom/client.js?raw"),
+  "scheduler": () => import("../../../node_modules/scheduler/cjs/scheduler.production.min.js?raw"),
+  "lucide-react": () => import("../../../node_modules/lucide-react/dist/cjs/lucide-react.js?raw"),
+  "clsx": () => import("../../../node_modules/clsx/dist/clsx.js?raw"),
+  "tailwind-merge": () => import("../../../node_modules/tailwind-merge/dist/bundle-cjs.js?raw"),
+};
+
+const cache = new Map<string, string>();
+
+export const isCachedModule = (specifier: string) => specifier in loaders;
+
+export const cachedModuleNames = () => Object.keys(loaders);
+
+export const loadCachedModule = async (specifier: string): Promise<string> => {
+  const hit = cache.get(specifier);
+  if (hit !== undefined) return hit;
+  const source = (await loaders[specifier]()).default;
+  cache.set(specifier, source);
+  return source;
+};
@@ -0,0 +1,146 @@
+import * as esbuild from "esbuild-wasm";
+import wasmURL from "esbuild-wasm/esbuild.wasm?url";
+import { GeneratedProject, SandboxDiagnostic, VerificationResult } from "../types";
+import { isBareSpecifier, packageNameOf, resolveImportPath } from "./validationService";
+import { isCachedModule, loadCachedModule } from "./sandbox/moduleCache";
+import { fileBytes, isBinaryFile, mimeTypeOf } from "../utils/assets";
+
+let initPromise: Promise<void> | null = null;
+
+const ensureEsbuild = () => {
+  if (!initPromise) {
+    initPromise = esbuild.initialize({ wasmURL, worker: true }).catch(e => { initPromise = null; throw e; });
+  }
+  return initPromise;
+};
+
+const loaderFor = (path: string): esbuild.Loader => {
+  const ext = path.split(".").pop()?.toLowerCase() || "";
+  if (["ts", "tsx", "js", "jsx", "json", "css"].includes(ext)) return ext as esbuild.Loader;
+  if (ext === "mjs" || ext === "cjs") return "js";
+  // Images, fonts and media (including SVG) are inlined, as Vite would emit them as URLs.
+  if (mimeTypeOf(path) !== "application/octet-stream") return "dataurl";
+  return "text";
+};
+
+const stubModule = (name: string) => `
+  const missing = () => { throw new Error(${JSON.stringify(`Package "${name}" is not available in the offline sandbox.`)}); };
+  module.exports = new Proxy(missing, { get: (target, key) => key === "__esModule" ? false : key in target ? target[key] : missing });
+`;
+
+const toDiagnostic = (message: esbuild.Message, severity: SandboxDiagnostic["severity"]): SandboxDiagnostic => ({
+  severity,
+  message: message.text,
+  path: message.location?.file.replace(/^project:/, ""),
+  line: message.location?.line,
+  column: message.location?.column,
+});
+
+const findEntry = (project: GeneratedProject, paths: Set<string>) => {
+  const html = project.files.find(f => f.path === "index.html")?.content || "";
+  const match = html.match(/<script\b[^>]*type=["']module["'][^>]*src=["']([^"']+)["']/) || html.match(/<script\b[^>]*src=["']([^"']+)["'][^>]*type=["']module["']/);
+  return (match && resolveImportPath(paths, "index.html", match[1])) || resolveImportPath(paths, "index.html", "/src/main");
+};
+
+const buildPreviewHtml = (indexHtml: string | undefined, js: string, css: string) => {
+  const base = indexHtml || `<!doctype html><html><head></head><body><div id="root"></div></body></html>`;
+  const errorBridge = `<script>
+    const report = (message) => parent.postMessage({ source: "autodeploy-sandbox", message: String(message) }, "*");
+    window.addEventListener("error", (e) => report(e.message));
+    window.addEventListener("unhandledrejection", (e) => report(e.reason && e.reason.message || e.reason));
+  </script>`;
+  const withoutLocalScripts = base.replace(/<script\b[^>]*src=["'](?!https?:)[^"']*["'][^>]*>\s*<\/script>/gi, "");
+  const head = `${errorBridge}<style>${css}</style>`;
+  const body = `<script>${js.replace(/<\/script/gi, "<\\/script")}</script>`;
+  const withHead = /<\/head>/i.test(withoutLocalScripts) ? withoutLocalScripts.replace(/<\/head>/i, () => `${head}</head>`) : head + withoutLocalScripts;
+  return /<\/body>/i.test(withHead) ? withHead.replace(/<\/body>/i, () => `${body}</body>`) : withHead + body;
+};
+
+// Bundles the project in-browser with esbuild-wasm. Relative imports resolve against the project files,
+// packages resolve from the local module cache, and anything else is stubbed with a warning.
+// esbuild strips types without checking them, so this reports syntax, resolution and bundling errors only.
+export const verifyProject = async (project: GeneratedProject): Promise<VerificationResult> => {
+  const startedAt = Date.now();
+  const files = new Map(project.files.map(f => [f.path, f]));
+  const paths = new Set(files.keys());
+  const diagnostics: SandboxDiagnostic[] = [];
+
+  const entry = findEntry(project, paths);
+  if (!entry) {
+    return { ok: false, durationMs: Date.now() - startedAt, diagnostics: [{ severity: "error", path: "index.html", message: "Could not find the module entry point (e.g. src/main.tsx)." }] };
+  }
+  if (project.files.some(f => f.path.endsWith(".css") && f.content.includes("@tailwind"))) {
+    diagnostics.push({ severity: "warning", message: "Tailwind utilities are not compiled in the offline preview; styling will look unfinished." });
+  }
+  const component = project.files.find(f => f.path.endsWith(".vue") || f.path.endsWith(".svelte"));
+  if (component) {
+    diagnostics.push({ severity: "warning", path: component.path, message: "Vue and Svelte components are not compiled in the offline sandbox; only plain script modules are checked and the preview will not render." });
+  }
+
+  await ensureEsbuild();
+  const stubbed = new Set<string>();
+  const plugin: esbuild.Plugin = {
+    name: "autodeploy-sandbox",
+    setup(build) {
+      build.onResolve({ filter: /.*/ }, args => {
+        if (args.kind === "entry-point") return { path: args.path, namespace: "project" };
+        const specifier = args.path.split("?")[0];
+        if (/^(https?:)?\/\//.test(specifier) || specifier.startsWith("data:")) return { path: specifier, external: true };
+        if (specifier.startsWith(".") || specifier.startsWith("/") || specifier.startsWith("@/")) {
+          const normalized = specifier.startsWith("@/") ? `/src/${specifier.slice(2)}` : specifier;
+          const resolved = resolveImportPath(paths, args.importer, normalized);
+          if (resolved) return { path: resolved, namespace: "project" };
+          if (args.kind === "url-token" || args.kind === "import-rule") return { path: specifier, external: true };
+          return { errors: [{ text: `Cannot resolve "${specifier}" from ${args.importer}.` }] };
+        }
+        if (isCachedModule(specifier)) return { path: specifier, namespace: "cache" };
+        if (isBareSpecifier(specifier)) return { path: packageNameOf(specifier), namespace: "stub" };
+        return { errors: [{ text: `Unsupported import "${specifier}".` }] };
+      });
+      build.onLoad({ filter: /.*/, namespace: "project" }, args => {
+        const file = files.get(args.path);
+        if (file && isBinaryFile(file)) return { contents: fileBytes(file), loader: "dataurl" };
+        return { contents: file?.content ?? "", loader: loaderFor(args.path) };
+      });
+      build.onLoad({ filter: /.*/, namespace: "cache" }, async args => ({ contents: await loadCachedModule(args.path), loader: "js" }));
+      build.onLoad({ filter: /.*/, namespace: "stub" }, args => {
+        if (!stubbed.has(args.path)) {
+          stubbed.add(args.path);
+          diagnostics.push({ severity: "warning", message: `"${args.path}" is not in the local module cache; it is stubbed in the preview.` });
+        }
+        return { contents: stubModule(args.path), loader: "js" };
+      });
+    },
+  };
+
+  try {
+    const result = await esbuild.build({
+      entryPoints: [entry],
+      bundle: true,
+      write: false,
+      format: "iife",
+      outdir: "out",
+      jsx: "automatic",
+      target: "es2020",
+      minify: true,
+      logLevel: "silent",
+      define: {
+        "process.env.NODE_ENV": JSON.stringify("production"),
+        "import.meta.env": JSON.stringify({ MODE: "production", DEV: false, PROD: true, BASE_URL: "/" }),
+      },
+      plugins: [plugin],
+    });
+    result.warnings.forEach(w => diagnostics.push(toDiagnostic(w, "warning")));
+    const js = result.outputFiles.find(f => f.path.endsWith(".js"))?.text || "";
+    const css = result.outputFiles.find(f => f.path.endsWith(".css"))?.text || "";
+    return { ok: true, diagnostics, previewHtml: buildPreviewHtml(files.get("index.html")?.content, js, css), durationMs: Date.now() - startedAt };
+  } catch (e: any) {
+    if (Array.isArray(e?.errors)) {
+      e.errors.forEach((err: esbuild.Message) => diagnostics.push(toDiagnostic(err, "error")));
+      (e.warnings || []).forEach((w: esbuild.Message) => diagnostics.push(toDiagnostic(w, "warning")));
+    } else {
+      diagnostics.push({ severity: "error", message: e instanceof Error ? e.message : "The sandbox build failed." });
+    }
+    return { ok: false, diagnostics, durationMs: Date.now() - startedAt };
+  }
+};
@@ -0,0 +1,120 @@
+import { GeneratedProject, PackageManager, StackFrameworkId, StackProfile, StackStyling } from "../../types";
+import { StackFramework } from "./types";
+import { reactFramework } from "./react";
+import { vueFramework } from "./vue";
+import { svelteFramework } from "./svelte";
+import { vanillaFramework } from "./vanilla";
+
+export type { LibraryOption, StackFramework } from "./types";
+
+export const STACK_FRAMEWORKS: Record<StackFrameworkId, StackFramework> = {
+  react: reactFramework,
+  vue: vueFramework,
+  svelte: svelteFramework,
+  vanilla: vanillaFramework,
+};
+
+// `requires` is the package validation expects to find for the option.
+export const STYLING_OPTIONS: Record<StackStyling, { label: string; requires?: string; dependencies: string[]; devDependencies: string[]; rule: string }> = {
+  tailwind: { label: "Tailwind CSS", requires: "tailwindcss", dependencies: ["clsx", "tailwind-merge"], devDependencies: ["tailwindcss", "postcss", "autoprefixer"], rule: "Tailwind CSS utility classes, with 'tailwind.config.js', 'postcss.config.js' and the @tailwind directives in 'src/index.css'." },
+  css: { label: "Plain CSS", dependencies: [], devDependencies: [], rule: "Plain CSS files imported from the entry or the components; no CSS framework." },
+  "css-modules": { label: "CSS Modules", dependencies: [], devDependencies: [], rule: "CSS Modules ('*.module.css') scoped per component, plus one global 'src/index.css'." },
+  scss: { label: "Sass", requires: "sass", dependencies: [], devDependencies: ["sass"], rule: "Sass ('*.scss') stylesheets; no CSS framework." },
+};
+
+export const PACKAGE_MANAGERS: PackageManager[] = ["npm", "pnpm", "yarn", "bun"];
+export const NODE_VERSIONS = ["18", "20", "22"];
+
+export const LOCKFILES: Record<PackageManager, string> = {
+  npm: "package-lock.json",
+  pnpm: "pnpm-lock.yaml",
+  yarn: "yarn.lock",
+  bun: "bun.lock",
+};
+
+// Every stack builds with Vite into the same folder.
+export const OUTPUT_DIR = "dist";
+
+export const DEFAULT_STACK: StackProfile = {
+  framework: "react",
+  styling: "tailwind",
+  router: "none",
+  state: "none",
+  packageManager: "npm",
+  nodeVersion: "20",
+};
+
+export const getFramework = (id: StackFrameworkId): StackFramework => {
+  const framework = STACK_FRAMEWORKS[id];
+  if (!framework) throw new Error(`Unknown framework "${id}".`);
+  return framework;
+};
+
+// Generated repos have no lockfile, so pnpm must not insist on a frozen one.
+export const installCommand = (pm: PackageManager) => (pm === "pnpm" ? "pnpm install --no-frozen-lockfile" : `${pm} install`);
+
+export const runScript = (pm: PackageManager, script: string, args = "") =>
+  [pm === "npm" ? `npm run ${script}` : `${pm} run ${script}`, args && (pm === "npm" ? `-- ${args}` : args)].filter(Boolean).join(" ");
+
+// For hosts that always run their own npm install first: other package managers install again before building.
+export const hostBuildCommand = (stack: StackProfile) =>
+  stack.packageManager === "npm" ? runScript("npm", "build") : `${installCommand(stack.packageManager)} && ${runScript(stack.packageManager, "build")}`;
+
+const libraryLabel = (options: { id: string; label: string }[], id: string) => options.find(o => o.id === id)?.label || id;
+
+export const stackSummary = (stack: StackProfile) => {
+  const framework = getFramework(stack.framework);
+  return [
+    framework.label,
+    STYLING_OPTIONS[stack.styling].label,
+    stack.router !== "none" && libraryLabel(framework.routers, stack.router),
+    stack.state !== "none" && libraryLabel(framework.stateLibraries, stack.state),
+    stack.packageManager,
+    `Node ${stack.nodeVersion}`,
+  ].filter(Boolean).join(" · ");
+};
+
+// The TECHNICAL STACK RULES block of the generation prompt.
+export const stackRules = (stack: StackProfile) => {
+  const framework = getFramework(stack.framework);
+  const styling = STYLING_OPTIONS[stack.styling];
+  const dependencies = [...framework.dependencies, framework.icons, ...styling.dependencies, stack.router, stack.state].filter(d => d !== "none");
+  const devDependencies = ["vite", "typescript", ...framework.devDependencies, ...styling.devDependencies];
+  const list = (names: string[]) => names.map(n => `'${n}'`).join(", ");
+  return [
+    `Framework: Vite + ${framework.label} + TypeScript. ${framework.rules.join(" ")}`,
+    `Styling: ${styling.rule}`,
+    `Icons: '${framework.icons}'.`,
+    stack.router !== "none" ? `Routing: use '${stack.router}' for client-side routes.` : "Routing: a single page; do not add a router.",
+    stack.state !== "none" ? `State: use '${stack.state}' for shared state.` : `State: ${framework.label}'s built-in state only; no state library.`,
+    `Dependencies: 'package.json' includes: ${list(dependencies) || "nothing beyond the dev tooling"}. Dev: ${list(devDependencies)}.`,
+    `Tooling: the project is installed with ${stack.packageManager} on Node ${stack.nodeVersion}; set "engines": { "node": ">=${stack.nodeVersion}" } and do not add lockfiles.`,
+  ].map((rule, i) => `${i + 1}.  ${rule}`).join("\n      ");
+};
+
+const readPackageJson = (project: GeneratedProject) => {
+  try { return JSON.parse(project.files.find(f => f.path === "package.json")?.content || "null"); } catch (e) { return null; }
+};
+
+// Best-effort profile for projects without a recorded one (imports, templates, entries from before profiles existed).
+export const detectStack = (project: GeneratedProject): StackProfile => {
+  const pkg = readPackageJson(project);
+  if (!pkg) return DEFAULT_STACK;
+  const deps = new Set([...Object.keys(pkg.dependencies || {}), ...Object.keys(pkg.devDependencies || {})]);
+  const framework = deps.has("react") ? reactFramework : deps.has("vue") ? vueFramework : deps.has("svelte") ? svelteFramework : vanillaFramework;
+  const paths = project.files.map(f => f.path);
+  const styling: StackStyling = deps.has("tailwindcss") ? "tailwind" : deps.has("sass") ? "scss" : paths.some(p => p.endsWith(".module.css")) ? "css-modules" : "css";
+  const declaredManager = typeof pkg.packageManager === "string" ? pkg.packageManager.split("@")[0] : "";
+  const packageManager = PACKAGE_MANAGERS.find(pm => pm === declaredManager)
+    || PACKAGE_MANAGERS.find(pm => paths.includes(LOCKFILES[pm]))
+    || DEFAULT_STACK.packageManager;
+  const nodeMajor = String(pkg.engines?.node || "").match(/\d+/)?.[0];
+  return {
+    framework: framework.id,
+    styling,
+    router: framework.routers.find(r => deps.has(r.id))?.id || "none",
+    state: framework.stateLibraries.find(s => deps.has(s.id))?.id || "none",
+    packageManager,
+    nodeVersion: nodeMajor && NODE_VERSIONS.includes(nodeMajor) ? nodeMajor : DEFAULT_STACK.nodeVersion,
+  };
+};
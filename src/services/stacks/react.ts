@@ -0,0 +1,34 @@
+import { StackFramework } from "./types";
+
+export const reactFramework: StackFramework = {
+  id: "react",
+  label: "React",
+  entry: "src/main.tsx",
+  dependencies: ["react", "react-dom"],
+  devDependencies: ["@vitejs/plugin-react", "@types/react", "@types/react-dom"],
+  vitePlugin: "@vitejs/plugin-react",
+  icons: "lucide-react",
+  routers: [{ id: "react-router-dom", label: "React Router" }],
+  stateLibraries: [
+    { id: "zustand", label: "Zustand" },
+    { id: "@reduxjs/toolkit", label: "Redux Toolkit" },
+    { id: "jotai", label: "Jotai" },
+  ],
+  rules: ["Function components and hooks; 'src/main.tsx' mounts <App /> from 'src/App.tsx' into #root."],
+  scaffold: {
+    mountId: "root",
+    pluginImport: "react",
+    entrySource: stylesheet => `import React from 'react'
+import ReactDOM from 'react-dom/client'
+import App from './App'
+import './${stylesheet}'
+
+ReactDOM.createRoot(document.getElementById('root')!).render(
+  <React.StrictMode>
+    <App />
+  </React.StrictMode>,
+)
+`,
+    files: [{ path: "src/vite-env.d.ts", content: "/// <reference types=\"vite/client\" />\n" }],
+  },
+};
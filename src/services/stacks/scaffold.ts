@@ -0,0 +1,131 @@
+import { FileNode, StackProfile } from "../../types";
+import { getFramework, STYLING_OPTIONS } from "./index";
+
+// Versions the local scaffold pins; packages not listed here are added as "latest".
+const PACKAGE_VERSIONS: Record<string, string> = {
+  react: "^18.3.1",
+  "react-dom": "^18.3.1",
+  "@types/react": "^18.3.3",
+  "@types/react-dom": "^18.3.0",
+  "@vitejs/plugin-react": "^4.3.1",
+  "react-router-dom": "^6.23.1",
+  zustand: "^4.5.2",
+  "@reduxjs/toolkit": "^2.2.5",
+  jotai: "^2.8.3",
+  vue: "^3.4.27",
+  "@vitejs/plugin-vue": "^5.0.5",
+  "vue-tsc": "^2.0.21",
+  "vue-router": "^4.3.3",
+  pinia: "^2.1.7",
+  svelte: "^4.2.18",
+  "@sveltejs/vite-plugin-svelte": "^3.1.1",
+  "@tsconfig/svelte": "^5.0.4",
+  "svelte-spa-router": "^4.0.1",
+  "lucide-react": "^0.441.0",
+  "lucide-vue-next": "^0.441.0",
+  "lucide-svelte": "^0.441.0",
+  lucide: "^0.441.0",
+  clsx: "^2.1.1",
+  "tailwind-merge": "^2.3.0",
+  tailwindcss: "^3.4.4",
+  postcss: "^8.4.38",
+  autoprefixer: "^10.4.19",
+  sass: "^1.77.4",
+  typescript: "^5.4.5",
+  vite: "^5.2.11",
+};
+
+const versions = (names: string[]) =>
+  Object.fromEntries([...new Set(names)].sort().map(name => [name, PACKAGE_VERSIONS[name] || "latest"]));
+
+export const stylesheetPath = (stack: StackProfile) => (stack.styling === "scss" ? "src/index.scss" : "src/index.css");
+
+export interface ScaffoldOptions {
+  title: string;
+  // The project's own entry module; without one the framework's entry and stylesheet are scaffolded.
+  entry?: string;
+  // Packages the project imports, added to the dependencies.
+  dependencies?: string[];
+}
+
+// Every file a Vite project of this stack needs around the app code. Callers keep only the ones the project lacks.
+export const stackScaffold = (stack: StackProfile, name: string, options: ScaffoldOptions): FileNode[] => {
+  const framework = getFramework(stack.framework);
+  const styling = STYLING_OPTIONS[stack.styling];
+  const { scaffold } = framework;
+  const entry = options.entry || framework.entry;
+  const stylesheet = stylesheetPath(stack);
+  const devDependencies = ["vite", "typescript", ...framework.devDependencies, ...styling.devDependencies];
+  const dependencies = [...framework.dependencies, ...styling.dependencies, ...(options.dependencies || [])].filter(d => !devDependencies.includes(d));
+  const plugin = framework.vitePlugin && scaffold.pluginImport ? { from: framework.vitePlugin, clause: scaffold.pluginImport, call: scaffold.pluginImport.replace(/[{}\s]/g, "") } : null;
+
+  const files: FileNode[] = [
+    { path: "package.json", content: JSON.stringify({
+      name,
+      private: true,
+      version: "0.1.0",
+      type: "module",
+      scripts: { dev: "vite", build: "vite build", preview: "vite preview" },
+      engines: { node: `>=${stack.nodeVersion}` },
+      dependencies: versions(dependencies),
+      devDependencies: versions(devDependencies),
+    }, null, 2) + "\n" },
+    { path: "index.html", content: `<!doctype html>
+<html lang="en">
+  <head>
+    <meta charset="UTF-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+    <title>${options.title}</title>
+  </head>
+  <body>
+    <div id="${scaffold.mountId}"></div>
+    <script type="module" src="/${entry}"></script>
+  </body>
+</html>
+` },
+    { path: "vite.config.ts", content: `import { defineConfig } from 'vite'
+${plugin ? `import ${plugin.clause} from '${plugin.from}'\n` : ""}
+export default defineConfig({
+  plugins: [${plugin ? `${plugin.call}()` : ""}],
+})
+` },
+    { path: "tsconfig.json", content: JSON.stringify({
+      compilerOptions: {
+        target: "ES2020",
+        lib: ["ES2020", "DOM", "DOM.Iterable"],
+        module: "ESNext",
+        moduleResolution: "bundler",
+        ...(stack.framework === "react" && { jsx: "react-jsx" }),
+        strict: true,
+        skipLibCheck: true,
+        noEmit: true,
+      },
+      include: ["src"],
+    }, null, 2) + "\n" },
+    // A project with its own entry imports its own styles.
+    ...(options.entry ? [] : [
+      { path: framework.entry, content: scaffold.entrySource(stylesheet.slice("src/".length)) },
+      { path: stylesheet, content: stack.styling === "tailwind" ? "@tailwind base;\n@tailwind components;\n@tailwind utilities;\n" : "" },
+    ]),
+    ...scaffold.files,
+  ];
+  if (stack.styling === "tailwind") {
+    files.push(
+      { path: "tailwind.config.js", content: `/** @type {import('tailwindcss').Config} */
+export default {
+  content: ['./index.html', './src/**/*.{ts,tsx,js,jsx,vue,svelte}'],
+  theme: { extend: {} },
+  plugins: [],
+}
+` },
+      { path: "postcss.config.js", content: `export default {
+  plugins: {
+    tailwindcss: {},
+    autoprefixer: {},
+  },
+}
+` },
+    );
+  }
+  return files;
+};
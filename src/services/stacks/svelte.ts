@@ -0,0 +1,38 @@
+import { StackFramework } from "./types";
+
+export const svelteFramework: StackFramework = {
+  id: "svelte",
+  label: "Svelte",
+  entry: "src/main.ts",
+  dependencies: [],
+  devDependencies: ["svelte", "@sveltejs/vite-plugin-svelte", "@tsconfig/svelte"],
+  vitePlugin: "@sveltejs/vite-plugin-svelte",
+  icons: "lucide-svelte",
+  routers: [{ id: "svelte-spa-router", label: "svelte-spa-router" }],
+  // Svelte stores cover shared state without an extra library.
+  stateLibraries: [],
+  rules: [
+    "Components are .svelte files with <script lang=\"ts\">; 'src/main.ts' mounts 'src/App.svelte' into #app.",
+    "Add 'svelte.config.js' using vitePreprocess and 'src/vite-env.d.ts'. Plain Svelte + Vite, NOT SvelteKit.",
+  ],
+  scaffold: {
+    mountId: "app",
+    pluginImport: "{ svelte }",
+    entrySource: stylesheet => `import App from './App.svelte'
+import './${stylesheet}'
+
+const app = new App({ target: document.getElementById('app')! })
+
+export default app
+`,
+    files: [
+      { path: "svelte.config.js", content: `import { vitePreprocess } from '@sveltejs/vite-plugin-svelte'
+
+export default {
+  preprocess: vitePreprocess(),
+}
+` },
+      { path: "src/vite-env.d.ts", content: "/// <reference types=\"svelte\" />\n/// <reference types=\"vite/client\" />\n" },
+    ],
+  },
+};
@@ -0,0 +1,36 @@
+import { FileNode, StackFrameworkId } from "../../types";
+
+export interface LibraryOption {
+  // npm package name.
+  id: string;
+  label: string;
+}
+
+export interface StackFramework {
+  id: StackFrameworkId;
+  label: string;
+  // Module script index.html loads.
+  entry: string;
+  dependencies: string[];
+  devDependencies: string[];
+  // Vite plugin package the framework needs, if any.
+  vitePlugin?: string;
+  icons: string;
+  routers: LibraryOption[];
+  stateLibraries: LibraryOption[];
+  // Framework-specific lines for the generation prompt.
+  rules: string[];
+  // Local skeleton used to complete pasted code without the model.
+  scaffold: FrameworkScaffold;
+}
+
+export interface FrameworkScaffold {
+  // Element id in index.html the app mounts into.
+  mountId: string;
+  // Import clause for `vitePlugin` in vite.config.ts, e.g. "react" or "{ svelte }"; the bound name is called without options.
+  pluginImport?: string;
+  // Contents of `entry`, importing the global stylesheet.
+  entrySource: (stylesheet: string) => string;
+  // Type declarations and config files the framework needs.
+  files: FileNode[];
+}
@@ -0,0 +1,19 @@
+import { StackFramework } from "./types";
+
+export const vanillaFramework: StackFramework = {
+  id: "vanilla",
+  label: "Plain TypeScript",
+  entry: "src/main.ts",
+  dependencies: [],
+  devDependencies: [],
+  icons: "lucide",
+  routers: [],
+  stateLibraries: [],
+  rules: ["No UI framework: 'src/main.ts' builds the DOM with small TypeScript modules."],
+  scaffold: {
+    mountId: "app",
+    entrySource: stylesheet => `import './${stylesheet}'
+`,
+    files: [{ path: "src/vite-env.d.ts", content: "/// <reference types=\"vite/client\" />\n" }],
+  },
+};
@@ -0,0 +1,35 @@
+import { StackFramework } from "./types";
+
+export const vueFramework: StackFramework = {
+  id: "vue",
+  label: "Vue",
+  entry: "src/main.ts",
+  dependencies: ["vue"],
+  devDependencies: ["@vitejs/plugin-vue", "vue-tsc"],
+  vitePlugin: "@vitejs/plugin-vue",
+  icons: "lucide-vue-next",
+  routers: [{ id: "vue-router", label: "Vue Router" }],
+  stateLibraries: [{ id: "pinia", label: "Pinia" }],
+  rules: [
+    "Single-file components with <script setup lang=\"ts\">; 'src/main.ts' mounts 'src/App.vue' into #app.",
+    "Add 'src/env.d.ts' declaring '*.vue' modules.",
+  ],
+  scaffold: {
+    mountId: "app",
+    pluginImport: "vue",
+    entrySource: stylesheet => `import { createApp } from 'vue'
+import App from './App.vue'
+import './${stylesheet}'
+
+createApp(App).mount('#app')
+`,
+    files: [{ path: "src/env.d.ts", content: `/// <reference types="vite/client" />
+
+declare module '*.vue' {
+  import type { DefineComponent } from 'vue'
+  const component: DefineComponent<object, object, any>
+  export default component
+}
+` }],
+  },
+};
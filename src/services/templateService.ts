@@ -1,2 +0,0 @@
-export const getTestTemplate = () => { return `// Test Template`; }
-export const getSelfSourceCode = () => { return `// Recursive Self Replication Logic`; }
\ No newline at end of file
@@ -0,0 +1,129 @@
+import { ProjectTemplate } from "./types";
+import { viteScaffold } from "./scaffold";
+
+const posts = `export interface Post {
+  slug: string
+  title: string
+  date: string
+  tags: string[]
+  excerpt: string
+  body: string[]
+}
+
+export const posts: Post[] = [
+  {
+    slug: 'hello-world',
+    title: 'Hello, world',
+    date: '2024-05-01',
+    tags: ['meta'],
+    excerpt: 'Why this blog exists and what to expect.',
+    body: [
+      'Welcome! This blog is where I write about building small, useful software.',
+      'Posts live in src/posts.ts, so publishing is just a commit away.',
+    ],
+  },
+  {
+    slug: 'static-sites',
+    title: 'The case for static sites',
+    date: '2024-05-14',
+    tags: ['web', 'performance'],
+    excerpt: 'Fewer moving parts, faster pages, smaller bills.',
+    body: [
+      'A static site is a folder of files served from a CDN. There is no server to patch and nothing to scale.',
+      'For content that changes a few times a week, that trade-off is hard to beat.',
+    ],
+  },
+  {
+    slug: 'writing-habit',
+    title: 'Building a writing habit',
+    date: '2024-06-02',
+    tags: ['writing'],
+    excerpt: 'Small, regular posts beat the perfect essay that never ships.',
+    body: [
+      'Pick a cadence you can keep, then keep it. Quality follows quantity more often than the other way around.',
+    ],
+  },
+]
+`;
+
+const app = `import { useEffect, useState } from 'react'
+import { ArrowLeft, Tag } from 'lucide-react'
+import { posts } from './posts'
+
+// Hash-based routing keeps deep links working on any static host without rewrite rules.
+const useHash = () => {
+  const [hash, setHash] = useState(() => window.location.hash.slice(1))
+  useEffect(() => {
+    const onChange = () => setHash(window.location.hash.slice(1))
+    window.addEventListener('hashchange', onChange)
+    return () => window.removeEventListener('hashchange', onChange)
+  }, [])
+  return hash
+}
+
+const formatDate = (date: string) => new Date(date).toLocaleDateString(undefined, { year: 'numeric', month: 'long', day: 'numeric' })
+
+export default function App() {
+  const hash = useHash()
+  const [tag, setTag] = useState<string | null>(null)
+  const post = posts.find(p => hash === \`/post/\${p.slug}\`)
+  const tags = [...new Set(posts.flatMap(p => p.tags))].sort()
+  const visible = [...posts].sort((a, b) => b.date.localeCompare(a.date)).filter(p => !tag || p.tags.includes(tag))
+
+  return (
+    <div className="min-h-screen bg-stone-50 text-stone-900">
+      <div className="max-w-2xl mx-auto px-6 py-12">
+        <header className="mb-12">
+          <a href="#" className="text-2xl font-serif font-bold">Notes from the Workshop</a>
+          <p className="text-stone-500 mt-1">Essays on software, craft and shipping.</p>
+        </header>
+        {post ? (
+          <article>
+            <a href="#" className="text-sm text-stone-500 hover:text-stone-900 flex items-center gap-1 mb-6"><ArrowLeft size={14} /> All posts</a>
+            <h1 className="text-4xl font-serif font-bold">{post.title}</h1>
+            <p className="text-stone-500 mt-2 text-sm">{formatDate(post.date)}</p>
+            <div className="mt-8 space-y-4 leading-relaxed">{post.body.map((p, i) => <p key={i}>{p}</p>)}</div>
+          </article>
+        ) : (
+          <>
+            <div className="flex flex-wrap gap-2 mb-8">
+              {tags.map(t => (
+                <button key={t} onClick={() => setTag(tag === t ? null : t)} className={\`text-xs px-2 py-1 rounded-full flex items-center gap-1 border \${tag === t ? 'bg-stone-900 text-white border-stone-900' : 'border-stone-300 text-stone-600'}\`}>
+                  <Tag size={12} /> {t}
+                </button>
+              ))}
+            </div>
+            <ul className="space-y-8">
+              {visible.map(p => (
+                <li key={p.slug}>
+                  <a href={\`#/post/\${p.slug}\`} className="group">
+                    <p className="text-sm text-stone-500">{formatDate(p.date)}</p>
+                    <h2 className="text-xl font-serif font-semibold group-hover:underline">{p.title}</h2>
+                    <p className="text-stone-600 mt-1">{p.excerpt}</p>
+                  </a>
+                </li>
+              ))}
+            </ul>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
+`;
+
+export const blogTemplate: ProjectTemplate = {
+  id: "blog",
+  name: "Personal blog",
+  description: "Post list with tag filters and hash-routed article pages. Posts are plain data in src/posts.ts.",
+  tags: ["blog", "content", "static"],
+  load: async () => ({
+    name: "personal-blog",
+    description: "A minimal blog with tag filters and article pages, content kept in src/posts.ts.",
+    files: [
+      ...viteScaffold("personal-blog", "Notes from the Workshop"),
+      { path: "src/App.tsx", content: app },
+      { path: "src/posts.ts", content: posts },
+    ],
+  }),
+};
@@ -0,0 +1,116 @@
+import { ProjectTemplate } from "./types";
+import { viteScaffold } from "./scaffold";
+
+const app = `import { FormEvent, useState } from 'react'
+import { Check, Pencil, Plus, Trash2, X } from 'lucide-react'
+import { useLocalStorage } from './hooks/useLocalStorage'
+
+interface Task {
+  id: string
+  title: string
+  done: boolean
+  createdAt: number
+}
+
+type Filter = 'all' | 'open' | 'done'
+
+export default function App() {
+  const [tasks, setTasks] = useLocalStorage<Task[]>('tasks', [])
+  const [title, setTitle] = useState('')
+  const [filter, setFilter] = useState<Filter>('all')
+  const [editing, setEditing] = useState<{ id: string; title: string } | null>(null)
+
+  const addTask = (e: FormEvent) => {
+    e.preventDefault()
+    if (!title.trim()) return
+    setTasks([{ id: crypto.randomUUID(), title: title.trim(), done: false, createdAt: Date.now() }, ...tasks])
+    setTitle('')
+  }
+
+  const updateTask = (id: string, changes: Partial<Task>) => setTasks(tasks.map(t => (t.id === id ? { ...t, ...changes } : t)))
+  const deleteTask = (id: string) => setTasks(tasks.filter(t => t.id !== id))
+
+  const saveEdit = () => {
+    if (editing && editing.title.trim()) updateTask(editing.id, { title: editing.title.trim() })
+    setEditing(null)
+  }
+
+  const visible = tasks.filter(t => filter === 'all' || (filter === 'done' ? t.done : !t.done))
+
+  return (
+    <div className="min-h-screen bg-gray-100 py-12 px-4">
+      <div className="max-w-xl mx-auto bg-white rounded-xl shadow p-6">
+        <h1 className="text-2xl font-bold mb-4">Tasks</h1>
+        <form onSubmit={addTask} className="flex gap-2 mb-4">
+          <input value={title} onChange={e => setTitle(e.target.value)} placeholder="What needs doing?" className="flex-1 border rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500" />
+          <button className="bg-blue-600 hover:bg-blue-700 text-white rounded-lg px-3 flex items-center gap-1"><Plus size={16} /> Add</button>
+        </form>
+        <div className="flex gap-2 mb-4 text-sm">
+          {(['all', 'open', 'done'] as Filter[]).map(f => (
+            <button key={f} onClick={() => setFilter(f)} className={\`px-3 py-1 rounded-full capitalize \${filter === f ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-600'}\`}>{f}</button>
+          ))}
+          <span className="ml-auto text-gray-500">{tasks.filter(t => !t.done).length} open</span>
+        </div>
+        <ul className="divide-y">
+          {visible.map(task => (
+            <li key={task.id} className="flex items-center gap-3 py-3">
+              <input type="checkbox" checked={task.done} onChange={() => updateTask(task.id, { done: !task.done })} className="h-4 w-4" />
+              {editing?.id === task.id ? (
+                <>
+                  <input autoFocus value={editing.title} onChange={e => setEditing({ ...editing, title: e.target.value })} onKeyDown={e => e.key === 'Enter' && saveEdit()} className="flex-1 border rounded px-2 py-1" />
+                  <button onClick={saveEdit} className="text-green-600"><Check size={16} /></button>
+                  <button onClick={() => setEditing(null)} className="text-gray-400"><X size={16} /></button>
+                </>
+              ) : (
+                <>
+                  <span className={\`flex-1 \${task.done ? 'line-through text-gray-400' : ''}\`}>{task.title}</span>
+                  <button onClick={() => setEditing({ id: task.id, title: task.title })} className="text-gray-400 hover:text-blue-600"><Pencil size={16} /></button>
+                  <button onClick={() => deleteTask(task.id)} className="text-gray-400 hover:text-red-600"><Trash2 size={16} /></button>
+                </>
+              )}
+            </li>
+          ))}
+          {visible.length === 0 && <li className="py-6 text-center text-gray-400">Nothing here yet.</li>}
+        </ul>
+      </div>
+    </div>
+  )
+}
+`;
+
+const useLocalStorage = `import { useEffect, useState } from 'react'
+
+// State that survives reloads by mirroring itself into localStorage.
+export function useLocalStorage<T>(key: string, initial: T) {
+  const [value, setValue] = useState<T>(() => {
+    try {
+      const stored = localStorage.getItem(key)
+      return stored ? (JSON.parse(stored) as T) : initial
+    } catch {
+      return initial
+    }
+  })
+
+  useEffect(() => {
+    localStorage.setItem(key, JSON.stringify(value))
+  }, [key, value])
+
+  return [value, setValue] as const
+}
+`;
+
+export const crudAppTemplate: ProjectTemplate = {
+  id: "crud-local-storage",
+  name: "CRUD app (local storage)",
+  description: "Create, edit, complete and delete records with filters. Data persists in the browser through a reusable useLocalStorage hook.",
+  tags: ["crud", "local-storage", "productivity"],
+  load: async () => ({
+    name: "local-tasks",
+    description: "A task manager with create, edit, delete and filters, persisted in localStorage.",
+    files: [
+      ...viteScaffold("local-tasks", "Tasks"),
+      { path: "src/App.tsx", content: app },
+      { path: "src/hooks/useLocalStorage.ts", content: useLocalStorage },
+    ],
+  }),
+};
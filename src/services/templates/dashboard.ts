@@ -0,0 +1,133 @@
+import { ProjectTemplate } from "./types";
+import { viteScaffold } from "./scaffold";
+
+const app = `import { Activity, BarChart3, DollarSign, Home, Settings, Users } from 'lucide-react'
+import { StatCard } from './components/StatCard'
+import { BarChart } from './components/BarChart'
+
+const stats = [
+  { label: 'Revenue', value: '$48,210', change: 12.4, icon: DollarSign },
+  { label: 'Active users', value: '3,904', change: 4.1, icon: Users },
+  { label: 'Sessions', value: '18,322', change: -2.3, icon: Activity },
+]
+
+const weekly = [
+  { label: 'Mon', value: 32 }, { label: 'Tue', value: 45 }, { label: 'Wed', value: 38 },
+  { label: 'Thu', value: 52 }, { label: 'Fri', value: 61 }, { label: 'Sat', value: 27 }, { label: 'Sun', value: 22 },
+]
+
+const activity = [
+  { user: 'Ana Lopez', action: 'Upgraded to Pro', time: '5 min ago' },
+  { user: 'Sam Carter', action: 'Invited 3 teammates', time: '1 hour ago' },
+  { user: 'Li Wei', action: 'Exported a report', time: '3 hours ago' },
+  { user: 'Jo Smith', action: 'Signed up', time: 'Yesterday' },
+]
+
+const nav = [
+  { label: 'Overview', icon: Home, active: true },
+  { label: 'Reports', icon: BarChart3 },
+  { label: 'Customers', icon: Users },
+  { label: 'Settings', icon: Settings },
+]
+
+export default function App() {
+  return (
+    <div className="min-h-screen flex bg-slate-50 text-slate-900">
+      <aside className="hidden md:flex w-60 flex-col bg-slate-900 text-slate-300 p-4 gap-1">
+        <h1 className="text-white font-bold text-lg mb-6 px-2">Acme Analytics</h1>
+        {nav.map(({ label, icon: Icon, active }) => (
+          <a key={label} href="#" className={\`flex items-center gap-3 px-2 py-2 rounded-md \${active ? 'bg-slate-800 text-white' : 'hover:bg-slate-800'}\`}>
+            <Icon size={16} /> {label}
+          </a>
+        ))}
+      </aside>
+      <main className="flex-1 p-6 md:p-10 space-y-8">
+        <header>
+          <h2 className="text-2xl font-semibold">Overview</h2>
+          <p className="text-slate-500 text-sm">Your business at a glance.</p>
+        </header>
+        <section className="grid gap-4 sm:grid-cols-3">
+          {stats.map(stat => <StatCard key={stat.label} {...stat} />)}
+        </section>
+        <section className="grid gap-4 lg:grid-cols-3">
+          <div className="lg:col-span-2 bg-white rounded-xl border border-slate-200 p-5">
+            <h3 className="font-medium mb-4">Signups this week</h3>
+            <BarChart data={weekly} />
+          </div>
+          <div className="bg-white rounded-xl border border-slate-200 p-5">
+            <h3 className="font-medium mb-4">Recent activity</h3>
+            <ul className="space-y-3 text-sm">
+              {activity.map(item => (
+                <li key={item.user + item.time} className="flex justify-between gap-2">
+                  <span><span className="font-medium">{item.user}</span> <span className="text-slate-500">{item.action}</span></span>
+                  <span className="text-slate-400 shrink-0">{item.time}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        </section>
+      </main>
+    </div>
+  )
+}
+`;
+
+const statCard = `import type { LucideIcon } from 'lucide-react'
+
+interface StatCardProps {
+  label: string
+  value: string
+  change: number
+  icon: LucideIcon
+}
+
+export function StatCard({ label, value, change, icon: Icon }: StatCardProps) {
+  return (
+    <div className="bg-white rounded-xl border border-slate-200 p-5">
+      <div className="flex items-center justify-between text-slate-500 text-sm">
+        {label} <Icon size={16} />
+      </div>
+      <p className="text-2xl font-semibold mt-2">{value}</p>
+      <p className={\`text-xs mt-1 \${change >= 0 ? 'text-emerald-600' : 'text-rose-600'}\`}>
+        {change >= 0 ? '+' : ''}{change}% vs last month
+      </p>
+    </div>
+  )
+}
+`;
+
+const barChart = `interface BarChartProps {
+  data: { label: string; value: number }[]
+}
+
+export function BarChart({ data }: BarChartProps) {
+  const max = Math.max(...data.map(d => d.value), 1)
+  return (
+    <div className="flex items-end gap-3 h-48">
+      {data.map(d => (
+        <div key={d.label} className="flex-1 flex flex-col items-center gap-2">
+          <div className="w-full bg-indigo-500 rounded-t-md" style={{ height: \`\${(d.value / max) * 100}%\` }} title={String(d.value)} />
+          <span className="text-xs text-slate-500">{d.label}</span>
+        </div>
+      ))}
+    </div>
+  )
+}
+`;
+
+export const dashboardTemplate: ProjectTemplate = {
+  id: "dashboard",
+  name: "Analytics dashboard",
+  description: "Sidebar layout with KPI cards, a dependency-free bar chart and an activity feed. A starting point for admin panels and internal tools.",
+  tags: ["dashboard", "admin", "charts"],
+  load: async () => ({
+    name: "analytics-dashboard",
+    description: "An analytics dashboard with KPI cards, a weekly chart and recent activity.",
+    files: [
+      ...viteScaffold("analytics-dashboard", "Acme Analytics"),
+      { path: "src/App.tsx", content: app },
+      { path: "src/components/StatCard.tsx", content: statCard },
+      { path: "src/components/BarChart.tsx", content: barChart },
+    ],
+  }),
+};
@@ -0,0 +1,32 @@
+import { SavedProject } from "../../types";
+import { isVisible } from "../../utils/historyMerge";
+import { ProjectTemplate } from "./types";
+import { dashboardTemplate } from "./dashboard";
+import { landingPageTemplate } from "./landingPage";
+import { crudAppTemplate } from "./crudApp";
+import { blogTemplate } from "./blog";
+import { selfSourceTemplate } from "./selfSource";
+
+export type { ProjectTemplate } from "./types";
+
+export const TEMPLATE_CATALOG: ProjectTemplate[] = [
+  dashboardTemplate,
+  landingPageTemplate,
+  crudAppTemplate,
+  blogTemplate,
+  selfSourceTemplate,
+];
+
+// Personal templates are history entries flagged with `template`, so they are stored and synced with history.
+export const isTemplateEntry = (entry: SavedProject) => !!entry.template;
+
+export const personalTemplates = (entries: SavedProject[]): ProjectTemplate[] => entries
+  .filter(entry => entry.template && isVisible(entry))
+  .map(entry => ({
+    id: entry.id,
+    name: entry.project.name,
+    description: entry.project.description,
+    tags: entry.template!.tags,
+    personal: true,
+    load: async () => entry.project,
+  }));
@@ -0,0 +1,98 @@
+import { ProjectTemplate } from "./types";
+import { viteScaffold } from "./scaffold";
+
+const app = `import { useState } from 'react'
+import { Check, ChevronDown, Rocket, Shield, Sparkles, Zap } from 'lucide-react'
+
+const features = [
+  { icon: Zap, title: 'Fast by default', text: 'Pages load in milliseconds thanks to a tiny static bundle.' },
+  { icon: Shield, title: 'Secure', text: 'No servers to patch. Everything is served from a CDN.' },
+  { icon: Sparkles, title: 'Delightful', text: 'Polished details that make your product feel premium.' },
+]
+
+const plans = [
+  { name: 'Starter', price: '$0', perks: ['1 project', 'Community support'] },
+  { name: 'Pro', price: '$19', perks: ['Unlimited projects', 'Priority support', 'Custom domain'], featured: true },
+  { name: 'Team', price: '$49', perks: ['Everything in Pro', '10 seats', 'SSO'] },
+]
+
+const faqs = [
+  { q: 'Can I cancel anytime?', a: 'Yes. Plans are month-to-month and you can cancel from your account page.' },
+  { q: 'Do you offer discounts?', a: 'Students and non-profits get 50% off. Contact us to apply.' },
+  { q: 'Is there a free trial?', a: 'The Starter plan is free forever, no credit card required.' },
+]
+
+export default function App() {
+  const [open, setOpen] = useState<number | null>(0)
+  return (
+    <div className="min-h-screen bg-white text-gray-900">
+      <nav className="max-w-6xl mx-auto flex items-center justify-between p-6">
+        <span className="font-bold text-lg flex items-center gap-2"><Rocket size={20} className="text-violet-600" /> Launchly</span>
+        <a href="#pricing" className="text-sm font-medium text-violet-700 hover:underline">Pricing</a>
+      </nav>
+
+      <header className="max-w-3xl mx-auto text-center px-6 py-20">
+        <h1 className="text-4xl md:text-6xl font-extrabold tracking-tight">Ship your idea <span className="text-violet-600">this weekend</span></h1>
+        <p className="mt-6 text-lg text-gray-600">Launchly gives you everything you need to go from prototype to paying customers.</p>
+        <a href="#pricing" className="inline-block mt-8 bg-violet-600 hover:bg-violet-700 text-white font-semibold px-6 py-3 rounded-lg">Get started free</a>
+      </header>
+
+      <section className="bg-gray-50 py-20">
+        <div className="max-w-6xl mx-auto px-6 grid gap-8 md:grid-cols-3">
+          {features.map(({ icon: Icon, title, text }) => (
+            <div key={title} className="bg-white p-6 rounded-xl shadow-sm">
+              <Icon className="text-violet-600" />
+              <h3 className="mt-4 font-semibold">{title}</h3>
+              <p className="mt-2 text-gray-600 text-sm">{text}</p>
+            </div>
+          ))}
+        </div>
+      </section>
+
+      <section id="pricing" className="max-w-6xl mx-auto px-6 py-20">
+        <h2 className="text-3xl font-bold text-center">Simple pricing</h2>
+        <div className="mt-12 grid gap-6 md:grid-cols-3">
+          {plans.map(plan => (
+            <div key={plan.name} className={\`rounded-xl border p-6 \${plan.featured ? 'border-violet-600 shadow-lg' : 'border-gray-200'}\`}>
+              <h3 className="font-semibold">{plan.name}</h3>
+              <p className="mt-2 text-4xl font-bold">{plan.price}<span className="text-base font-normal text-gray-500">/mo</span></p>
+              <ul className="mt-6 space-y-2 text-sm">
+                {plan.perks.map(perk => <li key={perk} className="flex items-center gap-2"><Check size={16} className="text-violet-600" /> {perk}</li>)}
+              </ul>
+            </div>
+          ))}
+        </div>
+      </section>
+
+      <section className="max-w-3xl mx-auto px-6 pb-20">
+        <h2 className="text-3xl font-bold text-center mb-8">FAQ</h2>
+        {faqs.map((faq, i) => (
+          <div key={faq.q} className="border-b border-gray-200">
+            <button onClick={() => setOpen(open === i ? null : i)} className="w-full flex justify-between items-center py-4 text-left font-medium">
+              {faq.q} <ChevronDown size={18} className={\`transition-transform \${open === i ? 'rotate-180' : ''}\`} />
+            </button>
+            {open === i && <p className="pb-4 text-gray-600">{faq.a}</p>}
+          </div>
+        ))}
+      </section>
+
+      <footer className="border-t border-gray-200 py-8 text-center text-sm text-gray-500">© {new Date().getFullYear()} Launchly</footer>
+    </div>
+  )
+}
+`;
+
+export const landingPageTemplate: ProjectTemplate = {
+  id: "landing-page",
+  name: "Product landing page",
+  description: "Hero, feature grid, pricing tiers and an FAQ accordion on a single responsive page.",
+  tags: ["landing", "marketing", "static"],
+  load: async () => ({
+    name: "product-landing-page",
+    description: "A responsive product landing page with features, pricing and FAQ.",
+    files: [
+      ...viteScaffold("product-landing-page", "Launchly"),
+      { path: "src/App.tsx", content: app },
+    ],
+  }),
+};
@@ -0,0 +1,85 @@
+import { FileNode } from "../../types";
+
+// The Vite + React + Tailwind skeleton every catalog template builds on; templates add src/App.tsx and friends.
+export const viteScaffold = (name: string, title: string, dependencies: Record<string, string> = {}): FileNode[] => [
+  { path: "package.json", content: JSON.stringify({
+    name,
+    private: true,
+    version: "0.1.0",
+    type: "module",
+    scripts: { dev: "vite", build: "vite build", preview: "vite preview" },
+    dependencies: { react: "^18.3.1", "react-dom": "^18.3.1", "lucide-react": "^0.441.0", clsx: "^2.1.1", "tailwind-merge": "^2.3.0", ...dependencies },
+    devDependencies: {
+      "@types/react": "^18.3.3",
+      "@types/react-dom": "^18.3.0",
+      "@vitejs/plugin-react": "^4.3.1",
+      autoprefixer: "^10.4.19",
+      postcss: "^8.4.38",
+      tailwindcss: "^3.4.4",
+      typescript: "^5.4.5",
+      vite: "^5.2.11",
+    },
+  }, null, 2) + "\n" },
+  { path: "index.html", content: `<!doctype html>
+<html lang="en">
+  <head>
+    <meta charset="UTF-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+    <title>${title}</title>
+  </head>
+  <body>
+    <div id="root"></div>
+    <script type="module" src="/src/main.tsx"></script>
+  </body>
+</html>
+` },
+  { path: "vite.config.ts", content: `import { defineConfig } from 'vite'
+import react from '@vitejs/plugin-react'
+
+export default defineConfig({
+  plugins: [react()],
+})
+` },
+  { path: "tsconfig.json", content: JSON.stringify({
+    compilerOptions: {
+      target: "ES2020",
+      lib: ["ES2020", "DOM", "DOM.Iterable"],
+      module: "ESNext",
+      moduleResolution: "bundler",
+      jsx: "react-jsx",
+      strict: true,
+      skipLibCheck: true,
+      noEmit: true,
+    },
+    include: ["src"],
+  }, null, 2) + "\n" },
+  { path: "tailwind.config.js", content: `/** @type {import('tailwindcss').Config} */
+export default {
+  content: ['./index.html', './src/**/*.{ts,tsx}'],
+  theme: { extend: {} },
+  plugins: [],
+}
+` },
+  { path: "postcss.config.js", content: `export default {
+  plugins: {
+    tailwindcss: {},
+    autoprefixer: {},
+  },
+}
+` },
+  { path: "src/main.tsx", content: `import React from 'react'
+import ReactDOM from 'react-dom/client'
+import App from './App'
+import './index.css'
+
+ReactDOM.createRoot(document.getElementById('root')!).render(
+  <React.StrictMode>
+    <App />
+  </React.StrictMode>,
+)
+` },
+  { path: "src/index.css", content: `@tailwind base;
+@tailwind components;
+@tailwind utilities;
+` },
+];
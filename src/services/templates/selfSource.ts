@@ -0,0 +1,19 @@
+import { ProjectTemplate } from "./types";
+
+// This app's own source, bundled as lazily loaded raw chunks. Host-specific files such as vercel.json are left out.
+const sources = import.meta.glob(
+  ["/src/**/*.{ts,tsx,css}", "/index.html", "/package.json", "/vite.config.ts", "/tsconfig.json", "/tailwind.config.js", "/postcss.config.js"],
+  { query: "?raw", import: "default" },
+);
+
+export const selfSourceTemplate: ProjectTemplate = {
+  id: "autodeploy-agent",
+  name: "AutoDeploy agent",
+  description: "The complete source of this app, ready to fork and deploy under your own account.",
+  tags: ["meta", "react", "tooling"],
+  load: async () => ({
+    name: "autodeploy-agent",
+    description: "Generate React apps with an LLM and deploy them to GitHub and your favourite host.",
+    files: await Promise.all(Object.entries(sources).map(async ([path, load]) => ({ path: path.slice(1), content: String(await load()) }))),
+  }),
+};
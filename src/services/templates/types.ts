@@ -0,0 +1,11 @@
+import { GeneratedProject } from "../../types";
+
+export interface ProjectTemplate {
+  id: string;
+  name: string;
+  description: string;
+  tags: string[];
+  // Catalog templates are loaded on demand; personal templates already hold their project.
+  load: () => Promise<GeneratedProject>;
+  personal?: boolean;
+}
@@ -0,0 +1,148 @@
+import { FileNode, GeneratedProject, StackProfile, ValidationIssue } from "../types";
+import { DEFAULT_STACK, getFramework, LOCKFILES, PACKAGE_MANAGERS, STYLING_OPTIONS } from "./stacks";
+
+const SCRIPT_EXTENSIONS = [".ts", ".tsx", ".js", ".jsx", ".mjs", ".vue", ".svelte"];
+const RESOLVE_SUFFIXES = ["", ".ts", ".tsx", ".js", ".jsx", ".mjs", ".json", ".css", ".vue", ".svelte", "/index.ts", "/index.tsx", "/index.js", "/index.jsx"];
+const IMPORT_PATTERN = /(?:import|export)\s+(?:type\s+)?(?:[\w*{}\s,]+\s+from\s+)?["']([^"']+)["']|import\(\s*["']([^"']+)["']\s*\)|require\(\s*["']([^"']+)["']\s*\)/g;
+const CSS_IMPORT_PATTERN = /@import\s+(?:url\()?["']([^"']+)["']/g;
+const HTML_REF_PATTERN = /<script\b[^>]*?src=["']([^"']+)["']/g;
+const NODE_BUILTINS = new Set(["path", "fs", "url", "os", "crypto", "module", "process", "util", "events", "stream", "buffer"]);
+
+const stripJsonComments = (text: string) =>
+  text.replace(/"(?:\\.|[^"\\])*"|\/\/[^\n]*|\/\*[\s\S]*?\*\//g, match => (match.startsWith('"') ? match : "")).replace(/,(\s*[}\]])/g, "$1");
+
+const dirname = (path: string) => path.split("/").slice(0, -1).join("/");
+
+const normalizePath = (path: string) => {
+  const parts: string[] = [];
+  for (const part of path.split("/")) {
+    if (!part || part === ".") continue;
+    if (part === "..") parts.pop(); else parts.push(part);
+  }
+  return parts.join("/");
+};
+
+export const resolveImportPath = (paths: Set<string>, fromFile: string, specifier: string): string | null => {
+  const target = specifier.startsWith("/") ? normalizePath(specifier) : normalizePath(`${dirname(fromFile)}/${specifier}`);
+  const suffix = RESOLVE_SUFFIXES.find(s => paths.has(target + s));
+  if (suffix !== undefined) return target + suffix;
+  return paths.has(`public/${target}`) ? `public/${target}` : null;
+};
+
+export const packageNameOf = (specifier: string) => {
+  const parts = specifier.split("/");
+  return specifier.startsWith("@") ? parts.slice(0, 2).join("/") : parts[0];
+};
+
+export const isBareSpecifier = (specifier: string) =>
+  !specifier.startsWith(".") && !specifier.startsWith("/") && !specifier.startsWith("@/") && !specifier.startsWith("~/") &&
+  !specifier.includes(":") && !specifier.startsWith("#") && !NODE_BUILTINS.has(packageNameOf(specifier));
+
+const collectImports = (file: FileNode): string[] => {
+  const pattern = file.path.endsWith(".css") ? CSS_IMPORT_PATTERN : file.path.endsWith(".html") ? HTML_REF_PATTERN : IMPORT_PATTERN;
+  const specifiers: string[] = [];
+  for (const match of file.content.matchAll(pattern)) {
+    const specifier = match[1] || match[2] || match[3];
+    if (specifier) specifiers.push(specifier.split("?")[0]);
+  }
+  return specifiers;
+};
+
+// Packages the project's scripts import, e.g. to complete a package.json.
+export const importedPackages = (files: FileNode[]) => [...new Set(files
+  .filter(file => SCRIPT_EXTENSIONS.some(ext => file.path.endsWith(ext)))
+  .flatMap(file => collectImports(file).filter(s => !/^(https?:)?\/\//.test(s) && isBareSpecifier(s)).map(packageNameOf)))].sort();
+
+const parseJsonFile = (file: FileNode, issues: ValidationIssue[], allowComments = false) => {
+  try {
+    return JSON.parse(allowComments ? stripJsonComments(file.content) : file.content);
+  } catch (e) {
+    issues.push({ severity: "error", rule: "invalid-json", path: file.path, message: `Invalid JSON: ${e instanceof Error ? e.message : "parse error"}.` });
+    return null;
+  }
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// Packages the stack profile relies on; a missing one usually means the model ignored the profile.
+const stackPackages = (stack: StackProfile) => {
+  const framework = getFramework(stack.framework);
+  const candidates = [...framework.dependencies, framework.vitePlugin, STYLING_OPTIONS[stack.styling].requires, stack.router, stack.state];
+  return candidates.filter((name): name is string => !!name && name !== "none");
+};
+
+export const validateProject = (project: GeneratedProject, stack: StackProfile = DEFAULT_STACK): ValidationIssue[] => {
+  const issues: ValidationIssue[] = [];
+  const entry = getFramework(stack.framework).entry;
+  const files = project.files;
+  const paths = new Set<string>();
+
+  for (const file of files) {
+    if (paths.has(file.path)) issues.push({ severity: "error", rule: "duplicate-path", path: file.path, message: "This path appears more than once." });
+    paths.add(file.path);
+  }
+  for (const required of ["package.json", "index.html", entry]) {
+    if (!paths.has(required)) issues.push({ severity: "error", rule: "missing-file", path: required, message: `Required file ${required} is missing.` });
+  }
+  if (!["vite.config.ts", "vite.config.js", "vite.config.mjs"].some(p => paths.has(p))) {
+    issues.push({ severity: "warning", rule: "missing-file", path: "vite.config.ts", message: "No vite.config file found; Vite defaults will be used." });
+  }
+
+  const byPath = new Map(files.map(f => [f.path, f]));
+  let dependencies: Set<string> | null = null;
+
+  const pkgFile = byPath.get("package.json");
+  if (pkgFile) {
+    const pkg = parseJsonFile(pkgFile, issues);
+    if (pkg) {
+      dependencies = new Set([...Object.keys(pkg.dependencies || {}), ...Object.keys(pkg.devDependencies || {}), ...Object.keys(pkg.peerDependencies || {})]);
+      const build = pkg.scripts?.build;
+      if (!build) issues.push({ severity: "error", rule: "build-script", path: "package.json", message: 'Missing "build" script; expected "vite build".' });
+      else if (!build.includes("vite build")) issues.push({ severity: "warning", rule: "build-script", path: "package.json", message: `Build script is "${build}" instead of "vite build".` });
+      for (const name of stackPackages(stack)) {
+        if (!dependencies.has(name)) issues.push({ severity: "warning", rule: "stack", path: "package.json", message: `The stack profile expects "${name}", but package.json does not list it.` });
+      }
+    }
+  }
+
+  const vercelFile = byPath.get("vercel.json");
+  if (vercelFile) {
+    const vercel = parseJsonFile(vercelFile, issues);
+    if (vercel && !Array.isArray(vercel.rewrites)) {
+      issues.push({ severity: "warning", rule: "vercel-rewrites", path: "vercel.json", message: "No SPA rewrite to /index.html; client-side routes will 404." });
+    }
+  }
+
+  for (const file of files) {
+    if (/(^|\/)tsconfig(\.[\w-]+)?\.json$/.test(file.path)) parseJsonFile(file, issues, true);
+  }
+
+  for (const pm of PACKAGE_MANAGERS) {
+    if (pm !== stack.packageManager && paths.has(LOCKFILES[pm])) {
+      issues.push({ severity: "warning", rule: "stack", path: LOCKFILES[pm], message: `Lockfile for ${pm}, but the stack profile installs with ${stack.packageManager}.` });
+    }
+  }
+
+  const indexHtml = byPath.get("index.html");
+  if (indexHtml && !new RegExp(`<script[^>]+src=["']/${escapeRegExp(entry)}["']`).test(indexHtml.content)) {
+    issues.push({ severity: "error", rule: "entry-point", path: "index.html", message: `index.html must load <script type="module" src="/${entry}">.` });
+  }
+
+  for (const file of files) {
+    const isScript = SCRIPT_EXTENSIONS.some(ext => file.path.endsWith(ext));
+    if (!isScript && !file.path.endsWith(".css") && !file.path.endsWith(".html")) continue;
+    for (const specifier of collectImports(file)) {
+      if (/^(https?:)?\/\//.test(specifier)) continue;
+      if (specifier.startsWith(".") || specifier.startsWith("/")) {
+        if (!resolveImportPath(paths, file.path, specifier)) issues.push({ severity: "error", rule: "unresolved-import", path: file.path, message: `Cannot resolve "${specifier}".` });
+      } else if (isScript && dependencies && isBareSpecifier(specifier)) {
+        const name = packageNameOf(specifier);
+        if (!dependencies.has(name)) issues.push({ severity: "error", rule: "missing-dependency", path: file.path, message: `"${name}" is imported but not listed in package.json dependencies.` });
+      }
+    }
+  }
+  return issues;
+};
+
+export const formatIssues = (issues: ValidationIssue[]) =>
+  issues.map(i => `- [${i.severity.toUpperCase()}] ${i.path ? `${i.path}: ` : ""}${i.message}`).join("\n");
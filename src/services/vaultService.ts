@@ -0,0 +1,101 @@
+import { AppConfig, EnvVar } from "../types";
+
+const VAULT_KEY = "autodeploy_vault";
+const PBKDF2_ITERATIONS = 310000;
+
+export const SECRET_KEYS = ["githubToken", "githubRefreshToken", "vercelToken", "netlifyToken", "cloudflareToken"] as const;
+
+export type SecretKey = typeof SECRET_KEYS[number];
+export type VaultSecrets = Partial<Record<SecretKey, string>> & { llmApiKey?: string; envVars?: Record<string, EnvVar[]> };
+
+interface StoredVault {
+  version: 1;
+  iterations: number;
+  salt: string;
+  iv: string;
+  data: string;
+}
+
+// The derived key only lives in memory for the unlocked session; it is not extractable.
+export interface VaultSession {
+  key: CryptoKey;
+  salt: Uint8Array<ArrayBuffer>;
+  iterations: number;
+}
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+const fromBase64 = (value: string) => Uint8Array.from(atob(value), c => c.charCodeAt(0));
+
+const deriveKey = async (passphrase: string, salt: Uint8Array<ArrayBuffer>, iterations: number) => {
+  const material = await crypto.subtle.importKey("raw", new TextEncoder().encode(passphrase), "PBKDF2", false, ["deriveKey"]);
+  return crypto.subtle.deriveKey(
+    { name: "PBKDF2", salt, iterations, hash: "SHA-256" },
+    material,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"],
+  );
+};
+
+const readVault = (): StoredVault | null => {
+  try {
+    const raw = localStorage.getItem(VAULT_KEY);
+    return raw ? JSON.parse(raw) : null;
+  } catch (e) { return null; }
+};
+
+export const hasVault = () => readVault() !== null;
+
+// Separates tokens from the rest of the config so only non-secret settings are stored in plain text.
+export const splitSecrets = (config: AppConfig): { secrets: VaultSecrets; settings: AppConfig } => {
+  const settings: AppConfig = { ...config };
+  const secrets: VaultSecrets = {};
+  SECRET_KEYS.forEach(key => {
+    if (config[key]) secrets[key] = config[key];
+    delete settings[key];
+  });
+  if (config.llm?.apiKey) {
+    secrets.llmApiKey = config.llm.apiKey;
+    settings.llm = { ...config.llm, apiKey: undefined };
+  }
+  if (config.envVars) {
+    secrets.envVars = config.envVars;
+    delete settings.envVars;
+  }
+  return { secrets, settings: { ...settings, githubToken: "" } };
+};
+
+export const mergeSecrets = (config: AppConfig, secrets: VaultSecrets): AppConfig => {
+  const { llmApiKey, envVars, ...tokens } = secrets;
+  return { ...config, ...tokens, envVars, llm: config.llm && llmApiKey ? { ...config.llm, apiKey: llmApiKey } : config.llm };
+};
+
+export const saveVault = async (session: VaultSession, secrets: VaultSecrets) => {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const data = await crypto.subtle.encrypt({ name: "AES-GCM", iv }, session.key, new TextEncoder().encode(JSON.stringify(secrets)));
+  const stored: StoredVault = { version: 1, iterations: session.iterations, salt: toBase64(session.salt), iv: toBase64(iv), data: toBase64(new Uint8Array(data)) };
+  localStorage.setItem(VAULT_KEY, JSON.stringify(stored));
+};
+
+export const createVault = async (passphrase: string, secrets: VaultSecrets): Promise<VaultSession> => {
+  if (passphrase.length < 8) throw new Error("Use a passphrase of at least 8 characters.");
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const session: VaultSession = { key: await deriveKey(passphrase, salt, PBKDF2_ITERATIONS), salt, iterations: PBKDF2_ITERATIONS };
+  await saveVault(session, secrets);
+  return session;
+};
+
+export const unlockVault = async (passphrase: string): Promise<{ session: VaultSession; secrets: VaultSecrets }> => {
+  const stored = readVault();
+  if (!stored) throw new Error("No saved credentials found.");
+  const salt = fromBase64(stored.salt);
+  const key = await deriveKey(passphrase, salt, stored.iterations);
+  try {
+    const plain = await crypto.subtle.decrypt({ name: "AES-GCM", iv: fromBase64(stored.iv) }, key, fromBase64(stored.data));
+    return { session: { key, salt, iterations: stored.iterations }, secrets: JSON.parse(new TextDecoder().decode(plain)) };
+  } catch (e) {
+    throw new Error("Wrong passphrase.");
+  }
+};
+
+export const forgetVault = () => localStorage.removeItem(VAULT_KEY);
@@ -1,5 +1,10 @@
+import { DeploymentState, EnvVar, StackProfile } from "../types";
+import { installCommand, OUTPUT_DIR, runScript } from "./stacks";
+
 const VERCEL_API_BASE = "https://api.vercel.com";
-export const createVercelProject = async (vercelToken: string, projectName: string, repoName: string, githubType: string = "github") => {
+
+// Every stack builds with Vite, so the framework preset stays "vite"; commands and Node version follow the profile.
+export const createVercelProject = async (vercelToken: string, projectName: string, repoName: string, stack: StackProfile, githubType: string = "github") => {
   try {
     const response = await fetch(`${VERCEL_API_BASE}/v9/projects`, {
       method: "POST",
@@ -7,19 +12,108 @@ export const createVercelProject = async (vercelToken: string, projectName: stri
       body: JSON.stringify({
         name: projectName,
         gitRepository: { type: githubType, repo: repoName },
-        framework: "vite", 
-        buildCommand: "npm run build",
-        outputDirectory: "dist",
+        framework: "vite",
+        installCommand: installCommand(stack.packageManager),
+        buildCommand: runScript(stack.packageManager, "build"),
+        outputDirectory: OUTPUT_DIR,
+        nodeVersion: `${stack.nodeVersion}.x`,
         serverlessFunctionRegion: "iad1",
       }),
     });
     if (!response.ok) {
         const err = await response.json();
-        if (err.code === 'PROJECT_ALREADY_EXISTS') {
-            return { name: projectName, html_url: `https://vercel.com/${repoName.split('/')[0]}/${projectName}` };
+        const error = err.error || err;
+        if (error.code === 'PROJECT_ALREADY_EXISTS') {
+            // Names are unique per Vercel scope, so the existing project may be connected to another owner's repository.
+            const existing = await vercelRequest(vercelToken, `/v9/projects/${encodeURIComponent(projectName)}`);
+            const linked = existing.link?.org && existing.link?.repo ? `${existing.link.org}/${existing.link.repo}` : null;
+            if (linked && linked.toLowerCase() !== repoName.toLowerCase()) throw new Error(`Vercel project "${projectName}" already exists and is connected to ${linked}.`);
+            return existing;
         }
-        throw new Error(err.message || "Failed to create Vercel project");
+        throw new Error(error.message || "Failed to create Vercel project");
     }
     return await response.json();
   } catch (e) { throw e; }
-};
\ No newline at end of file
+};
+
+export interface VercelDeployment {
+  id: string;
+  url: string;
+  readyState: DeploymentState;
+  inspectorUrl?: string;
+  alias?: string[];
+  errorMessage?: string;
+}
+
+export interface VercelLogLine {
+  text: string;
+  isError: boolean;
+}
+
+const vercelRequest = async (vercelToken: string, path: string, init: RequestInit = {}) => {
+  const response = await fetch(`${VERCEL_API_BASE}${path}`, {
+    ...init,
+    headers: { Authorization: `Bearer ${vercelToken}`, "Content-Type": "application/json" },
+  });
+  if (!response.ok) {
+    const err = await response.json().catch(() => ({}));
+    throw new Error(`Vercel API Error (${response.status}): ${err.error?.message || err.message || response.statusText}`);
+  }
+  return await response.json();
+};
+
+export const createDeployment = async (vercelToken: string, projectName: string, repoId: number, ref: string, target: 'production' | 'preview' = 'production'): Promise<VercelDeployment> => {
+  return vercelRequest(vercelToken, `/v13/deployments`, {
+    method: "POST",
+    body: JSON.stringify({ name: projectName, project: projectName, target, gitSource: { type: "github", repoId, ref } }),
+  });
+};
+
+// Creates the variables or overwrites existing ones with the same key; Vercel stores the values encrypted.
+export const upsertProjectEnv = async (vercelToken: string, projectName: string, vars: EnvVar[]) => {
+  return vercelRequest(vercelToken, `/v10/projects/${encodeURIComponent(projectName)}/env?upsert=true`, {
+    method: "POST",
+    body: JSON.stringify(vars.map(v => ({ key: v.key, value: v.value, type: "encrypted", target: v.targets }))),
+  });
+};
+
+export const getDeployment = async (vercelToken: string, deploymentId: string): Promise<VercelDeployment> => {
+  return vercelRequest(vercelToken, `/v13/deployments/${deploymentId}`);
+};
+
+export const getDeploymentLogs = async (vercelToken: string, deploymentId: string): Promise<VercelLogLine[]> => {
+  const events = await vercelRequest(vercelToken, `/v3/deployments/${deploymentId}/events?builds=1&direction=forward`);
+  return (Array.isArray(events) ? events : [])
+    .filter((e: any) => (e.type === "stdout" || e.type === "stderr" || e.type === "command") && e.payload?.text)
+    .map((e: any) => ({ text: e.payload.text as string, isError: e.type === "stderr" }));
+};
+
+export const getDeploymentUrl = (deployment: VercelDeployment) => `https://${deployment.alias?.[0] || deployment.url}`;
+
+// Polls until the deployment settles, reporting each state change and new build log line.
+export const waitForDeployment = async (
+  vercelToken: string,
+  deploymentId: string,
+  handlers: { onState?: (state: DeploymentState) => void; onLog?: (line: VercelLogLine) => void },
+  intervalMs = 3000,
+  timeoutMs = 15 * 60 * 1000,
+): Promise<{ deployment: VercelDeployment; logs: VercelLogLine[] }> => {
+  const startedAt = Date.now();
+  let lastState: DeploymentState | null = null;
+  let logs: VercelLogLine[] = [];
+  while (true) {
+    const deployment = await getDeployment(vercelToken, deploymentId);
+    if (deployment.readyState !== lastState) {
+      lastState = deployment.readyState;
+      handlers.onState?.(lastState);
+    }
+    try {
+      const latest = await getDeploymentLogs(vercelToken, deploymentId);
+      latest.slice(logs.length).forEach(line => handlers.onLog?.(line));
+      if (latest.length > logs.length) logs = latest;
+    } catch (e) {}
+    if (["READY", "ERROR", "CANCELED"].includes(deployment.readyState)) return { deployment, logs };
+    if (Date.now() - startedAt > timeoutMs) throw new Error("Timed out waiting for the Vercel deployment.");
+    await new Promise(resolve => setTimeout(resolve, intervalMs));
+  }
+};
@@ -1,6 +1,9 @@
 export interface FileNode {
   path: string;
+  // Text for utf-8 files; base64 of the raw bytes for binary assets such as images and fonts.
   content: string;
+  // Absent means utf-8.
+  encoding?: 'utf-8' | 'base64';
 }
 
 export interface GeneratedProject {
@@ -9,18 +12,207 @@ export interface GeneratedProject {
   files: FileNode[];
 }
 
+export type FileChangeType = 'add' | 'modify' | 'delete';
+
+export interface FileChange {
+  path: string;
+  type: FileChangeType;
+  content?: string;
+}
+
+export interface ProjectPatch {
+  summary: string;
+  changes: FileChange[];
+}
+
+export interface ConversationTurn {
+  role: 'user' | 'model';
+  content: string;
+  timestamp: number;
+  changes?: FileChange[];
+  rejected?: string[];
+}
+
+export interface ValidationIssue {
+  severity: 'error' | 'warning';
+  rule: string;
+  message: string;
+  path?: string;
+}
+
+export interface FixAttempt {
+  attempt: number;
+  timestamp: number;
+  summary: string;
+  changes: FileChange[];
+  commitSha?: string;
+  state?: DeploymentState;
+  error?: string;
+}
+
+export interface SandboxDiagnostic {
+  severity: 'error' | 'warning';
+  message: string;
+  path?: string;
+  line?: number;
+  column?: number;
+}
+
+export interface VerificationResult {
+  ok: boolean;
+  diagnostics: SandboxDiagnostic[];
+  previewHtml?: string;
+  durationMs: number;
+}
+
+export interface DeploymentLink {
+  repoOwner: string;
+  repoName: string;
+  repoUrl: string;
+  repoId: number;
+  branch: string;
+  targets?: Partial<Record<DeployTargetId, string>>;
+  lastCommitSha?: string;
+  deployUrl?: string;
+  lastDeployedAt?: number;
+  // Outcome of the last automatic deploy; unset when the code was only pushed.
+  lastState?: DeploymentState;
+  // Pull requests opened for updates, newest first; `branch` above stays the base they target.
+  pullRequests?: PullRequestLink[];
+  // Repo files that are not part of the project (binaries and dependency folders left out of an import);
+  // update commits keep them instead of deleting them.
+  keepPaths?: string[];
+}
+
+export interface PullRequestLink {
+  number: number;
+  url: string;
+  branch: string;
+  previewUrl?: string;
+  openedAt: number;
+}
+
+// One file of a branch comparison, as reported by GitHub.
+export interface ComparedFile {
+  path: string;
+  status: 'added' | 'removed' | 'modified' | 'renamed' | 'copied' | 'changed' | 'unchanged';
+  additions: number;
+  deletions: number;
+  previousPath?: string;
+}
+
 export interface SavedProject {
   id: string;
   timestamp: number;
   prompt: string;
   project: GeneratedProject;
+  baseProject?: GeneratedProject;
+  turns?: ConversationTurn[];
+  fixAttempts?: FixAttempt[];
+  deployment?: DeploymentLink;
+  runs?: SavedRunLog[];
+  // Stack the project was generated with; imported projects have none and fall back to detection.
+  stack?: StackProfile;
+  // Set on entries saved as personal templates; those are listed in the template gallery instead of history.
+  template?: { tags: string[] };
+  updatedAt?: number;
+  // Tombstone: deleted entries are kept (without being shown) so the deletion syncs to other devices.
+  deletedAt?: number;
+}
+
+export interface HistoryConflict {
+  id: string;
+  local: SavedProject;
+  remote: SavedProject;
+}
+
+export interface HistorySyncState {
+  account?: string;
+  gistId?: string;
+  revision?: string;
+  // updatedAt of every entry as of the last successful sync; the common ancestor for three-way merges.
+  base: Record<string, number>;
+  conflicts: HistoryConflict[];
+  lastSyncedAt?: number;
+}
+
+export type LLMProviderId = 'gemini' | 'openai' | 'ollama' | 'fake';
+
+export interface LLMSettings {
+  provider: LLMProviderId;
+  model: string;
+  temperature: number;
+  baseUrl?: string;
+  apiKey?: string;
+}
+
+export type StackFrameworkId = 'react' | 'vue' | 'svelte' | 'vanilla';
+export type StackStyling = 'tailwind' | 'css' | 'css-modules' | 'scss';
+export type PackageManager = 'npm' | 'pnpm' | 'yarn' | 'bun';
+
+// The stack a project is generated with; drives the generation prompt, validation and host build settings.
+export interface StackProfile {
+  framework: StackFrameworkId;
+  styling: StackStyling;
+  // npm package of the router or state library, or 'none'.
+  router: string;
+  state: string;
+  packageManager: PackageManager;
+  // Node major version, e.g. '20'.
+  nodeVersion: string;
+}
+
+export type EnvTarget = 'production' | 'preview' | 'development';
+
+export interface EnvVar {
+  key: string;
+  value: string;
+  targets: EnvTarget[];
+}
+
+// How a new repository is created on the first deploy.
+export interface RepoOptions {
+  name: string;
+  // User login or organization the repo is created under.
+  owner: string;
+  visibility: 'public' | 'private';
+  defaultBranch: string;
+  // GitHub license template key and .gitignore template name; empty for none.
+  license: string;
+  gitignore: string;
+  topics: string[];
+}
+
+export interface GithubOAuthSettings {
+  clientId: string;
+  baseUrl?: string;
 }
 
 export interface AppConfig {
   githubToken: string;
+  githubAuthMethod?: 'pat' | 'device';
+  githubRefreshToken?: string;
+  githubTokenExpiresAt?: number;
+  githubRefreshTokenExpiresAt?: number;
+  oauth?: GithubOAuthSettings;
   vercelToken?: string;
+  netlifyToken?: string;
+  cloudflareToken?: string;
+  cloudflareAccountId?: string;
   githubUsername: string;
+  deployTarget?: DeployTargetId;
   useBetaDeploy?: boolean;
+  pushMode?: 'atomic' | 'per-file';
+  // How deploys update an already linked repository: commit to its branch, or open a pull request from a new branch.
+  updateMode?: 'push' | 'pull-request';
+  llm?: LLMSettings;
+  stack?: StackProfile;
+  // Environment variables per SavedProject id. The values are secrets, so like tokens they only persist in the vault.
+  envVars?: Record<string, EnvVar[]>;
+  // Last used repository settings, applied to the next new repository.
+  repoDefaults?: Omit<RepoOptions, 'name' | 'topics'>;
+  autoFix?: { enabled: boolean; maxAttempts: number };
+  autoLockMinutes?: number;
 }
 
 export enum Step {
@@ -28,20 +220,56 @@ export enum Step {
   PROMPT = 'PROMPT',
   GENERATING = 'GENERATING',
   REVIEW = 'REVIEW',
+  VERIFYING = 'VERIFYING',
   DEPLOYING = 'DEPLOYING',
   SUCCESS = 'SUCCESS',
 }
 
+export type LogPhase = 'generate' | 'refine' | 'verify' | 'push' | 'build' | 'autofix' | 'sync';
+
 export interface LogEntry {
   id: string;
   timestamp: Date;
   message: string;
   type: 'info' | 'success' | 'error' | 'warning';
+  phase?: LogPhase;
+  filePath?: string;
+  durationMs?: number;
+  // Correlates the entries written during one generate, refine, verify or deploy run.
+  runId?: string;
+}
+
+export interface LogRun {
+  id: string;
+  label: string;
+  startedAt: number;
+  finishedAt?: number;
+  ok?: boolean;
+}
+
+// A finished run as kept on its SavedProject; timestamps are epoch milliseconds so it survives JSON.
+export interface SavedRunLog extends LogRun {
+  entries: (Omit<LogEntry, 'timestamp' | 'runId'> & { timestamp: number })[];
+}
+
+export type DeployTargetId = 'vercel' | 'netlify' | 'cloudflare' | 'github-pages';
+
+export type DeploymentState = 'QUEUED' | 'INITIALIZING' | 'BUILDING' | 'READY' | 'ERROR' | 'CANCELED';
+
+export interface TargetDeploymentResult {
+  state?: DeploymentState;
+  siteId?: string;
+  inspectUrl?: string;
+  buildError?: string;
+  buildLog?: string[];
 }
 
 export interface DeploymentResult {
   repoUrl: string;
+  target: DeployTargetId;
   deployUrl?: string;
-  vercelInspectUrl?: string;
   isBeta?: boolean;
+  targets: Partial<Record<DeployTargetId, TargetDeploymentResult>>;
+  // Set when the update went out as a pull request; deployUrl then stays unset and the build is a preview.
+  pullRequest?: PullRequestLink;
 }
\ No newline at end of file
@@ -0,0 +1,63 @@
+import { FileNode } from '../types';
+
+// Per-file cap for uploaded and imported binaries; history, sync and prompts all carry them as base64.
+export const MAX_ASSET_BYTES = 1024 * 1024;
+// Cap on all binaries of one project together.
+export const MAX_PROJECT_ASSET_BYTES = 5 * 1024 * 1024;
+
+const MIME_TYPES: Record<string, string> = {
+  png: 'image/png', jpg: 'image/jpeg', jpeg: 'image/jpeg', gif: 'image/gif', webp: 'image/webp', avif: 'image/avif',
+  ico: 'image/x-icon', bmp: 'image/bmp', svg: 'image/svg+xml',
+  woff: 'font/woff', woff2: 'font/woff2', ttf: 'font/ttf', otf: 'font/otf',
+  mp3: 'audio/mpeg', wav: 'audio/wav', ogg: 'audio/ogg', mp4: 'video/mp4', webm: 'video/webm', pdf: 'application/pdf',
+};
+
+export const isBinaryFile = (file: Pick<FileNode, 'encoding'>) => file.encoding === 'base64';
+
+export const mimeTypeOf = (path: string) => MIME_TYPES[path.split('.').pop()!.toLowerCase()] || 'application/octet-stream';
+
+export const isImagePath = (path: string) => mimeTypeOf(path).startsWith('image/');
+
+// Chunked, since spreading a large array into String.fromCharCode overflows the call stack.
+export const bytesToBase64 = (bytes: Uint8Array) => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return btoa(binary);
+};
+
+export const base64ToBytes = (base64: string) => Uint8Array.from(atob(base64), c => c.charCodeAt(0));
+
+export const fileBytes = (file: FileNode) => (isBinaryFile(file) ? base64ToBytes(file.content) : new TextEncoder().encode(file.content));
+
+// What the file takes on disk and in a commit, not the length of its in-memory string.
+export const fileByteSize = (file: FileNode) => {
+  if (!isBinaryFile(file)) return new TextEncoder().encode(file.content).length;
+  const padding = file.content.endsWith('==') ? 2 : file.content.endsWith('=') ? 1 : 0;
+  return Math.floor(file.content.length * 3 / 4) - padding;
+};
+
+export const projectByteSize = (files: FileNode[]) => files.reduce((sum, f) => sum + fileByteSize(f), 0);
+
+export const formatBytes = (bytes: number) =>
+  bytes < 1024 ? `${bytes} B` : bytes < 1024 * 1024 ? `${(bytes / 1024).toFixed(1)} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+// Valid UTF-8 without NUL bytes is kept as text (SVGs, JSON, fonts' license files); anything else is base64.
+export const fileNodeFromBytes = (path: string, bytes: Uint8Array): FileNode => {
+  try {
+    const text = new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+    if (!text.includes('\0')) return { path, content: text };
+  } catch (e) { /* not UTF-8 */ }
+  return { path, content: bytesToBase64(bytes), encoding: 'base64' };
+};
+
+export const toDataUrl = (file: FileNode) =>
+  `data:${mimeTypeOf(file.path)};base64,${isBinaryFile(file) ? file.content : bytesToBase64(new TextEncoder().encode(file.content))}`;
+
+// How code refers to an asset: files in public/ are served from the site root, others are imported by path.
+export const assetUrl = (path: string) => (path.startsWith('public/') ? path.slice('public'.length) : path);
+
+// Binary files are listed by path for the model instead of being sent as base64.
+export const describeAssets = (files: FileNode[]) => files
+  .filter(isBinaryFile)
+  .map(f => `- ${f.path} (${mimeTypeOf(f.path)}, ${formatBytes(fileByteSize(f))})${f.path.startsWith('public/') ? `, served at "${assetUrl(f.path)}"` : ''}`)
+  .join('\n');
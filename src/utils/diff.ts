@@ -0,0 +1,45 @@
+export interface DiffLine {
+  type: 'same' | 'add' | 'remove';
+  text: string;
+}
+
+export const diffLines = (before: string, after: string): DiffLine[] => {
+  const a = before.split('\n');
+  const b = after.split('\n');
+
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) { endA--; endB--; }
+
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+  const cols = midB.length + 1;
+  const lcs = new Uint32Array((midA.length + 1) * cols);
+  for (let i = midA.length - 1; i >= 0; i--) {
+    for (let j = midB.length - 1; j >= 0; j--) {
+      lcs[i * cols + j] = midA[i] === midB[j]
+        ? lcs[(i + 1) * cols + j + 1] + 1
+        : Math.max(lcs[(i + 1) * cols + j], lcs[i * cols + j + 1]);
+    }
+  }
+
+  const result: DiffLine[] = a.slice(0, start).map(text => ({ type: 'same', text }));
+  let i = 0;
+  let j = 0;
+  while (i < midA.length && j < midB.length) {
+    if (midA[i] === midB[j]) { result.push({ type: 'same', text: midA[i] }); i++; j++; }
+    else if (lcs[(i + 1) * cols + j] >= lcs[i * cols + j + 1]) { result.push({ type: 'remove', text: midA[i] }); i++; }
+    else { result.push({ type: 'add', text: midB[j] }); j++; }
+  }
+  while (i < midA.length) result.push({ type: 'remove', text: midA[i++] });
+  while (j < midB.length) result.push({ type: 'add', text: midB[j++] });
+  a.slice(endA).forEach(text => result.push({ type: 'same', text }));
+  return result;
+};
+
+export const diffStats = (lines: DiffLine[]) => ({
+  added: lines.filter(l => l.type === 'add').length,
+  removed: lines.filter(l => l.type === 'remove').length,
+});
@@ -0,0 +1,55 @@
+import { EnvVar, GeneratedProject } from "../types";
+
+export interface EnvReference {
+  key: string;
+  paths: string[];
+  // Whether every reference can see the value: Vite only exposes VITE_-prefixed variables to client code,
+  // and process.env only exists in server code such as Vercel api/ functions.
+  exposed: boolean;
+}
+
+const SCANNED_EXTENSIONS = [".ts", ".tsx", ".js", ".jsx", ".mjs", ".cjs", ".vue", ".svelte"];
+const REFERENCE_PATTERN = /\b(import\.meta\.env|process\.env)(?:\.([A-Za-z_][A-Za-z0-9_]*)|\[\s*["']([A-Za-z_][A-Za-z0-9_]*)["']\s*\])/g;
+const EXAMPLE_FILE_PATTERN = /(^|\/)\.env\.(example|sample|template)$/;
+// Set by Vite or Node themselves.
+const BUILT_IN = new Set(["MODE", "DEV", "PROD", "SSR", "BASE_URL", "NODE_ENV"]);
+
+// Variables the code reads, plus the keys listed in a checked-in .env.example.
+export const scanEnvReferences = (project: GeneratedProject): EnvReference[] => {
+  const found = new Map<string, { paths: Set<string>; exposed: boolean }>();
+  const add = (key: string, path: string, exposed: boolean) => {
+    if (BUILT_IN.has(key)) return;
+    const entry = found.get(key) || { paths: new Set<string>(), exposed: true };
+    entry.paths.add(path);
+    entry.exposed = entry.exposed && exposed;
+    found.set(key, entry);
+  };
+
+  for (const file of project.files) {
+    if (EXAMPLE_FILE_PATTERN.test(file.path)) {
+      for (const line of file.content.split("\n")) {
+        const key = line.match(/^\s*(?:export\s+)?([A-Za-z_][A-Za-z0-9_]*)\s*=/)?.[1];
+        if (key) add(key, file.path, true);
+      }
+      continue;
+    }
+    if (!SCANNED_EXTENSIONS.some(ext => file.path.endsWith(ext)) || file.path.startsWith("vite.config.")) continue;
+    for (const match of file.content.matchAll(REFERENCE_PATTERN)) {
+      const key = match[2] || match[3];
+      add(key, file.path, match[1] === "process.env" ? file.path.startsWith("api/") : key.startsWith("VITE_"));
+    }
+  }
+  return [...found.entries()]
+    .map(([key, { paths, exposed }]) => ({ key, paths: [...paths].sort(), exposed }))
+    .sort((a, b) => a.key.localeCompare(b.key));
+};
+
+export const missingEnvVars = (references: EnvReference[], vars: EnvVar[]) => {
+  const defined = new Set(vars.filter(v => v.value).map(v => v.key));
+  return references.filter(ref => !defined.has(ref.key));
+};
+
+export const ENV_KEY_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+// Variables complete enough to send to a host.
+export const deployableEnvVars = (vars: EnvVar[]) => vars.filter(v => ENV_KEY_PATTERN.test(v.key) && v.value && v.targets.length > 0);
@@ -0,0 +1,75 @@
+import { FileChange, FileNode, GeneratedProject, SavedProject } from '../types';
+
+// File bodies are stored once by SHA-256 and referenced by hash, so unchanged files are shared between versions.
+export interface FileRef { path: string; hash: string; encoding?: FileNode['encoding'] }
+export type DehydratedProject = Omit<GeneratedProject, 'files'> & { files: FileRef[] };
+export type DehydratedChange = Omit<FileChange, 'content'> & { hash?: string };
+export type DehydratedEntry = Omit<SavedProject, 'project' | 'baseProject' | 'turns' | 'fixAttempts'> & {
+  project: DehydratedProject;
+  baseProject?: DehydratedProject;
+  turns?: (Omit<NonNullable<SavedProject['turns']>[number], 'changes'> & { changes?: DehydratedChange[] })[];
+  fixAttempts?: (Omit<NonNullable<SavedProject['fixAttempts']>[number], 'changes'> & { changes: DehydratedChange[] })[];
+};
+
+const hashCache = new WeakMap<FileNode, string>();
+
+export const hashContent = async (content: string) => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(content));
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+const hashFile = async (file: FileNode) => {
+  const cached = hashCache.get(file);
+  if (cached) return cached;
+  const hash = await hashContent(file.content);
+  hashCache.set(file, hash);
+  return hash;
+};
+
+export const dehydrateEntries = async (entries: SavedProject[]) => {
+  const blobs = new Map<string, string>();
+  const store = async (file: FileNode) => {
+    const hash = await hashFile(file);
+    blobs.set(hash, file.content);
+    return hash;
+  };
+  const project = async (p: GeneratedProject): Promise<DehydratedProject> => ({
+    ...p,
+    files: await Promise.all(p.files.map(async f => ({ path: f.path, hash: await store(f), ...(f.encoding && { encoding: f.encoding }) }))),
+  });
+  const changes = (list: FileChange[]) => Promise.all(list.map(async ({ content, ...change }): Promise<DehydratedChange> => (
+    content === undefined ? change : { ...change, hash: await store({ path: change.path, content }) }
+  )));
+  const dehydrated = await Promise.all(entries.map(async (entry): Promise<DehydratedEntry> => ({
+    ...entry,
+    project: await project(entry.project),
+    baseProject: entry.baseProject && await project(entry.baseProject),
+    turns: entry.turns && await Promise.all(entry.turns.map(async turn => ({ ...turn, changes: turn.changes && await changes(turn.changes) }))),
+    fixAttempts: entry.fixAttempts && await Promise.all(entry.fixAttempts.map(async attempt => ({ ...attempt, changes: await changes(attempt.changes) }))),
+  })));
+  return { entries: dehydrated, blobs };
+};
+
+export const hydrateEntries = (entries: DehydratedEntry[], blobOf: (hash: string) => string | undefined): SavedProject[] => {
+  const project = (p: DehydratedProject): GeneratedProject => ({ ...p, files: p.files.map(f => ({ path: f.path, content: blobOf(f.hash) ?? '', ...(f.encoding && { encoding: f.encoding }) })) });
+  const changes = (list: DehydratedChange[]): FileChange[] => list.map(({ hash, ...change }) => (hash ? { ...change, content: blobOf(hash) ?? '' } : change));
+  return entries.map(entry => ({
+    ...entry,
+    project: project(entry.project),
+    baseProject: entry.baseProject && project(entry.baseProject),
+    turns: entry.turns?.map(turn => ({ ...turn, changes: turn.changes && changes(turn.changes) })),
+    fixAttempts: entry.fixAttempts?.map(attempt => ({ ...attempt, changes: changes(attempt.changes) })),
+  }));
+};
+
+export const referencedHashes = (entries: DehydratedEntry[]) => {
+  const hashes = new Set<string>();
+  const addChanges = (list?: DehydratedChange[]) => list?.forEach(c => c.hash && hashes.add(c.hash));
+  entries.forEach(entry => {
+    entry.project.files.forEach(f => hashes.add(f.hash));
+    entry.baseProject?.files.forEach(f => hashes.add(f.hash));
+    entry.turns?.forEach(turn => addChanges(turn.changes));
+    entry.fixAttempts?.forEach(attempt => addChanges(attempt.changes));
+  });
+  return hashes;
+};
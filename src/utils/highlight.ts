@@ -0,0 +1,80 @@
+export type TokenType = 'comment' | 'string' | 'keyword' | 'number' | 'tag' | 'attr' | 'punct' | 'text';
+
+export interface Token {
+  type: TokenType;
+  text: string;
+}
+
+const KEYWORDS = new Set([
+  'import', 'export', 'from', 'default', 'const', 'let', 'var', 'function', 'return', 'if', 'else', 'for', 'while',
+  'do', 'switch', 'case', 'break', 'continue', 'new', 'class', 'extends', 'interface', 'type', 'enum', 'async',
+  'await', 'try', 'catch', 'finally', 'throw', 'typeof', 'instanceof', 'in', 'of', 'as', 'null', 'undefined',
+  'true', 'false', 'this', 'void', 'public', 'private', 'protected', 'readonly', 'implements', 'keyof', 'yield',
+]);
+
+const SCRIPT_RULES: [TokenType, RegExp][] = [
+  ['comment', /\/\/[^\n]*|\/\*[\s\S]*?\*\//y],
+  ['string', /"(?:\\.|[^"\\\n])*"|'(?:\\.|[^'\\\n])*'|`(?:\\[\s\S]|[^`\\])*`/y],
+  ['tag', /<\/?[A-Za-z][\w.-]*|\/?>/y],
+  ['number', /\b\d+(?:\.\d+)?\b/y],
+  ['keyword', /\b[A-Za-z_$][\w$]*\b/y],
+  ['punct', /[{}()[\];,.:=+\-*/%!&|?<>]/y],
+];
+
+const MARKUP_RULES: [TokenType, RegExp][] = [
+  ['comment', /<!--[\s\S]*?-->/y],
+  ['tag', /<\/?[A-Za-z][\w.-]*|\/?>/y],
+  ['string', /"[^"]*"|'[^']*'/y],
+  ['attr', /\b[\w-]+(?==)/y],
+];
+
+const CSS_RULES: [TokenType, RegExp][] = [
+  ['comment', /\/\*[\s\S]*?\*\//y],
+  ['string', /"[^"\n]*"|'[^'\n]*'/y],
+  ['keyword', /@[\w-]+/y],
+  ['attr', /[\w-]+(?=\s*:)/y],
+  ['number', /-?\d+(?:\.\d+)?(?:px|rem|em|%|vh|vw|s|ms)?\b/y],
+  ['punct', /[{}();:,]/y],
+];
+
+const JSON_RULES: [TokenType, RegExp][] = [
+  ['attr', /"(?:\\.|[^"\\])*"(?=\s*:)/y],
+  ['string', /"(?:\\.|[^"\\])*"/y],
+  ['number', /-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?/y],
+  ['keyword', /\b(?:true|false|null)\b/y],
+  ['punct', /[{}[\],:]/y],
+];
+
+export const languageForPath = (path: string) => {
+  const ext = path.split('.').pop()?.toLowerCase() || '';
+  if (['ts', 'tsx', 'js', 'jsx', 'mjs', 'cjs'].includes(ext)) return 'script';
+  if (['html', 'svg', 'xml'].includes(ext)) return 'markup';
+  if (['css', 'scss', 'less'].includes(ext)) return 'css';
+  if (ext === 'json') return 'json';
+  return 'plain';
+};
+
+export const tokenize = (code: string, path: string): Token[] => {
+  const language = languageForPath(path);
+  const rules = language === 'script' ? SCRIPT_RULES : language === 'markup' ? MARKUP_RULES : language === 'css' ? CSS_RULES : language === 'json' ? JSON_RULES : [];
+  const tokens: Token[] = [];
+  let plain = '';
+  let pos = 0;
+  while (pos < code.length) {
+    let matched = false;
+    for (const [type, regex] of rules) {
+      regex.lastIndex = pos;
+      const match = regex.exec(code);
+      if (!match || match[0].length === 0) continue;
+      if (plain) { tokens.push({ type: 'text', text: plain }); plain = ''; }
+      const resolved = type === 'keyword' && language === 'script' && !KEYWORDS.has(match[0]) ? 'text' : type;
+      tokens.push({ type: resolved, text: match[0] });
+      pos += match[0].length;
+      matched = true;
+      break;
+    }
+    if (!matched) plain += code[pos++];
+  }
+  if (plain) tokens.push({ type: 'text', text: plain });
+  return tokens;
+};
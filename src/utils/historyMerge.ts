@@ -0,0 +1,67 @@
+import { HistoryConflict, SavedProject } from '../types';
+
+const TOMBSTONE_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+export const versionOf = (entry: SavedProject) => entry.updatedAt ?? entry.timestamp;
+
+export const isVisible = (entry: SavedProject) => !entry.deletedAt;
+
+export const byNewest = (a: SavedProject, b: SavedProject) => b.timestamp - a.timestamp;
+
+// Three-way merge of local and cloud history against the versions recorded at the last sync.
+// An entry changed on one side only takes that side; changed on both sides it becomes a conflict
+// and keeps the local copy until resolved. Entries missing on one side that were unchanged since
+// the last sync were purged there (expired tombstones) and are dropped.
+export const mergeHistory = (local: SavedProject[], remote: SavedProject[], base: Record<string, number>, now = Date.now()) => {
+  const localById = new Map(local.map(p => [p.id, p]));
+  const remoteById = new Map(remote.map(p => [p.id, p]));
+  const merged: SavedProject[] = [];
+  const conflicts: HistoryConflict[] = [];
+
+  for (const id of new Set([...localById.keys(), ...remoteById.keys()])) {
+    const l = localById.get(id);
+    const r = remoteById.get(id);
+    if (!l || !r) {
+      const only = (l || r)!;
+      if (base[id] === undefined || versionOf(only) !== base[id]) merged.push(only);
+      continue;
+    }
+    const localVersion = versionOf(l);
+    const remoteVersion = versionOf(r);
+    if (localVersion === remoteVersion) { merged.push(l); continue; }
+    const localChanged = localVersion !== base[id];
+    const remoteChanged = remoteVersion !== base[id];
+    if (localChanged && remoteChanged) {
+      conflicts.push({ id, local: l, remote: r });
+      merged.push(l);
+    } else {
+      merged.push(remoteChanged ? r : l);
+    }
+  }
+
+  const kept = merged.filter(p => !(p.deletedAt && now - p.deletedAt > TOMBSTONE_TTL_MS && base[p.id] === versionOf(p)));
+  return { merged: kept.sort(byNewest), conflicts };
+};
+
+// What gets written to the cloud: the merged list, except conflicting entries stay as the cloud has them until resolved.
+export const uploadableHistory = (merged: SavedProject[], conflicts: HistoryConflict[]) => {
+  const remoteById = new Map(conflicts.map(c => [c.id, c.remote]));
+  return merged.map(p => remoteById.get(p.id) || p);
+};
+
+// Re-applies local edits made while a sync was in flight on top of the merge result.
+export const rebaseLocalEdits = (merged: SavedProject[], snapshot: SavedProject[], current: SavedProject[]) => {
+  const snapshotById = new Map(snapshot.map(p => [p.id, p]));
+  const editedIds = new Set(current.filter(p => snapshotById.get(p.id) !== p).map(p => p.id));
+  if (editedIds.size === 0) return merged;
+  const currentById = new Map(current.map(p => [p.id, p]));
+  const rebased = merged.map(p => (editedIds.has(p.id) ? currentById.get(p.id)! : p));
+  current.forEach(p => { if (editedIds.has(p.id) && !merged.some(m => m.id === p.id)) rebased.push(p); });
+  return rebased.sort(byNewest);
+};
+
+// Stamps entries whose object changed since the previous list, so every local edit carries a fresh version.
+export const stampUpdated = (next: SavedProject[], previous: SavedProject[], now = Date.now()) => {
+  const previousById = new Map(previous.map(p => [p.id, p]));
+  return next.map(p => (previousById.get(p.id) === p ? p : { ...p, updatedAt: now }));
+};
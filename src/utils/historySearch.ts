@@ -0,0 +1,63 @@
+import { FileNode, SavedProject } from '../types';
+
+export type DeployStatus = 'live' | 'failed' | 'pushed' | 'never';
+export type DateRange = 'all' | 'day' | 'week' | 'month';
+
+export interface HistoryFilter {
+  query: string;
+  range: DateRange;
+  status: DeployStatus | 'all';
+}
+
+const RANGE_MS: Record<Exclude<DateRange, 'all'>, number> = {
+  day: 24 * 60 * 60 * 1000,
+  week: 7 * 24 * 60 * 60 * 1000,
+  month: 30 * 24 * 60 * 60 * 1000,
+};
+
+export const deployStatusOf = (entry: SavedProject): DeployStatus => {
+  const link = entry.deployment;
+  if (!link) return 'never';
+  if (link.lastState === 'ERROR' || link.lastState === 'CANCELED') return 'failed';
+  return link.deployUrl ? 'live' : 'pushed';
+};
+
+const lowered = new WeakMap<FileNode, string>();
+const searchableContent = (file: FileNode) => {
+  let text = lowered.get(file);
+  if (text === undefined) {
+    // Binary assets are found by path only.
+    text = (file.encoding === 'base64' ? file.path : `${file.path}\n${file.content}`).toLowerCase();
+    lowered.set(file, text);
+  }
+  return text;
+};
+
+export interface SearchMatch {
+  entry: SavedProject;
+  // Files that matched a term not found in the name, description, prompt or chat.
+  files: string[];
+}
+
+// Case-insensitive substring search over names, descriptions, prompts, chat turns and file contents.
+// All terms must match somewhere in the entry.
+export const searchHistory = (entries: SavedProject[], filter: HistoryFilter, now = Date.now()): SearchMatch[] => {
+  const terms = filter.query.toLowerCase().split(/\s+/).filter(Boolean);
+  const since = filter.range === 'all' ? 0 : now - RANGE_MS[filter.range];
+  const matches: SearchMatch[] = [];
+  for (const entry of entries) {
+    if ((entry.updatedAt ?? entry.timestamp) < since) continue;
+    if (filter.status !== 'all' && deployStatusOf(entry) !== filter.status) continue;
+    if (terms.length === 0) { matches.push({ entry, files: [] }); continue; }
+    const text = [entry.project.name, entry.project.description, entry.prompt, ...(entry.turns || []).map(t => t.content)].join('\n').toLowerCase();
+    const fileHits = new Set<string>();
+    const allFound = terms.every(term => {
+      if (text.includes(term)) return true;
+      const hits = entry.project.files.filter(f => searchableContent(f).includes(term));
+      hits.forEach(f => fileHits.add(f.path));
+      return hits.length > 0;
+    });
+    if (allFound) matches.push({ entry, files: [...fileHits] });
+  }
+  return matches;
+};
@@ -0,0 +1,45 @@
+import { LogEntry, LogRun, SavedRunLog } from '../types';
+
+export const MAX_SAVED_RUNS = 10;
+const MAX_SAVED_ENTRIES = 500;
+
+export const formatDuration = (ms: number) => (ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`);
+
+export const formatLogLine = (log: LogEntry) => [
+  `[${log.timestamp.toISOString()}]`,
+  log.type.toUpperCase().padEnd(7),
+  log.phase ? `[${log.phase}]` : '',
+  log.message,
+  log.filePath ? `(${log.filePath})` : '',
+  log.durationMs !== undefined ? `(${formatDuration(log.durationMs)})` : '',
+].filter(Boolean).join(' ');
+
+export const logsToText = (logs: LogEntry[], runs: LogRun[]) => {
+  const labels = new Map(runs.map(r => [r.id, r.label]));
+  let currentRun: string | undefined;
+  const lines: string[] = [];
+  logs.forEach(log => {
+    if (log.runId !== currentRun) {
+      currentRun = log.runId;
+      if (currentRun) lines.push(`== ${labels.get(currentRun) || 'Run'} (${currentRun}) ==`);
+    }
+    lines.push(formatLogLine(log));
+  });
+  return lines.join('\n');
+};
+
+export const logsToJson = (logs: LogEntry[], runs: LogRun[]) => JSON.stringify({
+  runs: runs.filter(r => logs.some(l => l.runId === r.id)),
+  entries: logs.map(l => ({ ...l, timestamp: l.timestamp.toISOString() })),
+}, null, 2);
+
+// Keeps the end of long runs: that is where failures are.
+export const toSavedRun = (run: LogRun, logs: LogEntry[]): SavedRunLog => ({
+  ...run,
+  entries: logs.slice(-MAX_SAVED_ENTRIES).map(({ runId, timestamp, ...rest }) => ({ ...rest, timestamp: timestamp.getTime() })),
+});
+
+export const fromSavedRun = (saved: SavedRunLog): { run: LogRun; logs: LogEntry[] } => {
+  const { entries, ...run } = saved;
+  return { run, logs: entries.map(e => ({ ...e, timestamp: new Date(e.timestamp), runId: run.id })) };
+};
@@ -0,0 +1,67 @@
+import { FileNode } from '../types';
+
+export interface PartialProject {
+  name?: string;
+  description?: string;
+  files: FileNode[];
+}
+
+// Incrementally scans streamed project JSON and yields each entry of the top-level
+// "files" array as soon as its closing brace arrives, without waiting for the full document.
+export const createProjectStreamParser = () => {
+  let buffer = '';
+  let pos = 0;
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let stringStart = -1;
+  let lastKey = '';
+  let filesDepth = -1;
+  let objectStart = -1;
+  const result: PartialProject = { files: [] };
+
+  const readTopLevelString = (key: 'name' | 'description') => {
+    if (result[key] !== undefined) return;
+    const match = buffer.match(new RegExp(`"${key}"\\s*:\\s*"((?:\\\\.|[^"\\\\])*)"`));
+    if (match) { try { result[key] = JSON.parse(`"${match[1]}"`); } catch (e) {} }
+  };
+
+  const push = (chunk: string): FileNode[] => {
+    buffer += chunk;
+    const completed: FileNode[] = [];
+    for (; pos < buffer.length; pos++) {
+      const ch = buffer[pos];
+      if (inString) {
+        if (escaped) escaped = false;
+        else if (ch === '\\') escaped = true;
+        else if (ch === '"') {
+          inString = false;
+          if (depth === 1) lastKey = buffer.slice(stringStart + 1, pos);
+        }
+        continue;
+      }
+      if (ch === '"') { inString = true; stringStart = pos; }
+      else if (ch === '{' || ch === '[') {
+        depth++;
+        if (ch === '[' && depth === 2 && lastKey === 'files') filesDepth = depth;
+        else if (ch === '{' && filesDepth !== -1 && depth === filesDepth + 1) objectStart = pos;
+      } else if (ch === '}' || ch === ']') {
+        if (ch === '}' && objectStart !== -1 && depth === filesDepth + 1) {
+          try {
+            const file = JSON.parse(buffer.slice(objectStart, pos + 1));
+            if (typeof file.path === 'string' && typeof file.content === 'string') completed.push({ path: file.path, content: file.content });
+          } catch (e) {}
+          objectStart = -1;
+        }
+        if (ch === ']' && depth === filesDepth) filesDepth = -1;
+        depth--;
+      }
+    }
+    readTopLevelString('name');
+    readTopLevelString('description');
+    result.files.push(...completed);
+    return completed;
+  };
+
+  return { push, snapshot: (): PartialProject => ({ ...result, files: [...result.files] }) };
+};
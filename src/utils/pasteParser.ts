@@ -0,0 +1,224 @@
+// Splits pasted text into files using the separator conventions people and chat assistants commonly use:
+//   // File: src/App.tsx        (also #, /* */, <!-- --> and Filename:/Path: variants)
+//   ```tsx title="src/App.tsx"  (or a path in the info string, or a **src/App.tsx** label line before the fence)
+//   === src/App.tsx ===
+// The split is exact: file contents are the pasted lines, never rewritten.
+
+export type PasteConvention = 'comment' | 'fence' | 'header';
+
+export interface PastedFile {
+  path: string;
+  content: string;
+  convention: PasteConvention;
+  // 1-based lines of the paste the content came from, inclusive; 0 when the file is empty.
+  startLine: number;
+  endLine: number;
+  // The path as written, when it was normalized, e.g. "App.tsx" placed under src/.
+  originalPath?: string;
+}
+
+export interface PasteSegment {
+  startLine: number;
+  endLine: number;
+  text: string;
+  // Prose is dropped silently; code outside every file makes the split ambiguous.
+  isCode: boolean;
+}
+
+export interface ParsedPaste {
+  files: PastedFile[];
+  unassigned: PasteSegment[];
+  // Why the split cannot be trusted as is; empty when it can.
+  problems: string[];
+}
+
+const COMMENT_MARKER = /^\s*(?:\/\/+|#+|\/\*+|<!--|--)\s*(?:file(?:name)?|path)\s*:\s*[`'"]?([^\s`'"*]+?)[`'"]?\s*(?:\*+\/|-->)?\s*$/i;
+const HEADER_MARKER = /^\s*={3,}\s*(?:file(?:name)?\s*:\s*)?([^\s=]+)\s*={3,}\s*$/i;
+const FENCE = /^\s*(`{3,}|~{3,})\s*(.*)$/;
+// A comment holding only a path, as the first line of a fenced block: // src/App.tsx
+const PATH_COMMENT = /^\s*(?:\/\/+|#+|<!--)\s*([^\s]+?)\s*(?:-->)?\s*$/;
+const PATH_PATTERN = /^(?:[\w@.+\-[\]()]+\/)*(?:[\w@+\-[\]()]+(?:\.[\w-]+)*\.[A-Za-z0-9]+|\.[\w.-]+)$/;
+const CODE_LINE = /^\s*(?:import\s|export\s|const\s|let\s|var\s|function\s|class\s|interface\s|type\s+\w+\s*=|return\b|<\/?[A-Za-z][\w.-]*[\s>/]|[{}\]);]|@\w+|"[\w-]+"\s*:)|[;{}]\s*$/;
+const SOURCE_EXTENSIONS = /\.(tsx?|jsx?|mjs|cjs|vue|svelte|css|scss|sass|less)$/i;
+const ROOT_FILES = /^(package(-lock)?\.json|index\.html|tsconfig(\.[\w-]+)?\.json|[\w-]+\.config\.[cm]?[jt]s|\.[\w.-]+|README(\.\w+)?|pnpm-lock\.yaml|yarn\.lock|bun\.lock)$/i;
+
+const isPath = (text: string) => PATH_PATTERN.test(text) && !/^\.+$/.test(text);
+
+// Pasted paths are relative to the project root; bare source files such as "App.tsx" belong in src/.
+export const normalizePastedPath = (raw: string) => {
+  const path = raw.replace(/\\/g, '/').replace(/^(\.\/|\/)+/, '');
+  return !path.includes('/') && SOURCE_EXTENSIONS.test(path) && !ROOT_FILES.test(path) ? `src/${path}` : path;
+};
+
+// Path named by a fence info string: title="x", filename=x, lang:x or a bare token that is a path.
+const fencePath = (info: string) => {
+  const attribute = info.match(/\b(?:title|file(?:name)?|path)\s*=\s*["']?([^"'\s]+)/i)?.[1];
+  if (attribute && isPath(attribute)) return attribute;
+  for (const token of info.split(/\s+/)) {
+    const candidate = token.includes(':') ? token.slice(token.indexOf(':') + 1) : token;
+    if (candidate && isPath(candidate)) return candidate;
+  }
+  return undefined;
+};
+
+// A line right before a fence that names it: **src/App.tsx**, `src/App.tsx`, ### src/App.tsx, File: src/App.tsx, src/App.tsx:
+const labelPath = (line: string) => {
+  const text = line.trim()
+    .replace(/^#+\s*/, '').replace(/^[-*]\s+/, '')
+    .replace(/[*_`]/g, '').trim()
+    .replace(/^(?:file(?:name)?|path)\s*:\s*/i, '')
+    .replace(/:$/, '').trim();
+  return isPath(text) ? text : undefined;
+};
+
+interface Draft {
+  rawPath: string;
+  convention: PasteConvention;
+  lines: { text: string; line: number }[];
+  // Markdown files keep fenced blocks as their own content.
+  keepsFences: boolean;
+}
+
+export const parsePaste = (text: string): ParsedPaste => {
+  const lines = text.replace(/\r\n?/g, '\n').split('\n');
+  const files: PastedFile[] = [];
+  const unassigned: PasteSegment[] = [];
+  const problems: string[] = [];
+  let current: Draft | null = null;
+  let loose: { text: string; line: number }[] = [];
+  // Unnamed code blocks, already reported with their own problem.
+  const reported = new Set<PasteSegment>();
+
+  const startDraft = (rawPath: string, convention: PasteConvention): Draft =>
+    ({ rawPath, convention, lines: [], keepsFences: /\.(md|mdx|markdown)$/i.test(rawPath) });
+
+  const flushLoose = () => {
+    const first = loose.findIndex(l => l.text.trim());
+    if (first >= 0) {
+      const kept = loose.slice(first);
+      while (!kept[kept.length - 1].text.trim()) kept.pop();
+      const isCode = kept.filter(l => CODE_LINE.test(l.text)).length >= Math.max(1, kept.length / 3);
+      unassigned.push({ startLine: kept[0].line, endLine: kept[kept.length - 1].line, text: kept.map(l => l.text).join('\n'), isCode });
+    }
+    loose = [];
+  };
+
+  const finish = (draft: Draft | null) => {
+    if (!draft) return;
+    const body = [...draft.lines];
+    while (body.length && !body[0].text.trim()) body.shift();
+    while (body.length && !body[body.length - 1].text.trim()) body.pop();
+    const path = normalizePastedPath(draft.rawPath);
+    files.push({
+      path,
+      content: body.length ? `${body.map(l => l.text).join('\n')}\n` : '',
+      convention: draft.convention,
+      startLine: body[0]?.line ?? 0,
+      endLine: body[body.length - 1]?.line ?? 0,
+      ...(path !== draft.rawPath && { originalPath: draft.rawPath }),
+    });
+  };
+
+  // Splits the body of an unnamed fence on comment and header markers; returns false when it has none.
+  const splitFence = (body: { text: string; line: number }[]) => {
+    const markerAt = body.findIndex(l => COMMENT_MARKER.test(l.text) || HEADER_MARKER.test(l.text));
+    if (markerAt < 0) return false;
+    if (body.slice(0, markerAt).some(l => l.text.trim())) {
+      const lead = body.slice(0, markerAt).filter(l => l.text.trim());
+      unassigned.push({ startLine: lead[0].line, endLine: lead[lead.length - 1].line, text: lead.map(l => l.text).join('\n'), isCode: true });
+    }
+    let draft: Draft | null = null;
+    for (const l of body.slice(markerAt)) {
+      const comment = l.text.match(COMMENT_MARKER)?.[1];
+      const header = l.text.match(HEADER_MARKER)?.[1];
+      if (comment || header) {
+        finish(draft);
+        draft = startDraft((comment || header)!, comment ? 'comment' : 'header');
+      } else draft!.lines.push(l);
+    }
+    finish(draft);
+    return true;
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const text = lines[i];
+    const line = i + 1;
+    const fence = text.match(FENCE);
+    if (fence && !current?.keepsFences) {
+      const marker = fence[1];
+      const body: { text: string; line: number }[] = [];
+      let j = i + 1;
+      for (; j < lines.length; j++) {
+        if (new RegExp(`^\\s*${marker[0] === '`' ? '`' : '~'}{${marker.length},}\\s*$`).test(lines[j])) break;
+        body.push({ text: lines[j], line: j + 1 });
+      }
+      if (j >= lines.length) problems.push(`The code block opened at line ${line} is never closed.`);
+      i = j;
+
+      // A marker with nothing under it yet names the fence that follows it.
+      if (current && !current.lines.some(l => l.text.trim())) {
+        current.convention = 'fence';
+        current.lines = body;
+        finish(current);
+        current = null;
+        continue;
+      }
+      finish(current);
+      current = null;
+
+      let rawPath = fencePath(fence[2]);
+      if (!rawPath) {
+        const lastLoose = [...loose].reverse().find(l => l.text.trim());
+        const label = lastLoose && labelPath(lastLoose.text);
+        if (label) { rawPath = label; loose = loose.filter(l => l !== lastLoose); }
+      }
+      flushLoose();
+      const firstLine = body.find(l => l.text.trim());
+      const firstMarker = firstLine?.text.match(COMMENT_MARKER)?.[1];
+      if (!rawPath && firstMarker && !body.slice(body.indexOf(firstLine!) + 1).some(l => COMMENT_MARKER.test(l.text) || HEADER_MARKER.test(l.text))) {
+        rawPath = firstMarker;
+        body.splice(body.indexOf(firstLine!), 1);
+      }
+      if (!rawPath) {
+        const pathComment = firstLine?.text.match(PATH_COMMENT)?.[1];
+        if (pathComment && isPath(pathComment) && pathComment.includes('/')) rawPath = pathComment;
+      }
+      if (rawPath) {
+        const draft = startDraft(rawPath, 'fence');
+        draft.lines = body;
+        finish(draft);
+      } else if (!splitFence(body) && body.some(l => l.text.trim())) {
+        problems.push(`The code block at line ${line} has no file name.`);
+        const kept = body.filter(l => l.text.trim());
+        const segment = { startLine: kept[0].line, endLine: kept[kept.length - 1].line, text: body.map(l => l.text).join('\n'), isCode: true };
+        unassigned.push(segment);
+        reported.add(segment);
+      }
+      continue;
+    }
+
+    const marker = text.match(COMMENT_MARKER)?.[1] || text.match(HEADER_MARKER)?.[1];
+    if (marker) {
+      finish(current);
+      flushLoose();
+      current = startDraft(marker, COMMENT_MARKER.test(text) ? 'comment' : 'header');
+      continue;
+    }
+    if (current) current.lines.push({ text, line });
+    else loose.push({ text, line });
+  }
+  finish(current);
+  flushLoose();
+
+  if (files.length === 0 && text.trim()) problems.push('No file markers were found.');
+  unassigned.filter(s => s.isCode && !reported.has(s))
+    .forEach(s => problems.push(`Lines ${s.startLine}–${s.endLine} look like code but are not under a file marker.`));
+  const seen = new Map<string, PastedFile>();
+  for (const file of files) {
+    if (file.path.split('/').includes('..')) problems.push(`"${file.path}" points outside the project.`);
+    const earlier = seen.get(file.path);
+    if (earlier) problems.push(`${file.path} appears more than once (lines ${earlier.startLine} and ${file.startLine}).`);
+    seen.set(file.path, file);
+  }
+  return { files, unassigned: unassigned.sort((a, b) => a.startLine - b.startLine), problems };
+};
@@ -0,0 +1,21 @@
+import { ConversationTurn, FileChange, GeneratedProject } from '../types';
+
+export const applyChanges = (project: GeneratedProject, changes: FileChange[]): GeneratedProject => {
+  let files = [...project.files];
+  for (const change of changes) {
+    if (change.type === 'delete') {
+      files = files.filter(f => f.path !== change.path);
+      continue;
+    }
+    const content = change.content ?? '';
+    const index = files.findIndex(f => f.path === change.path);
+    // Model changes are always text, so a replaced binary asset loses its base64 encoding.
+    if (index >= 0) files[index] = { path: change.path, content };
+    else files.push({ path: change.path, content });
+  }
+  return { ...project, files };
+};
+
+// Rebuilds the project as it looked after `upTo` turns (all turns when omitted).
+export const replayTurns = (base: GeneratedProject, turns: ConversationTurn[], upTo = turns.length): GeneratedProject =>
+  turns.slice(0, upTo).reduce((acc, turn) => (turn.role === 'model' && turn.changes ? applyChanges(acc, turn.changes) : acc), base);
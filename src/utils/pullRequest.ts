@@ -0,0 +1,53 @@
+import { ComparedFile, ConversationTurn } from '../types';
+
+const STATUS_LABELS: Record<ComparedFile['status'], string> = {
+  added: 'Added', removed: 'Deleted', modified: 'Modified', renamed: 'Renamed', copied: 'Copied', changed: 'Changed', unchanged: 'Unchanged',
+};
+const MAX_TABLE_ROWS = 200;
+// GitHub rejects pull request bodies over 65536 characters.
+const MAX_BODY_LENGTH = 60000;
+
+// A fresh branch per update, e.g. autodeploy/todo-app-20261019143000, so open pull requests never collide.
+export const pullRequestBranch = (projectName: string, now = Date.now()) => {
+  const slug = projectName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 40) || 'update';
+  return `autodeploy/${slug}-${new Date(now).toISOString().slice(0, 19).replace(/[-:T]/g, '')}`;
+};
+
+const quote = (text: string) => text.trim().split('\n').map(line => `> ${line}`).join('\n');
+const cell = (text: string) => text.replace(/\|/g, '\\|');
+
+export const changeSummaryTable = (files: ComparedFile[]) => {
+  const added = files.reduce((sum, f) => sum + f.additions, 0);
+  const deleted = files.reduce((sum, f) => sum + f.deletions, 0);
+  const rows = files.slice(0, MAX_TABLE_ROWS).map(f =>
+    `| \`${cell(f.previousPath ? `${f.previousPath} → ${f.path}` : f.path)}\` | ${STATUS_LABELS[f.status] || f.status} | +${f.additions} −${f.deletions} |`);
+  return [
+    `${files.length} file(s) changed, +${added} −${deleted}.`,
+    '',
+    '| File | Change | Lines |',
+    '| --- | --- | --- |',
+    ...rows,
+    ...(files.length > MAX_TABLE_ROWS ? [`| …and ${files.length - MAX_TABLE_ROWS} more | | |`] : []),
+  ].join('\n');
+};
+
+// The original prompt, the refinement requests and model explanations since the last deploy, and the file changes.
+export const buildPullRequestBody = (prompt: string, turns: ConversationTurn[], files: ComparedFile[], fallbackExplanation: string) => {
+  const requests = turns.filter(t => t.role === 'user' && t.content.trim());
+  const explanations = turns.filter(t => t.role === 'model' && t.content.trim());
+  const body = [
+    '## Prompt',
+    quote(prompt || '(no prompt recorded)'),
+    ...(requests.length > 0 ? ['', '### Requested changes', ...requests.map((t, i) => `${i + 1}. ${t.content.trim().replace(/\n+/g, ' ')}`)] : []),
+    '',
+    '## Changes',
+    files.length > 0 ? changeSummaryTable(files) : 'No file differences against the base branch.',
+    '',
+    '## Explanation',
+    ...(explanations.length > 0 ? explanations.map(t => `- ${t.content.trim()}`) : [fallbackExplanation.trim() || '(no explanation recorded)']),
+    '',
+    '---',
+    '_Opened by AutoDeploy Agent._',
+  ].join('\n');
+  return body.length > MAX_BODY_LENGTH ? `${body.slice(0, MAX_BODY_LENGTH)}\n\n…(truncated)` : body;
+};
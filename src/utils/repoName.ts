@@ -0,0 +1,29 @@
+// GitHub's naming rules for repositories, branches and topics, checked before anything is created.
+
+const MAX_REPO_NAME = 100;
+const MAX_TOPICS = 20;
+
+export const toRepoName = (projectName: string) =>
+  projectName.trim().replace(/[^A-Za-z0-9._-]+/g, "-").replace(/^[-.]+|[-.]+$/g, "").slice(0, MAX_REPO_NAME) || "autodeploy-app";
+
+// Returns why the name is not usable, or null when it is.
+export const validateRepoName = (name: string): string | null => {
+  if (!name) return "Enter a repository name.";
+  if (name.length > MAX_REPO_NAME) return `Use at most ${MAX_REPO_NAME} characters.`;
+  if (!/^[A-Za-z0-9._-]+$/.test(name)) return "Use only letters, digits, '.', '-' and '_'.";
+  if (name === "." || name === "..") return "This name is reserved.";
+  if (/\.git$/i.test(name)) return "The name cannot end with .git.";
+  return null;
+};
+
+export const validateBranchName = (branch: string): string | null => {
+  if (!branch) return "Enter a branch name.";
+  if (/(^[/.-]|[/.]$|\.\.|\/\/|@\{|[\s~^:?*[\\]|\.lock$)/.test(branch)) return "This is not a valid git branch name.";
+  return null;
+};
+
+// Topics are lowercase letters, digits and hyphens, at most 50 characters; GitHub accepts up to 20 of them.
+export const parseTopics = (text: string) => [...new Set(text
+  .split(/[\s,]+/)
+  .map(t => t.toLowerCase().replace(/[^a-z0-9-]+/g, "-").replace(/^-+|-+$/g, "").slice(0, 50))
+  .filter(Boolean))].slice(0, MAX_TOPICS);
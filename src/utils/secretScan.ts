@@ -0,0 +1,64 @@
+import { EnvVar, FileNode } from "../types";
+
+export interface SecretFinding {
+  path: string;
+  line: number;
+  rule: string;
+  // The offending line with the secret masked, safe to log.
+  excerpt: string;
+}
+
+// A line containing this marker is skipped, for test fixtures and other known false positives.
+export const ALLOW_MARKER = "secret-scan: allow";
+
+const RULES: { rule: string; pattern: RegExp }[] = [
+  { rule: "private key", pattern: /-----BEGIN (?:RSA |EC |DSA |OPENSSH |PGP )?PRIVATE KEY(?: BLOCK)?-----/ },
+  { rule: "AWS access key", pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/ },
+  { rule: "GitHub token", pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{50,})\b/ },
+  { rule: "Google API key", pattern: /\bAIza[0-9A-Za-z_-]{35}\b/ },
+  { rule: "OpenAI or Anthropic key", pattern: /\bsk-(?:ant-|proj-)?[A-Za-z0-9_-]{32,}\b/ },
+  { rule: "Stripe secret key", pattern: /\b(?:sk|rk)_live_[0-9A-Za-z]{20,}\b/ },
+  { rule: "Slack token", pattern: /\bxox[abposr]-[0-9A-Za-z-]{10,}\b/ },
+  { rule: "Vercel or Netlify token", pattern: /\b(?:vercel_[A-Za-z0-9]{24,}|nfp_[A-Za-z0-9]{30,})\b/ },
+  // Long literal with a digit in it, assigned to something named like a credential; placeholders rarely have digits.
+  { rule: "hard-coded credential", pattern: /\b[\w-]*(?:api[_-]?key|secret|token|passw(?:or)?d|auth(?!or))[\w-]*["']?\s*[:=]\s*["'`](?=[A-Za-z0-9+/_\-.=]*\d)[A-Za-z0-9+/_\-.=]{20,}["'`]/i },
+];
+
+// Real .env files hold values; the example/sample/template variants are meant to be committed.
+const ENV_FILE_PATTERN = /(^|\/)\.env(\.[\w-]+)?$/;
+const ENV_TEMPLATE_PATTERN = /\.env\.(example|sample|template)$/;
+const MIN_KNOWN_VALUE_LENGTH = 8;
+
+const mask = (line: string, secret: string) => {
+  const visible = secret.length > 8 ? secret.slice(0, 4) : "";
+  return line.replace(secret, `${visible}${"*".repeat(Math.min(12, Math.max(4, secret.length - 4)))}`).trim().slice(0, 160);
+};
+
+// Looks for credentials in files about to be committed: well-known token formats, private keys, .env files
+// with values, and the literal values of the project's own environment variables.
+export const scanForSecrets = (files: Pick<FileNode, "path" | "content" | "encoding">[], knownValues: EnvVar[] = []): SecretFinding[] => {
+  const known = knownValues.filter(v => v.value.length >= MIN_KNOWN_VALUE_LENGTH);
+  const findings: SecretFinding[] = [];
+  for (const file of files) {
+    if (file.encoding === "base64") continue;
+    const isEnvFile = ENV_FILE_PATTERN.test(file.path) && !ENV_TEMPLATE_PATTERN.test(file.path);
+    file.content.split("\n").forEach((text, index) => {
+      if (text.includes(ALLOW_MARKER)) return;
+      const report = (rule: string, secret: string) => findings.push({ path: file.path, line: index + 1, rule, excerpt: mask(text, secret) });
+      const value = known.find(v => text.includes(v.value));
+      if (value) { report(`value of ${value.key}`, value.value); return; }
+      if (isEnvFile) {
+        const assigned = text.match(/^\s*(?:export\s+)?[A-Za-z_][A-Za-z0-9_]*\s*=\s*["']?([^"'\s#]+)/)?.[1];
+        if (assigned) { report(".env file value", assigned); return; }
+      }
+      for (const { rule, pattern } of RULES) {
+        const match = text.match(pattern);
+        if (match) { report(rule, match[0]); return; }
+      }
+    });
+  }
+  return findings;
+};
+
+export const formatFindings = (findings: SecretFinding[]) =>
+  findings.map(f => `${f.path}:${f.line} ${f.rule}: ${f.excerpt}`).join("\n");
@@ -7,7 +7,9 @@ export default defineConfig(({ mode }) => {
   return {
     plugins: [react()],
     define: {
-      'process.env.API_KEY': JSON.stringify(env.API_KEY)
+      'process.env.API_KEY': JSON.stringify(env.API_KEY),
+      'process.env.GITHUB_CLIENT_ID': JSON.stringify(env.GITHUB_CLIENT_ID),
+      'process.env.GITHUB_OAUTH_BASE_URL': JSON.stringify(env.GITHUB_OAUTH_BASE_URL)
     }
   }
 })
\ No newline at end of file